@@ -1,50 +1,99 @@
 /**
  * App — top-level routing with Firebase Auth.
  *
+ * With the local save backend (saveBackend.ts) there is no sign-in: the app
+ * starts straight on LandingScreen as LOCAL_USER. With the Supabase backend
+ * the sign-in is Supabase Auth instead, and the Supabase user id is the
+ * userId — puzzle_games' RLS only accepts rows whose user_id is auth.uid().
+ *
  * Screen flow:
  *   (not signed in)  → SignInScreen
  *   (signed in)      → LandingScreen  (saved puzzles list)
  *                    → StartScreen    (pick image + difficulty)
+ *                    → StatsScreen    (statistics over all saves)
  *                    → PuzzleCanvas   (play)
  *
  * Image storage strategy:
  *   - User-uploaded images: stored in IndexedDB on this device (imageStore.ts)
+ *     and, with an image backend, uploaded and fetched on resume elsewhere
+ *     (imageSync.ts)
  *   - Picsum images: stored as URL only (no local storage needed)
- *   - Firestore: stores piece state, progress, thumbnail (base64, ~10 KB inline)
+ *   - Saves: piece state, progress, thumbnail (base64, ~10 KB inline) are
+ *     written to IndexedDB first (localSaveStore.ts) and synced to Firestore
+ *     in the background (saveSync.ts) — playing offline loses nothing
+ *
+ * Challenge links (?utmaning=CODE, see challengeCode.ts) and codes typed on
+ * LandingScreen skip StartScreen and open the identical puzzle directly.
  *
- * When the user backs out of PuzzleCanvas the puzzle is auto-saved to Firestore.
+ * When the user backs out of PuzzleCanvas the puzzle is auto-saved.
  * The image is saved to IndexedDB at the moment the game starts.
  */
 
 import { useState, useRef, useEffect } from 'react';
-import { onAuthStateChanged, signInWithPopup, User } from 'firebase/auth';
+import { onAuthStateChanged, signInWithPopup, signOut, User } from 'firebase/auth';
+import type { Session } from '@supabase/supabase-js';
 import { auth, googleProvider } from './lib/firebase';
-import { storeImage, loadImage, copyImage } from './lib/imageStore';
+import { supabase } from './lib/supabase';
+import { saveBackendKind } from './lib/saveBackend';
+import { storeImage, loadImage, copyImage, storedImageHash } from './lib/imageStore';
+import { downloadImage } from './lib/imageSync';
+import { CHALLENGE_PARAM, ChallengeCodeError, decodeChallenge, picsumUrl } from './lib/challengeCode';
+import { startBackgroundSync } from './lib/saveSync';
 import {
   savePuzzle,
   generateThumbnail,
-  loadUserSaves,
   PuzzleSaveRecord,
   SavedPieceState,
+  SaveTooLargeError,
 } from './lib/puzzleSave';
 import LandingScreen from './screens/LandingScreen';
+import StatsScreen from './screens/StatsScreen';
 import StartScreen from './puzzle/StartScreen';
 import PuzzleCanvas from './puzzle/PuzzleCanvas';
+import { DEFAULT_PUZZLE_OPTIONS, PuzzleOptions } from './puzzle/generator';
+import { HistoryState } from './puzzle/history';
+import { PuzzleStats } from './puzzle/stats';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-type Screen = 'landing' | 'start' | 'puzzle';
+type Screen = 'landing' | 'start' | 'puzzle' | 'stats';
+
+type AppUser = Pick<User, 'uid' | 'displayName' | 'email'>;
+
+const LOCAL_USER: AppUser = { uid: 'local', displayName: null, email: null };
+
+const SUPABASE_MISSING = 'VITE_SAVE_BACKEND=supabase needs VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY';
+
+function supabaseUser(session: Session | null): AppUser | null {
+  if (!session) return null;
+  const meta = session.user.user_metadata ?? {};
+  return {
+    uid: session.user.id,
+    displayName: (meta.full_name ?? meta.name ?? null) as string | null,
+    email: session.user.email ?? null,
+  };
+}
+
+function signOutUser() {
+  if (saveBackendKind === 'supabase') void supabase?.auth.signOut();
+  else void signOut(auth!);
+}
 
 interface GameSession {
   image: HTMLImageElement;
   imageIsPicsum: boolean;
   picsumUrl: string | null;
+  /** Hash of the stored image; null for picsum */
+  imageHash: string | null;
   cols: number;
   rows: number;
   seed: number;
+  options: PuzzleOptions;
   saveId?: string;
   loadedPiecesState?: SavedPieceState[];
   loadedTrayIds?: string[];
+  loadedHistory?: HistoryState | null;
+  loadedStats?: PuzzleStats | null;
 }
 
 // ─── Floating piece decoration ────────────────────────────────────────────────
@@ -74,10 +123,22 @@ function SignInScreen() {
     setLoading(true);
     setError(null);
     try {
-      await signInWithPopup(auth, googleProvider);
+      if (saveBackendKind === 'supabase') {
+        if (!supabase) throw new Error(SUPABASE_MISSING);
+        // Redirects to Google and back; the session arrives through onAuthStateChange
+        const { error } = await supabase.auth.signInWithOAuth({
+          provider: 'google',
+          options: { redirectTo: window.location.origin },
+        });
+        if (error) throw error;
+      } else {
+        await signInWithPopup(auth!, googleProvider);
+      }
     } catch (e) {
       console.error(e);
-      setError('Could not sign in. Please try again.');
+      setError(e instanceof Error && e.message === SUPABASE_MISSING
+        ? SUPABASE_MISSING
+        : 'Could not sign in. Please try again.');
       setLoading(false);
     }
   }
@@ -181,22 +242,81 @@ function SignInScreen() {
 // ─── Main App ─────────────────────────────────────────────────────────────────
 
 export default function App() {
-  const [user, setUser] = useState<User | null | undefined>(undefined);
+  const [user, setUser] = useState<AppUser | null | undefined>(undefined);
   const [screen, setScreen] = useState<Screen>('landing');
   const [game, setGame] = useState<GameSession | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
   const triggerSaveRef = useRef<(() => Promise<void>) | null>(null);
   const triggerNewPuzzleRef = useRef<(() => void) | null>(null);
+  // Last thumbnail made in handleSave; reused until more pieces are placed
+  const thumbnailRef = useRef<{ image: HTMLImageElement; placedCount: number; url: string | null } | null>(null);
   const [showNewConfirm, setShowNewConfirm] = useState(false);
   const [puzzleCalmMode, setPuzzleCalmMode] = useState(false);
   const [resumingId, setResumingId] = useState<string | null>(null);
+  const [challengeCode, setChallengeCode] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get(CHALLENGE_PARAM),
+  );
 
   useEffect(() => {
+    if (saveBackendKind === 'supabase') {
+      if (!supabase) {
+        console.error(SUPABASE_MISSING);
+        setUser(null);
+        return;
+      }
+      const { data } = supabase.auth.onAuthStateChange((_event, session) => setUser(supabaseUser(session)));
+      return () => data.subscription.unsubscribe();
+    }
+    if (saveBackendKind === 'local' || !auth) {
+      setUser(LOCAL_USER);
+      return;
+    }
     const unsub = onAuthStateChanged(auth, u => setUser(u));
     return unsub;
   }, []);
 
+  const userId = user?.uid;
+  useEffect(() => {
+    if (!userId) return;
+    return startBackgroundSync(userId);
+  }, [userId]);
+
+  // Open a challenge (from the link or typed on LandingScreen) once signed in
+  useEffect(() => {
+    if (!userId || !challengeCode) return;
+    let cancelled = false;
+    window.history.replaceState(null, '', window.location.pathname);
+    (async () => {
+      try {
+        const challenge = decodeChallenge(challengeCode);
+        const url = picsumUrl(challenge.picsum);
+        const image = await loadImageFromUrl(url);
+        if (cancelled) return;
+        setGame({
+          image,
+          imageIsPicsum: true,
+          picsumUrl: url,
+          imageHash: null,
+          cols: challenge.cols,
+          rows: challenge.rows,
+          seed: challenge.seed,
+          options: { ...DEFAULT_PUZZLE_OPTIONS, ...challenge.options },
+          saveId: `tmp_${challenge.seed}`,
+        });
+        setScreen('puzzle');
+      } catch (e) {
+        console.error('Challenge failed', e);
+        alert(e instanceof ChallengeCodeError
+          ? 'Utmaningskoden är ogiltig. Kontrollera att den är rätt inskriven.'
+          : 'Kunde inte ladda utmaningens bild. Försök igen.');
+      } finally {
+        if (!cancelled) setChallengeCode(null);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [userId, challengeCode]);
+
   // ── Loading ──────────────────────────────────────────────────────────────
   if (user === undefined) {
     return (
@@ -214,7 +334,11 @@ export default function App() {
       <LandingScreen
         userId={user.uid}
         displayName={user.displayName ?? user.email ?? 'du'}
+        onSignOut={user === LOCAL_USER ? undefined : signOutUser}
         onNewPuzzle={() => setScreen('start')}
+        onOpenStats={() => setScreen('stats')}
+        onOpenChallenge={setChallengeCode}
+        openingChallenge={challengeCode !== null}
         resumingId={resumingId}
         onResumePuzzle={async (save: PuzzleSaveRecord) => {
           if (resumingId) return; // prevent double-tap
@@ -226,6 +350,10 @@ export default function App() {
               img = await loadImageFromUrl(save.picsumUrl);
             } else {
               img = await loadImage(save.id);
+              // Picked on another device — fetch it from the image backend
+              if (!img && save.imageHash && await downloadImage(user.uid, save.id, save.imageHash)) {
+                img = await loadImage(save.id);
+              }
             }
 
             if (!img) {
@@ -237,12 +365,17 @@ export default function App() {
               image: img,
               imageIsPicsum: save.imageIsPicsum,
               picsumUrl: save.picsumUrl,
+              // Saves from before image sync get their hash on the next save
+              imageHash: save.imageHash ?? (save.imageIsPicsum ? null : await storedImageHash(save.id)),
               cols: save.cols,
               rows: save.rows,
               seed: save.puzzleSeed,
+              options: save.options,
               saveId: save.id,
               loadedPiecesState: save.piecesState,
               loadedTrayIds: save.trayIds,
+              loadedHistory: save.history,
+              loadedStats: save.stats,
             });
             setScreen('puzzle');
           } catch (e) {
@@ -256,28 +389,36 @@ export default function App() {
     );
   }
 
+  // ── Stats ────────────────────────────────────────────────────────────────
+  if (screen === 'stats') {
+    return <StatsScreen userId={user.uid} onBack={() => setScreen('landing')} />;
+  }
+
   // ── Start ────────────────────────────────────────────────────────────────
   if (screen === 'start') {
     return (
       <StartScreen
         onBack={() => setScreen('landing')}
-        onStart={async (image, cols, rows, _imageUrl, imageIsPicsum) => {
+        onStart={async (image, cols, rows, _imageUrl, imageIsPicsum, options) => {
           const seed = crypto.getRandomValues(new Uint32Array(1))[0];
           const tempId = `tmp_${seed}`;
 
+          let imageHash: string | null = null;
           if (!imageIsPicsum) {
             // Store image locally in IndexedDB under temp key
             // Will be migrated to real saveId after first save
-            await storeImage(tempId, image);
+            imageHash = await storeImage(tempId, image);
           }
 
           setGame({
             image,
             imageIsPicsum,
             picsumUrl: imageIsPicsum ? `https://picsum.photos/seed/puzzle/1200/800` : null,
+            imageHash,
             cols,
             rows,
             seed,
+            options,
             saveId: tempId, // will be replaced after first real save
           });
           setScreen('puzzle');
@@ -295,7 +436,9 @@ export default function App() {
           await triggerSaveRef.current();
         } catch (e) {
           console.error('Save failed', e);
-          const leave = confirm('Sparningen misslyckades. Vill du lämna ändå? Osparade ändringar går förlorade.');
+          const leave = confirm(e instanceof SaveTooLargeError
+            ? 'Pusslet är för stort för att sparas. Vill du lämna ändå? Osparade ändringar går förlorade.'
+            : 'Sparningen misslyckades. Vill du lämna ändå? Osparade ändringar går förlorade.');
           if (!leave) {
             setIsSaving(false);
             return;
@@ -317,26 +460,40 @@ export default function App() {
       total: number,
       isCompleted: boolean,
       boardImageCanvas: HTMLCanvasElement,
+      history: HistoryState,
+      groups: Map<string, string>,
+      stats: PuzzleStats,
+      changedIds: string[] | null,
     ): Promise<string> {
       const isTempId = game!.saveId?.startsWith('tmp_');
 
-      const thumbnailDataUrl = await generateThumbnail(boardImageCanvas);
+      let thumbnail = thumbnailRef.current;
+      if (!thumbnail || thumbnail.image !== game!.image || thumbnail.placedCount !== placedCount) {
+        thumbnail = { image: game!.image, placedCount, url: await generateThumbnail(boardImageCanvas) };
+        thumbnailRef.current = thumbnail;
+      }
 
       const saveId = await savePuzzle({
         userId:          user!.uid,
         imageIsPicsum:   game!.imageIsPicsum,
         picsumUrl:       game!.picsumUrl,
+        imageHash:       game!.imageHash,
         cols:            game!.cols,
         rows:            game!.rows,
         seed:            game!.seed,
+        options:         game!.options,
         pieces,
         trayIds,
+        history,
+        groups,
+        stats,
         boardX, boardY, boardW, boardH,
         placedCount,
         total,
         isCompleted,
         existingSaveId:  isTempId ? undefined : game!.saveId,
-        thumbnailDataUrl,
+        thumbnailDataUrl: thumbnail.url,
+        changedIds,
       });
 
       // If this was a temp image key, migrate it to the real saveId
@@ -355,8 +512,11 @@ export default function App() {
           cols={game.cols}
           rows={game.rows}
           seed={game.seed}
+          options={game.options}
           loadedPiecesState={game.loadedPiecesState}
           loadedTrayIds={game.loadedTrayIds}
+          loadedHistory={game.loadedHistory}
+          loadedStats={game.loadedStats}
           onSave={handleSave}
           onRegisterSaveTrigger={fn => { triggerSaveRef.current = fn; }}
           onRegisterNewPuzzleTrigger={fn => { triggerNewPuzzleRef.current = fn; }}
@@ -0,0 +1,54 @@
+/**
+ * Firestore image blob backend — images next to the saves, so a Firebase
+ * deployment syncs them without Firebase Storage or a server of its own.
+ *
+ *   users/{userId}/puzzle_images/{hash}              { type, size, chunks }
+ *   users/{userId}/puzzle_images/{hash}/chunks/{i}   { data: Bytes }
+ *
+ * A document holds at most 1 MiB, so the JPEG is split into chunks. The
+ * chunks are written before the image document, which only exists once the
+ * whole image does. Firestore rules must allow users/{uid}/puzzle_images
+ * the same way as users/{uid}/puzzle_saves.
+ */
+
+import { Bytes, collection, doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import type { BlobBackend } from '../blobBackend';
+
+/** Chunk size, leaving room under the document limit for names and overhead */
+export const IMAGE_CHUNK_BYTES = 900 * 1024;
+
+export function createFirestoreBlobBackend(): BlobBackend {
+  if (!db) throw new Error('Firestore image backend needs the VITE_FIREBASE_* config');
+  const firestore = db;
+  const imageDoc = (userId: string, hash: string) => doc(firestore, 'users', userId, 'puzzle_images', hash);
+  const chunkDoc = (userId: string, hash: string, i: number) =>
+    doc(collection(imageDoc(userId, hash), 'chunks'), String(i));
+
+  return {
+    kind: 'firestore',
+
+    async put(userId, hash, blob) {
+      const bytes = new Uint8Array(await blob.arrayBuffer());
+      const chunks = Math.max(1, Math.ceil(bytes.length / IMAGE_CHUNK_BYTES));
+      for (let i = 0; i < chunks; i++) {
+        const data = bytes.subarray(i * IMAGE_CHUNK_BYTES, (i + 1) * IMAGE_CHUNK_BYTES);
+        await setDoc(chunkDoc(userId, hash, i), { data: Bytes.fromUint8Array(data) });
+      }
+      await setDoc(imageDoc(userId, hash), { type: blob.type || 'image/jpeg', size: bytes.length, chunks });
+    },
+
+    async get(userId, hash) {
+      const snap = await getDoc(imageDoc(userId, hash));
+      if (!snap.exists()) return null;
+      const { type, chunks } = snap.data() as { type: string; chunks: number };
+      const parts: Uint8Array[] = [];
+      for (let i = 0; i < chunks; i++) {
+        const chunk = await getDoc(chunkDoc(userId, hash, i));
+        if (!chunk.exists()) throw new Error(`Image ${hash} is missing chunk ${i}`);
+        parts.push((chunk.data().data as Bytes).toUint8Array());
+      }
+      return new Blob(parts, { type });
+    },
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Firestore save backend.
+ *
+ * Firestore path:  users/{userId}/puzzle_saves/{saveId}
+ *
+ * Documents are stored in the saveSchema.ts shape with createdAt / updatedAt
+ * as Firestore Timestamps, so the console shows real dates and older
+ * documents written with serverTimestamp() read back the same way.
+ * Documents over Firestore's 1 MB limit (saveSize.ts) fail here, with their
+ * size, before anything is sent.
+ *
+ * Patches go through updateDoc: each changed piece is one field of the
+ * pieceUpdates map, so a save after a few moves sends a few hundred bytes.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  FieldPath,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import type { SaveBackend, SaveDocument, StoredSave } from '../saveBackend';
+import { FIRESTORE_DOC_LIMIT, SaveTooLargeError, estimateSaveSize } from '../saveSize';
+
+export function createFirestoreSaveBackend(): SaveBackend {
+  if (!db) throw new Error('Firestore save backend needs the VITE_FIREBASE_* config');
+  const firestore = db;
+  const savesCol = (userId: string) => collection(firestore, 'users', userId, 'puzzle_saves');
+
+  return {
+    kind: 'firestore',
+
+    async save(userId, saveId, data) {
+      const size = estimateSaveSize(userId, saveId, data);
+      if (size > FIRESTORE_DOC_LIMIT) throw new SaveTooLargeError(saveId, size);
+      await setDoc(doc(savesCol(userId), saveId), toFirestore(data));
+    },
+
+    async update(userId, saveId, patch) {
+      const { updatedAt, ...fields } = patch.fields;
+      // One field per piece, so updates from earlier patches stay
+      const more: unknown[] = [];
+      for (const [key, value] of Object.entries(fields)) more.push(key, value);
+      for (const [id, state] of Object.entries(patch.pieces)) more.push(new FieldPath('pieceUpdates', id), state);
+      await updateDoc(doc(savesCol(userId), saveId), 'updatedAt', Timestamp.fromMillis(updatedAt as number), ...more);
+    },
+
+    async list(userId) {
+      const snap = await getDocs(savesCol(userId));
+      return snap.docs.map(d => fromFirestore(d.id, d.data()));
+    },
+
+    async load(userId, saveId) {
+      const snap = await getDoc(doc(savesCol(userId), saveId));
+      return snap.exists() ? fromFirestore(snap.id, snap.data()) : null;
+    },
+
+    async delete(userId, saveId) {
+      await deleteDoc(doc(savesCol(userId), saveId));
+    },
+  };
+}
+
+function toMillis(v: unknown): number {
+  if (v instanceof Timestamp) return v.toMillis();
+  if (v instanceof Date) return v.getTime();
+  if (typeof v === 'number') return v;
+  // Missing: treat as older than anything else
+  return 0;
+}
+
+function fromFirestore(id: string, data: Record<string, unknown>): StoredSave {
+  const updatedAt = toMillis(data.updatedAt);
+  return { id, updatedAt, doc: { ...data, createdAt: toMillis(data.createdAt), updatedAt } };
+}
+
+function toFirestore(data: SaveDocument): SaveDocument {
+  return {
+    ...data,
+    createdAt: Timestamp.fromMillis(data.createdAt as number),
+    updatedAt: Timestamp.fromMillis(data.updatedAt as number),
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * HTTP image blob backend — plain PUT / GET against any server:
+ *
+ *   PUT {baseUrl}/{userId}/{hash}   body = the JPEG
+ *   GET {baseUrl}/{userId}/{hash}   404 when missing
+ *
+ * When getToken returns a token it is sent as a Bearer Authorization header
+ * (the app passes the Firebase ID token).
+ */
+
+import type { BlobBackend } from '../blobBackend';
+
+export function createHttpBlobBackend(
+  baseUrl: string,
+  getToken?: () => Promise<string | null>,
+): BlobBackend {
+  if (!baseUrl) throw new Error('HTTP image backend needs VITE_IMAGE_BACKEND_URL');
+  const base = baseUrl.replace(/\/+$/, '');
+  const urlOf = (userId: string, hash: string) =>
+    `${base}/${encodeURIComponent(userId)}/${encodeURIComponent(hash)}`;
+
+  async function headers(extra: Record<string, string> = {}): Promise<Record<string, string>> {
+    const token = getToken ? await getToken() : null;
+    return token ? { ...extra, Authorization: `Bearer ${token}` } : extra;
+  }
+
+  return {
+    kind: 'http',
+
+    async put(userId, hash, blob) {
+      const res = await fetch(urlOf(userId, hash), {
+        method: 'PUT',
+        headers: await headers({ 'Content-Type': blob.type || 'image/jpeg' }),
+        body: blob,
+      });
+      if (!res.ok) throw new Error(`Image upload failed: HTTP ${res.status}`);
+    },
+
+    async get(userId, hash) {
+      const res = await fetch(urlOf(userId, hash), { headers: await headers() });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`Image download failed: HTTP ${res.status}`);
+      return res.blob();
+    },
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Local save backend — no account, no network.
+ *
+ * Keeps every user's saves in a Map. Given a Storage (localStorage in the
+ * app) the Map is written through to it under "puzzle_saves_{userId}", so
+ * saves survive a reload; without one (tests) it is purely in memory.
+ */
+
+import type { SaveBackend, StoredSave } from '../saveBackend';
+
+const KEY = (userId: string) => `puzzle_saves_${userId}`;
+
+export function createLocalSaveBackend(storage?: Storage): SaveBackend {
+  const users = new Map<string, Map<string, StoredSave>>();
+
+  function savesOf(userId: string): Map<string, StoredSave> {
+    let saves = users.get(userId);
+    if (!saves) {
+      saves = new Map();
+      const raw = storage?.getItem(KEY(userId));
+      if (raw) {
+        try {
+          for (const s of JSON.parse(raw) as StoredSave[]) saves.set(s.id, s);
+        } catch (e) {
+          console.warn('Local save backend: ignoring unreadable storage', e);
+        }
+      }
+      users.set(userId, saves);
+    }
+    return saves;
+  }
+
+  function persist(userId: string) {
+    storage?.setItem(KEY(userId), JSON.stringify([...savesOf(userId).values()]));
+  }
+
+  // Copies in and out, so callers can't change what's stored by mutating
+  const copy = (s: StoredSave): StoredSave => structuredClone(s);
+
+  return {
+    kind: 'local',
+
+    async save(userId, saveId, doc) {
+      savesOf(userId).set(saveId, copy({ id: saveId, doc, updatedAt: doc.updatedAt as number }));
+      persist(userId);
+    },
+
+    async list(userId) {
+      return [...savesOf(userId).values()].map(copy);
+    },
+
+    async load(userId, saveId) {
+      const s = savesOf(userId).get(saveId);
+      return s ? copy(s) : null;
+    },
+
+    async delete(userId, saveId) {
+      if (savesOf(userId).delete(saveId)) persist(userId);
+    },
+  };
+}
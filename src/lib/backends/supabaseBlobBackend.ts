@@ -0,0 +1,41 @@
+/**
+ * Supabase image blob backend — the "puzzle-images" storage bucket
+ * (created by hand, see supabase/migrations).
+ *
+ * Object path:  {userId}/{hash}.jpg
+ *
+ * userId is the signed-in Supabase user's id (see App.tsx), so bucket
+ * policies can match the first path segment against auth.uid().
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BlobBackend } from '../blobBackend';
+
+const BUCKET = 'puzzle-images';
+
+export function createSupabaseBlobBackend(supabase: SupabaseClient | null): BlobBackend {
+  if (!supabase) throw new Error('Supabase image backend needs VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY');
+  const bucket = () => supabase.storage.from(BUCKET);
+  const pathOf = (userId: string, hash: string) => `${userId}/${hash}.jpg`;
+
+  return {
+    kind: 'supabase',
+
+    async put(userId, hash, blob) {
+      const { error } = await bucket().upload(pathOf(userId, hash), blob, {
+        contentType: blob.type || 'image/jpeg',
+        upsert: true,
+      });
+      if (error) throw new Error(`Image upload failed: ${error.message}`);
+    },
+
+    async get(userId, hash) {
+      const { data, error } = await bucket().download(pathOf(userId, hash));
+      if (error) {
+        if (/not found/i.test(error.message)) return null;
+        throw new Error(`Image download failed: ${error.message}`);
+      }
+      return data;
+    },
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Supabase save backend — the puzzle_games table from supabase/migrations.
+ *
+ * Column mapping (one row per save, id = saveId):
+ *   image_url    ← imageSource ('local' or the picsum URL)
+ *   cols, rows
+ *   completed    ← isCompleted
+ *   board_pieces ← piecesState  (empty for documents with packedPieces,
+ *   tray_pieces  ← trayIds       which go in pieces_data — see saveSchema.ts)
+ *   tabs_config  ← { puzzleSeed, options } — everything that decides piece shapes
+ *   pieces_data  ← the rest of the document (progress, history, thumbnail, …)
+ *
+ * The table's update trigger overwrites updated_at with server time, so the
+ * client's updatedAt (the sync clock) is kept in pieces_data as well.
+ * There is no update: patches would have to be merged into pieces_data on
+ * the server, so every push writes the whole row.
+ *
+ * user_id references auth.users and RLS compares it with auth.uid(): the
+ * userId passed in must be the id of the Supabase user the client is signed
+ * in as. App.tsx signs in with Supabase Auth whenever this backend is chosen
+ * and uses that id. Save ids must be UUIDs (newSaveId makes them).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SaveBackend, SaveDocument, StoredSave } from '../saveBackend';
+
+const TABLE = 'puzzle_games';
+
+export interface PuzzleGameRow {
+  id: string;
+  user_id: string;
+  image_url: string;
+  pieces_data: Record<string, unknown>;
+  board_pieces: unknown[];
+  tray_pieces: unknown[];
+  cols: number;
+  rows: number;
+  completed: boolean;
+  tabs_config: { puzzleSeed: unknown; options: unknown } | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function createSupabaseSaveBackend(supabase: SupabaseClient | null): SaveBackend {
+  if (!supabase) throw new Error('Supabase save backend needs VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY');
+
+  return {
+    kind: 'supabase',
+
+    async save(userId, saveId, doc) {
+      const { error } = await supabase.from(TABLE).upsert(saveToRow(userId, saveId, doc));
+      if (error) throw new Error(`Supabase save failed: ${error.message}`);
+    },
+
+    async list(userId) {
+      const { data, error } = await supabase.from(TABLE).select('*').eq('user_id', userId);
+      if (error) throw new Error(`Supabase list failed: ${error.message}`);
+      return (data as PuzzleGameRow[]).map(rowToSave);
+    },
+
+    async load(userId, saveId) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .eq('user_id', userId)
+        .eq('id', saveId)
+        .maybeSingle();
+      if (error) throw new Error(`Supabase load failed: ${error.message}`);
+      return data ? rowToSave(data as PuzzleGameRow) : null;
+    },
+
+    async delete(userId, saveId) {
+      const { error } = await supabase.from(TABLE).delete().eq('user_id', userId).eq('id', saveId);
+      if (error) throw new Error(`Supabase delete failed: ${error.message}`);
+    },
+  };
+}
+
+export function saveToRow(userId: string, saveId: string, doc: SaveDocument): PuzzleGameRow {
+  const {
+    imageSource, cols, rows, isCompleted, piecesState, trayIds, puzzleSeed, options,
+    createdAt, updatedAt, ...rest
+  } = doc;
+  return {
+    id: saveId,
+    user_id: userId,
+    image_url: (imageSource as string | null) ?? 'local',
+    pieces_data: { ...rest, updatedAt },
+    board_pieces: (piecesState as unknown[]) ?? [],
+    tray_pieces: (trayIds as unknown[]) ?? [],
+    cols: cols as number,
+    rows: rows as number,
+    completed: Boolean(isCompleted),
+    tabs_config: { puzzleSeed, options },
+    created_at: new Date(createdAt as number).toISOString(),
+    updated_at: new Date(updatedAt as number).toISOString(),
+  };
+}
+
+export function rowToSave(row: PuzzleGameRow): StoredSave {
+  const { updatedAt: clientUpdatedAt, ...rest } = row.pieces_data ?? {};
+  const updatedAt = typeof clientUpdatedAt === 'number' ? clientUpdatedAt : Date.parse(row.updated_at);
+  return {
+    id: row.id,
+    updatedAt,
+    doc: {
+      ...rest,
+      imageSource: row.image_url,
+      cols: row.cols,
+      rows: row.rows,
+      isCompleted: row.completed,
+      piecesState: row.board_pieces,
+      trayIds: row.tray_pieces,
+      puzzleSeed: row.tabs_config?.puzzleSeed,
+      options: row.tabs_config?.options,
+      createdAt: Date.parse(row.created_at),
+      updatedAt,
+    },
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Image blob backends — where imageSync.ts keeps uploaded puzzle images so
+ * they can be resumed on another device.
+ *
+ * Blobs are content addressed: stored under the SHA-256 of their bytes
+ * (imageHash in the save), per user. The same image is uploaded once no
+ * matter how many saves use it, and a download can be checked against its
+ * hash.
+ *
+ *   http     = PUT / GET {VITE_IMAGE_BACKEND_URL}/{userId}/{hash}
+ *              (backends/httpBlobBackend.ts — any server, or a local stand-in)
+ *   firestore = users/{userId}/puzzle_images/{hash}, in chunks
+ *               (backends/firestoreBlobBackend.ts)
+ *   supabase = the "puzzle-images" storage bucket   (backends/supabaseBlobBackend.ts)
+ *   none     = images stay on the device that picked them
+ *
+ * Chosen with VITE_IMAGE_BACKEND. Without it images go where the saves go
+ * (Firestore or Supabase); with the local save backend they stay local.
+ */
+
+import { auth } from './firebase';
+import { supabase } from './supabase';
+import { saveBackendKind } from './saveBackend';
+import { createFirestoreBlobBackend } from './backends/firestoreBlobBackend';
+import { createHttpBlobBackend } from './backends/httpBlobBackend';
+import { createSupabaseBlobBackend } from './backends/supabaseBlobBackend';
+
+export type BlobBackendKind = 'http' | 'firestore' | 'supabase' | 'none';
+
+export interface BlobBackend {
+  readonly kind: Exclude<BlobBackendKind, 'none'>;
+  /** Store a blob; storing the same hash again is not an error */
+  put(userId: string, hash: string, blob: Blob): Promise<void>;
+  /** The blob, or null if it was never uploaded */
+  get(userId: string, hash: string): Promise<Blob | null>;
+}
+
+function configuredKind(): BlobBackendKind {
+  const value = import.meta.env.VITE_IMAGE_BACKEND as string | undefined;
+  if (value === 'http' || value === 'firestore' || value === 'supabase' || value === 'none') return value;
+  if (value) console.warn(`Unknown VITE_IMAGE_BACKEND "${value}", using the default`);
+  return saveBackendKind === 'local' ? 'none' : saveBackendKind;
+}
+
+export const blobBackendKind: BlobBackendKind = configuredKind();
+
+let backend: BlobBackend | null = null;
+
+/** The configured backend, created on first use; null when images stay local. */
+export function getBlobBackend(): BlobBackend | null {
+  if (!backend && blobBackendKind !== 'none') {
+    if (blobBackendKind === 'http') {
+      backend = createHttpBlobBackend(
+        import.meta.env.VITE_IMAGE_BACKEND_URL as string,
+        async () => (await auth?.currentUser?.getIdToken()) ?? null,
+      );
+    } else if (blobBackendKind === 'firestore') backend = createFirestoreBlobBackend();
+    else backend = createSupabaseBlobBackend(supabase);
+  }
+  return backend;
+}
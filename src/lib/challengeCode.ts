@@ -0,0 +1,263 @@
+/**
+ * Challenge codes — share a puzzle so someone else gets the identical cut.
+ *
+ * A puzzle is fully determined by its image, grid, seed and cut options.
+ * For picsum images all of that fits in a short code:
+ *
+ *   byte 0      version << 1 | image kind (0 = picsum id, 1 = picsum seed)
+ *   image       id as varint, or seed as length byte + UTF-8
+ *   varints     image width, image height, cols, rows
+ *   4 bytes     puzzle seed (big endian)
+ *   2 bytes     options: no-hints(1) rotation(2) cut(2) tiling(2) layout(1) mask(2) bits
+ *   1 byte      checksum
+ *
+ * written in Crockford base32 (no I, L, O, U; case-insensitive) and grouped
+ * in fours, e.g. "2D1G-…". Links carry it as ?utmaning=CODE.
+ *
+ * Uploaded images can't be encoded; they are shared as a challenge file
+ * instead (exportPuzzleFile with { challenge: true }).
+ */
+
+import type { CutStyle, PuzzleOptions, RotationMode } from '../puzzle/generator';
+import type { LatticeLayout, Tiling } from '../puzzle/tiling';
+import type { MaskShape } from '../puzzle/mask';
+import { CUSTOM_TARGET_MAX } from '../puzzle/difficulty';
+
+const VERSION = 1;
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+export const CHALLENGE_PARAM = 'utmaning';
+
+// Decoded codes are opened straight away, so anything StartScreen can't make
+// is refused rather than generated. Masks grow the lattice (computeMaskedGrid).
+const MAX_LATTICE_CELLS = CUSTOM_TARGET_MAX * 2;
+const MAX_IMAGE_SIDE = 5000;
+
+const ROTATIONS: RotationMode[] = ['none', 'quarter', 'free'];
+const CUTS: CutStyle[] = ['classic', 'whimsy', 'wavy', 'straight'];
+const TILINGS: Tiling[] = ['square', 'hex', 'triangle'];
+const LAYOUTS: LatticeLayout[] = ['grid', 'realistic'];
+// 'image' masks come from a PNG's alpha, which picsum photos don't have
+const MASKS: MaskShape[] = ['none', 'circle', 'heart'];
+
+export interface PicsumImage {
+  /** Numeric picsum id (/id/{id}/…) or seed string (/seed/{seed}/…) */
+  key: { id: number } | { seed: string };
+  width: number;
+  height: number;
+}
+
+export interface PuzzleChallenge {
+  picsum: PicsumImage;
+  cols: number;
+  rows: number;
+  seed: number;
+  options: Pick<PuzzleOptions, 'rotationMode' | 'cutStyle' | 'tiling' | 'layout' | 'mask'> & { noHints: boolean };
+}
+
+export class ChallengeCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChallengeCodeError';
+  }
+}
+
+// ─── Picsum URLs ───────────────────────────────────────────────────────────────
+
+export function picsumUrl(image: PicsumImage): string {
+  const key = 'id' in image.key ? `id/${image.key.id}` : `seed/${encodeURIComponent(image.key.seed)}`;
+  return `https://picsum.photos/${key}/${image.width}/${image.height}`;
+}
+
+export function parsePicsumUrl(url: string): PicsumImage | null {
+  const m = /^https:\/\/picsum\.photos\/(id|seed)\/([^/]+)\/(\d+)\/(\d+)\/?$/.exec(url);
+  if (!m) return null;
+  const width = Number(m[3]);
+  const height = Number(m[4]);
+  if (m[1] === 'id') return { key: { id: Number(m[2]) }, width, height };
+  return { key: { seed: decodeURIComponent(m[2]) }, width, height };
+}
+
+/** Challenge for a puzzle, or null when it can't be encoded (uploaded image, image mask). */
+export function challengeFor(
+  url: string | null,
+  cols: number,
+  rows: number,
+  seed: number,
+  options: PuzzleOptions,
+): PuzzleChallenge | null {
+  const picsum = url ? parsePicsumUrl(url) : null;
+  if (!picsum || !MASKS.includes(options.mask)) return null;
+  const { rotationMode, cutStyle, tiling, layout, mask } = options;
+  return {
+    picsum,
+    cols,
+    rows,
+    seed,
+    options: { rotationMode, cutStyle, tiling, layout, mask, noHints: !!options.noHints },
+  };
+}
+
+// ─── Encode / decode ───────────────────────────────────────────────────────────
+
+export function encodeChallenge(c: PuzzleChallenge): string {
+  const bytes: number[] = [];
+  const isSeed = 'seed' in c.picsum.key;
+  bytes.push((VERSION << 1) | (isSeed ? 1 : 0));
+  if ('seed' in c.picsum.key) {
+    const utf8 = new TextEncoder().encode(c.picsum.key.seed);
+    if (utf8.length > 255) throw new ChallengeCodeError('Picsum seed too long');
+    bytes.push(utf8.length, ...utf8);
+  } else {
+    pushVarint(bytes, c.picsum.key.id);
+  }
+  pushVarint(bytes, c.picsum.width);
+  pushVarint(bytes, c.picsum.height);
+  pushVarint(bytes, c.cols);
+  pushVarint(bytes, c.rows);
+  const seed = c.seed >>> 0;
+  bytes.push(seed >>> 24, (seed >>> 16) & 0xff, (seed >>> 8) & 0xff, seed & 0xff);
+  const o = c.options;
+  const packed =
+    (o.noHints ? 1 << 9 : 0) |
+    (indexOf(ROTATIONS, o.rotationMode) << 7) |
+    (indexOf(CUTS, o.cutStyle) << 5) |
+    (indexOf(TILINGS, o.tiling) << 3) |
+    (indexOf(LAYOUTS, o.layout) << 2) |
+    indexOf(MASKS, o.mask);
+  bytes.push(packed >>> 8, packed & 0xff);
+  bytes.push(checksum(bytes));
+  return (toBase32(bytes).match(/.{1,4}/g) ?? []).join('-');
+}
+
+/** Parse a code as typed or pasted. Throws ChallengeCodeError. */
+export function decodeChallenge(code: string): PuzzleChallenge {
+  const bytes = fromBase32(code);
+  if (bytes.length < 2 || checksum(bytes.slice(0, -1)) !== bytes[bytes.length - 1]) {
+    throw new ChallengeCodeError('Challenge code is mistyped or incomplete');
+  }
+  let pos = 0;
+  const read = () => {
+    if (pos >= bytes.length - 1) throw new ChallengeCodeError('Challenge code is too short');
+    return bytes[pos++];
+  };
+  const readVarint = () => {
+    let value = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      const b = read();
+      value += (b & 0x7f) * 2 ** shift;
+      if (!(b & 0x80)) return value;
+    }
+    throw new ChallengeCodeError('Challenge code is malformed');
+  };
+
+  const head = read();
+  if (head >> 1 !== VERSION) throw new ChallengeCodeError('Challenge code is from a newer app version');
+  let key: PicsumImage['key'];
+  if (head & 1) {
+    const len = read();
+    const utf8 = Array.from({ length: len }, read);
+    key = { seed: new TextDecoder().decode(new Uint8Array(utf8)) };
+  } else {
+    key = { id: readVarint() };
+  }
+  const width = readVarint();
+  const height = readVarint();
+  const cols = readVarint();
+  const rows = readVarint();
+  const seed = ((read() << 24) | (read() << 16) | (read() << 8) | read()) >>> 0;
+  const packed = (read() << 8) | read();
+  if (pos !== bytes.length - 1) throw new ChallengeCodeError('Challenge code is malformed');
+
+  const pick = <T>(list: T[], index: number): T => {
+    if (index >= list.length) throw new ChallengeCodeError('Challenge code has unknown options');
+    return list[index];
+  };
+  if (!width || !height || !cols || !rows) throw new ChallengeCodeError('Challenge code is malformed');
+  if (cols * rows > MAX_LATTICE_CELLS || width > MAX_IMAGE_SIDE || height > MAX_IMAGE_SIDE) {
+    throw new ChallengeCodeError('Challenge code asks for a puzzle larger than the app makes');
+  }
+  return {
+    picsum: { key, width, height },
+    cols,
+    rows,
+    seed,
+    options: {
+      rotationMode: pick(ROTATIONS, (packed >> 7) & 3),
+      cutStyle: pick(CUTS, (packed >> 5) & 3),
+      tiling: pick(TILINGS, (packed >> 3) & 3),
+      layout: pick(LAYOUTS, (packed >> 2) & 1),
+      mask: pick(MASKS, packed & 3),
+      // Codes from before no-hints mode have the bit clear
+      noHints: !!((packed >> 9) & 1),
+    },
+  };
+}
+
+/** Link that opens the challenge in this app. */
+export function challengeLink(code: string, origin = window.location.origin): string {
+  return `${origin}/?${CHALLENGE_PARAM}=${code}`;
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────────────
+
+function indexOf<T>(list: T[], value: T): number {
+  const i = list.indexOf(value);
+  if (i < 0) throw new ChallengeCodeError(`Option ${String(value)} can't be shared as a code`);
+  return i;
+}
+
+function pushVarint(bytes: number[], value: number) {
+  if (!Number.isInteger(value) || value < 0) throw new ChallengeCodeError(`Bad number ${value}`);
+  let v = value;
+  while (v >= 0x80) {
+    bytes.push((v & 0x7f) | 0x80);
+    v = Math.floor(v / 128);
+  }
+  bytes.push(v);
+}
+
+function checksum(bytes: number[]): number {
+  let h = 0x5a;
+  for (const b of bytes) h = (Math.imul(h, 31) + b) & 0xff;
+  return h;
+}
+
+function toBase32(bytes: number[]): string {
+  let out = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const b of bytes) {
+    buffer = (buffer << 8) | b;
+    bits += 8;
+    while (bits >= 5) {
+      out += ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  if (bits > 0) out += ALPHABET[(buffer << (5 - bits)) & 31];
+  return out;
+}
+
+function fromBase32(code: string): number[] {
+  const clean = code
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const ch of clean) {
+    const v = ALPHABET.indexOf(ch);
+    if (v < 0) throw new ChallengeCodeError(`Challenge code contains "${ch}"`);
+    buffer = (buffer << 5) | v;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  return bytes;
+}
@@ -1,9 +1,12 @@
 /**
  * Firebase client — Auth + Firestore only.
- * Images are stored locally in IndexedDB (see imageStore.ts).
+ * Images are stored locally in IndexedDB (see imageStore.ts) and synced
+ * through Firestore documents, not Storage (backends/firestoreBlobBackend.ts).
  *
  * Config values come from VITE_ env vars.
  * Replace the placeholders in .env with your real Firebase project config.
+ * Without an API key nothing is initialised (app / auth / db are null) and
+ * the app runs with the local save backend, signed in as a local user.
  */
 
 import { initializeApp } from 'firebase/app';
@@ -19,7 +22,9 @@ const firebaseConfig = {
   appId:             import.meta.env.VITE_FIREBASE_APP_ID,
 };
 
-export const app             = initializeApp(firebaseConfig);
-export const auth            = getAuth(app);
-export const db              = getFirestore(app);
+export const firebaseConfigured = Boolean(firebaseConfig.apiKey);
+
+export const app             = firebaseConfigured ? initializeApp(firebaseConfig) : null;
+export const auth            = app ? getAuth(app) : null;
+export const db              = app ? getFirestore(app) : null;
 export const googleProvider  = new GoogleAuthProvider();
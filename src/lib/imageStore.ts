@@ -1,9 +1,9 @@
 /**
  * imageStore — persist puzzle images in IndexedDB on the local device.
  *
- * Images are stored as JPEG Blobs keyed by saveId.
- * This means puzzle state in Firestore works across sign-outs,
- * but the image is only available on the device it was originally picked on.
+ * Images are stored as JPEG Blobs keyed by saveId. The blob's SHA-256
+ * (imageHash in the save) lets imageSync.ts upload it once and fetch it on
+ * other devices; without an image backend it stays on this device only.
  *
  * Key format:  "puzzle_img_{saveId}"
  */
@@ -12,8 +12,8 @@ import { get, set, del } from 'idb-keyval';
 
 const KEY = (saveId: string) => `puzzle_img_${saveId}`;
 
-/** Compress + store an HTMLImageElement as JPEG in IndexedDB. */
-export async function storeImage(saveId: string, image: HTMLImageElement): Promise<void> {
+/** Compress + store an HTMLImageElement as JPEG in IndexedDB. Returns the blob's hash. */
+export async function storeImage(saveId: string, image: HTMLImageElement): Promise<string> {
   const MAX_W = 1200;
   const scale = Math.min(1, MAX_W / image.naturalWidth);
   const w = Math.round(image.naturalWidth * scale);
@@ -26,6 +26,29 @@ export async function storeImage(saveId: string, image: HTMLImageElement): Promi
 
   const blob = await canvasToBlob(canvas, 'image/jpeg', 0.88);
   await set(KEY(saveId), blob);
+  return hashBlob(blob);
+}
+
+/** The stored JPEG itself, or null if not on this device. */
+export async function loadImageBlob(saveId: string): Promise<Blob | null> {
+  return (await get<Blob>(KEY(saveId))) ?? null;
+}
+
+/** Store an already compressed JPEG (downloaded or imported). */
+export async function storeImageBlob(saveId: string, blob: Blob): Promise<void> {
+  await set(KEY(saveId), blob);
+}
+
+/** Hash of the stored image, or null if not on this device. */
+export async function storedImageHash(saveId: string): Promise<string | null> {
+  const blob = await loadImageBlob(saveId);
+  return blob ? hashBlob(blob) : null;
+}
+
+/** SHA-256 of a blob's bytes as lowercase hex. */
+export async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
 }
 
 /**
@@ -0,0 +1,47 @@
+/**
+ * imageSync — moves uploaded puzzle images between devices.
+ *
+ * saveSync.ts uploads the image before pushing a save that references it,
+ * so a save in the cloud never points at a missing image. Resuming on a
+ * device without the image downloads it on demand (App → onResumePuzzle),
+ * checks it against imageHash and stores it in imageStore.ts like a local
+ * pick.
+ *
+ * Which hashes are already uploaded is remembered in IndexedDB under
+ * "puzzle_img_uploaded_{userId}_{hash}" so autosaves don't re-upload.
+ */
+
+import { get, set } from 'idb-keyval';
+import { getBlobBackend } from './blobBackend';
+import { hashBlob, loadImageBlob, storeImageBlob } from './imageStore';
+
+const UPLOADED_KEY = (userId: string, hash: string) => `puzzle_img_uploaded_${userId}_${hash}`;
+
+/** Upload the image stored for a save unless it's already in the backend. */
+export async function ensureImageUploaded(userId: string, saveId: string, hash: string): Promise<void> {
+  const backend = getBlobBackend();
+  if (!backend) return;
+  if (await get<boolean>(UPLOADED_KEY(userId, hash))) return;
+  const blob = await loadImageBlob(saveId);
+  // Not on this device: it was picked (and uploaded) somewhere else
+  if (!blob) return;
+  await backend.put(userId, hash, blob);
+  await set(UPLOADED_KEY(userId, hash), true);
+}
+
+/**
+ * Fetch a save's image from the backend into imageStore.
+ * Returns false when there is no backend or the image was never uploaded.
+ */
+export async function downloadImage(userId: string, saveId: string, hash: string): Promise<boolean> {
+  const backend = getBlobBackend();
+  if (!backend) return false;
+  const blob = await backend.get(userId, hash);
+  if (!blob) return false;
+  if ((await hashBlob(blob)) !== hash) {
+    throw new Error(`Downloaded image for ${saveId} does not match its hash`);
+  }
+  await storeImageBlob(saveId, blob);
+  await set(UPLOADED_KEY(userId, hash), true);
+  return true;
+}
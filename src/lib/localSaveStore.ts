@@ -0,0 +1,70 @@
+/**
+ * localSaveStore — the device's own copy of every save, in IndexedDB.
+ *
+ * This is the source of truth while playing: savePuzzle writes here first
+ * and never waits for the network. saveSync.ts pushes pending entries to
+ * the save backend when the device is online and pulls changes made on
+ * other devices.
+ *
+ * Each entry holds the save document (see saveSchema.ts), with dates as
+ * epoch milliseconds, plus its sync state. Deleting a save leaves a
+ * tombstone until the delete has reached the backend. An entry whose
+ * backend copy only needs a few changes carries them as a patch as well.
+ *
+ * Key format:  "{userId}/{saveId}"  in the "picture-puzzle-saves" database
+ */
+
+import { createStore, get, set, del, entries } from 'idb-keyval';
+import type { SavePatch } from './saveBackend';
+
+/**
+ * pending = changed on this device, not yet in the backend
+ * synced  = same as the backend as of the last sync
+ * error   = the backend rejected the last push (retried on the next sync)
+ */
+export type LocalSyncState = 'pending' | 'synced' | 'error';
+
+export interface LocalSaveEntry {
+  id: string;
+  userId: string;
+  /** The save document; createdAt / updatedAt are epoch ms */
+  doc: Record<string, unknown>;
+  /** Copy of doc.updatedAt — the last-writer-wins clock */
+  updatedAt: number;
+  sync: LocalSyncState;
+  /** Deleted on this device; removed for good once the delete is synced */
+  deleted?: boolean;
+  /** What brings the backend copy up to doc; without one the whole doc is pushed */
+  patch?: SavePatch;
+  /** Size of the backend copy's pieceUpdates, as far as this device knows */
+  remotePieceUpdates?: number;
+}
+
+const store = createStore('picture-puzzle-saves', 'saves');
+
+const KEY = (userId: string, saveId: string) => `${userId}/${saveId}`;
+
+/** A new save id, made without the network. UUIDs suit every backend (Supabase needs them). */
+export function newSaveId(): string {
+  return crypto.randomUUID();
+}
+
+export async function getLocalSave(userId: string, saveId: string): Promise<LocalSaveEntry | undefined> {
+  return get<LocalSaveEntry>(KEY(userId, saveId), store);
+}
+
+export async function putLocalSave(entry: LocalSaveEntry): Promise<void> {
+  await set(KEY(entry.userId, entry.id), entry, store);
+}
+
+export async function removeLocalSave(userId: string, saveId: string): Promise<void> {
+  await del(KEY(userId, saveId), store);
+}
+
+/** All entries for a user, tombstones included. */
+export async function listLocalSaves(userId: string): Promise<LocalSaveEntry[]> {
+  const all = await entries<string, LocalSaveEntry>(store);
+  return all
+    .filter(([key]) => key.startsWith(`${userId}/`))
+    .map(([, entry]) => entry);
+}
@@ -0,0 +1,172 @@
+/**
+ * Packed piece state — the compact form of piecesState + trayIds stored in
+ * save documents from schema version 6 (packedPieces, see saveSchema.ts).
+ *
+ * As objects, every piece repeats its field names, a string id and full
+ * doubles: about 110 bytes a piece, which is most of a 1000-piece save.
+ * Packed, piece ids are written once and everything else refers to a piece
+ * by its index into that list:
+ *
+ *   data    12 bytes per piece, little-endian:
+ *             fx, fy    uint16, quantised over POSITION_RANGE
+ *             rotation  uint16, a full turn in 65536 steps (90° is exact)
+ *             group     uint16 index of the group's piece; NO_GROUP if none
+ *             zIndex    int32
+ *   placed  bitset of isPlaced
+ *   tray    bitset of tray membership
+ *
+ * Binary fields are base64 strings so the document stays plain JSON for
+ * every backend. Ids past `count` have no state of their own: tray or group
+ * ids that are not one of the pieces, kept so nothing is lost.
+ *
+ * Partial updates leave the packed fields alone and write changed pieces to
+ * pieceUpdates (schema version 7) instead; applyPieceUpdates lays those over
+ * the unpacked state.
+ */
+
+import type { PieceUpdate, SavedPieceState } from './saveSchema';
+
+export interface PackedPieceState {
+  /** Pieces with state; the first `count` ids */
+  count: number;
+  /** Piece ids, comma-separated, in piece order */
+  ids: string;
+  data: string;
+  placed: string;
+  tray: string;
+}
+
+/** fx / fy outside this range (pieces far off the board) are clamped to it */
+const POSITION_RANGE: [number, number] = [-1, 2];
+const BYTES_PER_PIECE = 12;
+const NO_GROUP = 0xffff;
+/** Ids are uint16 indices, one value kept for NO_GROUP */
+export const MAX_PACKED_PIECES = NO_GROUP;
+
+export function packPieceState(piecesState: SavedPieceState[], trayIds: string[]): PackedPieceState {
+  const ids = piecesState.map(s => s.id);
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const indexOf = (id: string) => {
+    let i = index.get(id);
+    if (i === undefined) {
+      i = ids.length;
+      ids.push(id);
+      index.set(id, i);
+    }
+    return i;
+  };
+
+  const bytes = new Uint8Array(piecesState.length * BYTES_PER_PIECE);
+  const view = new DataView(bytes.buffer);
+  piecesState.forEach((s, i) => {
+    const o = i * BYTES_PER_PIECE;
+    view.setUint16(o, quantisePosition(s.fx), true);
+    view.setUint16(o + 2, quantisePosition(s.fy), true);
+    view.setUint16(o + 4, quantiseRotation(s.rotation ?? 0), true);
+    view.setUint16(o + 6, s.group === undefined ? NO_GROUP : indexOf(s.group), true);
+    view.setInt32(o + 8, s.zIndex, true);
+  });
+  const trayIndices = trayIds.map(indexOf);
+  if (ids.length > MAX_PACKED_PIECES) throw new Error(`Too many pieces to pack: ${ids.length}`);
+
+  const placed = new Uint8Array(bitsetBytes(ids.length));
+  piecesState.forEach((s, i) => { if (s.isPlaced) setBit(placed, i); });
+  const tray = new Uint8Array(bitsetBytes(ids.length));
+  for (const i of trayIndices) setBit(tray, i);
+
+  return {
+    count: piecesState.length,
+    ids: ids.join(','),
+    data: toBase64(bytes),
+    placed: toBase64(placed),
+    tray: toBase64(tray),
+  };
+}
+
+/** The inverse of packPieceState, up to quantisation. Throws if the fields don't fit together. */
+export function unpackPieceState(packed: PackedPieceState): { piecesState: SavedPieceState[]; trayIds: string[] } {
+  const ids = packed.ids === '' ? [] : packed.ids.split(',');
+  const bytes = fromBase64(packed.data);
+  const placed = fromBase64(packed.placed);
+  const tray = fromBase64(packed.tray);
+  if (packed.count > ids.length) throw new Error(`${packed.count} pieces but ${ids.length} ids`);
+  if (bytes.length !== packed.count * BYTES_PER_PIECE) {
+    throw new Error(`${bytes.length} bytes of piece data for ${packed.count} pieces`);
+  }
+  if (placed.length !== bitsetBytes(ids.length) || tray.length !== bitsetBytes(ids.length)) {
+    throw new Error(`Bitsets don't match ${ids.length} ids`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const piecesState: SavedPieceState[] = [];
+  for (let i = 0; i < packed.count; i++) {
+    const o = i * BYTES_PER_PIECE;
+    const group = view.getUint16(o + 6, true);
+    if (group !== NO_GROUP && group >= ids.length) throw new Error(`Piece ${ids[i]} has an unknown group`);
+    const state: SavedPieceState = {
+      id: ids[i],
+      fx: positionOf(view.getUint16(o, true)),
+      fy: positionOf(view.getUint16(o + 2, true)),
+      isPlaced: hasBit(placed, i),
+      zIndex: view.getInt32(o + 8, true),
+      rotation: (view.getUint16(o + 4, true) * 360) / 65536,
+    };
+    if (group !== NO_GROUP) state.group = ids[group];
+    piecesState.push(state);
+  }
+  return { piecesState, trayIds: ids.filter((_, i) => hasBit(tray, i)) };
+}
+
+/** Piece state with `updates` laid over it; pieces without state yet are added. */
+export function applyPieceUpdates(
+  unpacked: { piecesState: SavedPieceState[]; trayIds: string[] },
+  updates: Record<string, PieceUpdate>,
+): { piecesState: SavedPieceState[]; trayIds: string[] } {
+  const piecesState = [...unpacked.piecesState];
+  const index = new Map(piecesState.map((s, i) => [s.id, i]));
+  const tray = new Set(unpacked.trayIds);
+  for (const [id, { inTray, ...state }] of Object.entries(updates)) {
+    const i = index.get(id);
+    if (i === undefined) piecesState.push({ id, ...state });
+    else piecesState[i] = { id, ...state };
+    if (inTray) tray.add(id);
+    else tray.delete(id);
+  }
+  return { piecesState, trayIds: [...tray] };
+}
+
+function quantisePosition(v: number): number {
+  const [lo, hi] = POSITION_RANGE;
+  const t = (Math.min(hi, Math.max(lo, v)) - lo) / (hi - lo);
+  return Math.round(t * 0xffff);
+}
+
+function positionOf(q: number): number {
+  const [lo, hi] = POSITION_RANGE;
+  return lo + (q / 0xffff) * (hi - lo);
+}
+
+function quantiseRotation(deg: number): number {
+  const turn = (((deg % 360) + 360) % 360) / 360;
+  return Math.round(turn * 65536) % 65536;
+}
+
+const bitsetBytes = (bits: number) => Math.ceil(bits / 8);
+const setBit = (set: Uint8Array, i: number) => { set[i >> 3] |= 1 << (i & 7); };
+const hasBit = (set: Uint8Array, i: number) => (set[i >> 3] & (1 << (i & 7))) !== 0;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked: String.fromCharCode with one argument per byte overflows the stack on big arrays
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
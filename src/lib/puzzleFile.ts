@@ -0,0 +1,168 @@
+/**
+ * Portable puzzle files — export a save with its image as one file and
+ * import it again on any device, without the cloud.
+ *
+ * The file is JSON:
+ *
+ *   {
+ *     "format":     "picture-puzzle",
+ *     "version":    1,
+ *     "exportedAt": ISO date,
+ *     "save":       the save document (saveSchema.ts shape, dates as epoch ms),
+ *     "image":      "data:image/jpeg;base64,…"  (null for picsum puzzles)
+ *   }
+ *
+ * The save document is migrated and validated on import like any other,
+ * so files exported by older app versions keep working. The image is stored
+ * as the exported bytes, so it keeps its quality and imageHash.
+ *
+ * A challenge file (see challengeCode.ts) is the same file with the
+ * progress stripped, so importing it starts the identical puzzle from scratch.
+ */
+
+import { z } from 'zod';
+import { PuzzleSaveRecord, parseSaveDocument, toSaveDocument } from './saveSchema';
+import { storeSaveRecord } from './puzzleSave';
+import { hashBlob, loadImageBlob, storeImageBlob } from './imageStore';
+import { downloadImage } from './imageSync';
+import { newSaveId } from './localSaveStore';
+
+const FORMAT = 'picture-puzzle';
+const FILE_VERSION = 1;
+
+export class PuzzleFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PuzzleFileError';
+  }
+}
+
+const fileSchema = z.object({
+  format: z.literal(FORMAT),
+  version: z.literal(FILE_VERSION),
+  exportedAt: z.string(),
+  save: z.record(z.unknown()),
+  image: z.string().startsWith('data:image/').nullable(),
+});
+
+// ─── Export ────────────────────────────────────────────────────────────────────
+
+/** Build the export file for a save. Throws PuzzleFileError if the image isn't available. */
+export async function exportPuzzleFile(
+  userId: string,
+  save: PuzzleSaveRecord,
+  { challenge = false } = {},
+): Promise<File> {
+  let image: string | null = null;
+  if (!save.imageIsPicsum) {
+    let blob = await loadImageBlob(save.id);
+    if (!blob && save.imageHash && await downloadImage(userId, save.id, save.imageHash)) {
+      blob = await loadImageBlob(save.id);
+    }
+    if (!blob) throw new PuzzleFileError(`Image for save ${save.id} is not on this device`);
+    image = await blobToDataUrl(blob);
+  }
+
+  const fresh: Partial<PuzzleSaveRecord> = challenge
+    ? { piecesState: [], trayIds: [], history: null, stats: null, placedCount: 0, isCompleted: false, completedAt: null }
+    : {};
+  const { userId: _userId, ...doc } = toSaveDocument({ ...save, ...fresh });
+  const content = {
+    format: FORMAT,
+    version: FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    save: doc,
+    image,
+  };
+  const date = save.updatedAt.toISOString().slice(0, 10);
+  const name = challenge ? `utmaning-${save.cols}x${save.rows}` : `pussel-${save.cols}x${save.rows}-${date}`;
+  return new File([JSON.stringify(content)], `${name}.json`, {
+    type: 'application/json',
+  });
+}
+
+/**
+ * Hand the file to the share sheet where there is one (iPad: AirDrop, Save to
+ * Files), otherwise download it.
+ */
+export async function sharePuzzleFile(file: File): Promise<void> {
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file] });
+      return;
+    } catch (e) {
+      // Closing the share sheet is not an error
+      if ((e as Error).name === 'AbortError') return;
+      throw e;
+    }
+  }
+  const url = URL.createObjectURL(file);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = file.name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// ─── Import ────────────────────────────────────────────────────────────────────
+
+/**
+ * Recreate an exported puzzle as a new save for `userId` and store its image.
+ * Throws PuzzleFileError for files that aren't puzzle exports and
+ * SaveSchemaError for exports with a broken save inside.
+ */
+export async function importPuzzleFile(userId: string, file: File): Promise<PuzzleSaveRecord> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new PuzzleFileError(`${file.name} is not a puzzle file (not JSON)`);
+  }
+  const parsed = fileSchema.safeParse(json);
+  if (!parsed.success) throw new PuzzleFileError(`${file.name} is not a puzzle file`);
+  const content = parsed.data;
+
+  const saveId = newSaveId();
+  const record = parseSaveDocument(saveId, { ...content.save, userId });
+  if (!record.imageIsPicsum && !content.image) {
+    throw new PuzzleFileError(`${file.name} has no image`);
+  }
+
+  let imageHash = record.imageHash;
+  if (content.image) {
+    const blob = dataUrlToBlob(content.image);
+    await storeImageBlob(saveId, blob);
+    imageHash = await hashBlob(blob);
+  }
+
+  const imported: PuzzleSaveRecord = { ...record, userId, imageHash, updatedAt: new Date() };
+  await storeSaveRecord(imported);
+  return imported;
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────────────
+
+async function blobToDataUrl(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked: String.fromCharCode with one argument per byte overflows the stack on big images
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type || 'image/jpeg'};base64,${btoa(binary)}`;
+}
+
+function dataUrlToBlob(dataUrl: string): Blob {
+  const unreadable = new PuzzleFileError('The image in the puzzle file is unreadable');
+  const m = /^data:(image\/[\w.+-]+);base64,([A-Za-z0-9+/=]+)$/.exec(dataUrl);
+  if (!m) throw unreadable;
+  let binary: string;
+  try {
+    binary = atob(m[2]);
+  } catch {
+    throw unreadable;
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: m[1] });
+}
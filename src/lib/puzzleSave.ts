@@ -1,60 +1,57 @@
 /**
- * Puzzle save / load — Firestore only, no Firebase Storage.
+ * Puzzle save / load — offline first, no Firebase Storage.
  *
  * Images live in IndexedDB on the device (see imageStore.ts).
- * Firestore stores everything else: piece positions, progress, metadata.
+ * Everything else (piece positions, progress, metadata) is written to the
+ * local save store (localSaveStore.ts) and synced to the configured save
+ * backend in the background (saveSync.ts, saveBackend.ts), so saving never
+ * needs the network.
  *
  * Pieces use board-relative fractional coordinates:
  *   fx = (piece.x - boardX) / boardW
  *   fy = (piece.y - boardY) / boardH
+ * and are written packed (pieceStateCodec.ts). A document that would come
+ * close to Firestore's 1 MB limit (saveSize.ts) is written without its
+ * undo history rather than not at all; one still over the limit without it
+ * is not written, and savePuzzle throws a SaveTooLargeError.
  *
- * Firestore path:  users/{userId}/puzzle_saves/{saveId}
+ * Locally every save writes the whole document. When the caller says which
+ * pieces changed and the backend copy is otherwise current, the entry also
+ * gets a patch — those pieces plus the counters — which saveSync.ts sends
+ * instead of the document where the backend supports it.
  */
 
+import { PieceDef, PuzzleOptions } from '../puzzle/generator';
+import { HistoryState, trimHistory } from '../puzzle/history';
+import { PuzzleStats } from '../puzzle/stats';
 import {
-  collection,
-  doc,
-  getDocs,
-  setDoc,
-  deleteDoc,
-  query,
-  orderBy,
-  serverTimestamp,
-  Timestamp,
-} from 'firebase/firestore';
-import { db } from './firebase';
-import { PieceDef } from '../puzzle/generator';
+  CURRENT_SCHEMA_VERSION,
+  PieceUpdate,
+  PuzzleSaveRecord,
+  SavedPieceState,
+  SaveSchemaError,
+  parseSaveDocument,
+  toSaveDocument,
+} from './saveSchema';
+import { packPieceState } from './pieceStateCodec';
+import { FIRESTORE_DOC_LIMIT, SAVE_SIZE_WARN, SaveTooLargeError, estimateSaveSize, formatKB } from './saveSize';
+import { LocalSaveEntry, getLocalSave, putLocalSave, listLocalSaves, newSaveId } from './localSaveStore';
+import type { SaveDocument, SavePatch } from './saveBackend';
+import { requestSync, syncStatusOf, SaveSyncStatus } from './saveSync';
 
 // ─── Types ─────────────────────────────────────────────────────────────────────
 
-export interface SavedPieceState {
-  id: string;
-  fx: number;
-  fy: number;
-  isPlaced: boolean;
-  zIndex: number;
-}
+export type { SavedPieceState, PuzzleSaveRecord } from './saveSchema';
+export { SaveSchemaError } from './saveSchema';
+export { SaveTooLargeError } from './saveSize';
+export type { SaveSyncStatus } from './saveSync';
 
-export interface PuzzleSaveRecord {
-  id: string;
-  userId: string;
-  createdAt: Date;
-  updatedAt: Date;
-  /** 'local' for uploaded images, picsum URL for demo images */
-  imageSource: 'local' | string;
-  imageIsPicsum: boolean;
-  /** Only set for picsum images — the full URL */
-  picsumUrl: string | null;
-  cols: number;
-  rows: number;
-  puzzleSeed: number;
-  piecesState: SavedPieceState[];
-  trayIds: string[];
-  placedCount: number;
-  total: number;
-  isCompleted: boolean;
-  /** Small base64 thumbnail stored directly in Firestore (~10–15 KB) */
-  thumbnailDataUrl: string | null;
+export interface PuzzleSaveList {
+  saves: PuzzleSaveRecord[];
+  /** Documents that failed validation; kept, but not shown */
+  invalid: SaveSchemaError[];
+  /** Sync state per save id */
+  syncStatus: Record<string, SaveSyncStatus>;
 }
 
 // ─── Thumbnail (stored inline in Firestore, no Storage needed) ────────────────
@@ -88,11 +85,18 @@ export interface PuzzleSaveInput {
   userId: string;
   imageIsPicsum: boolean;
   picsumUrl: string | null;
+  /** See PuzzleSaveRecord.imageHash */
+  imageHash: string | null;
   cols: number;
   rows: number;
   seed: number;
+  options: PuzzleOptions;
   pieces: PieceDef[];
   trayIds: string[];
+  history: HistoryState;
+  /** piece id → group id, as tracked by PuzzleCanvas */
+  groups: Map<string, string>;
+  stats: PuzzleStats;
   boardX: number;
   boardY: number;
   boardW: number;
@@ -102,9 +106,18 @@ export interface PuzzleSaveInput {
   isCompleted: boolean;
   existingSaveId?: string;
   thumbnailDataUrl?: string | null;
+  /** Pieces changed since the previous save of existingSaveId; absent = unknown */
+  changedIds?: string[] | null;
 }
 
-/** Save or update a puzzle in Firestore. Returns the save ID. */
+/** Piece updates a backend copy may collect before it is written whole again */
+const MAX_PIECE_UPDATES = 300;
+
+/**
+ * Save or update a puzzle on this device and queue it for sync. Returns the
+ * save ID. Throws SaveTooLargeError, writing nothing, for a puzzle too large
+ * to sync.
+ */
 export async function savePuzzle(input: PuzzleSaveInput): Promise<string> {
   const piecesState: SavedPieceState[] = input.pieces.map(p => ({
     id: p.id,
@@ -112,72 +125,164 @@ export async function savePuzzle(input: PuzzleSaveInput): Promise<string> {
     fy: (p.y - input.boardY) / input.boardH,
     isPlaced: p.isPlaced,
     zIndex: p.zIndex,
+    rotation: p.rotation,
+    group: input.groups.get(p.id) ?? p.id,
   }));
 
-  const savesCol = collection(db, 'users', input.userId, 'puzzle_saves');
-  const saveRef = input.existingSaveId
-    ? doc(savesCol, input.existingSaveId)
-    : doc(savesCol);
+  const saveId = input.existingSaveId ?? newSaveId();
+  const existing = input.existingSaveId ? await getLocalSave(input.userId, saveId) : undefined;
+  const now = Date.now();
+  // The first save that found the puzzle complete; one from before v8 is dated as the migration does
+  const completedAt = existing?.doc.isCompleted ? existing.doc.completedAt ?? existing.doc.updatedAt : now;
 
-  await setDoc(saveRef, {
+  const doc = {
+    schemaVersion:    CURRENT_SCHEMA_VERSION,
     userId:           input.userId,
     imageSource:      input.imageIsPicsum ? input.picsumUrl : 'local',
     imageIsPicsum:    input.imageIsPicsum,
     picsumUrl:        input.picsumUrl ?? null,
+    imageHash:        input.imageHash,
     cols:             input.cols,
     rows:             input.rows,
     puzzleSeed:       input.seed,
-    piecesState,
-    trayIds:          input.trayIds,
+    options:          input.options,
+    packedPieces:     packPieceState(piecesState, input.trayIds),
+    history:          trimHistory(input.history) as HistoryState | null,
+    stats:            input.stats,
     placedCount:      input.placedCount,
     total:            input.total,
     isCompleted:      input.isCompleted,
+    completedAt:      input.isCompleted ? completedAt : null,
     thumbnailDataUrl: input.thumbnailDataUrl ?? null,
-    updatedAt:        serverTimestamp(),
-    ...(input.existingSaveId ? {} : { createdAt: serverTimestamp() }),
-  }, { merge: true });
+    createdAt:        existing?.doc.createdAt ?? now,
+    updatedAt:        now,
+  };
+  const size = estimateSaveSize(input.userId, saveId, doc);
+  if (size > SAVE_SIZE_WARN) {
+    console.warn(`Save ${saveId} is ~${formatKB(size)}, close to the ${formatKB(FIRESTORE_DOC_LIMIT)} document limit; saving it without undo history`);
+    doc.history = null;
+    const trimmed = estimateSaveSize(input.userId, saveId, doc);
+    if (trimmed > FIRESTORE_DOC_LIMIT) throw new SaveTooLargeError(saveId, trimmed);
+  }
 
-  return saveRef.id;
-}
+  const patch = existing && input.changedIds
+    ? patchFor(existing, doc, piecesState, input.trayIds, input.changedIds)
+    : undefined;
 
-// ─── Load ──────────────────────────────────────────────────────────────────────
+  await putLocalSave({
+    id: saveId,
+    userId: input.userId,
+    updatedAt: now,
+    sync: 'pending',
+    doc,
+    patch,
+    remotePieceUpdates: existing?.remotePieceUpdates,
+  });
 
-export async function loadUserSaves(userId: string): Promise<PuzzleSaveRecord[]> {
-  const savesCol = collection(db, 'users', userId, 'puzzle_saves');
-  const q = query(savesCol, orderBy('updatedAt', 'desc'));
-  const snap = await getDocs(q);
-  return snap.docs.map(d => firestoreDocToRecord(d.id, d.data()));
+  void requestSync(input.userId);
+  return saveId;
 }
 
-function firestoreDocToRecord(id: string, data: Record<string, unknown>): PuzzleSaveRecord {
-  function toDate(v: unknown): Date {
-    if (v instanceof Timestamp) return v.toDate();
-    if (v instanceof Date) return v;
-    return new Date();
+/**
+ * The patch that brings the backend copy of `existing` up to `doc`, or
+ * undefined when it has to be written whole: it was never pushed, a full
+ * write is still due, or the copy has collected too many piece updates.
+ */
+function patchFor(
+  existing: LocalSaveEntry,
+  doc: SaveDocument,
+  piecesState: SavedPieceState[],
+  trayIds: string[],
+  changedIds: string[],
+): SavePatch | undefined {
+  if (existing.deleted) return undefined;
+  // A synced entry's clock is the backend copy's, as of the last push or pull
+  const base: SavePatch | undefined = existing.sync === 'synced'
+    ? { pieces: {}, fields: {}, baseUpdatedAt: existing.updatedAt }
+    : existing.patch;
+  if (!base) return undefined;
+
+  const byId = new Map(piecesState.map(s => [s.id, s]));
+  const tray = new Set(trayIds);
+  const pieces: Record<string, PieceUpdate> = { ...base.pieces };
+  for (const id of changedIds) {
+    const state = byId.get(id);
+    if (!state) return undefined;
+    const { id: _id, ...rest } = state;
+    pieces[id] = { ...rest, inTray: tray.has(id) };
   }
-  return {
-    id,
-    userId:           data.userId as string,
-    createdAt:        toDate(data.createdAt),
-    updatedAt:        toDate(data.updatedAt),
-    imageSource:      (data.imageSource as string) ?? 'local',
-    imageIsPicsum:    (data.imageIsPicsum as boolean) ?? false,
-    picsumUrl:        (data.picsumUrl as string | null) ?? null,
-    cols:             data.cols as number,
-    rows:             data.rows as number,
-    puzzleSeed:       data.puzzleSeed as number,
-    piecesState:      (data.piecesState ?? []) as SavedPieceState[],
-    trayIds:          (data.trayIds ?? []) as string[],
-    placedCount:      (data.placedCount as number) ?? 0,
-    total:            (data.total as number) ?? 0,
-    isCompleted:      (data.isCompleted as boolean) ?? false,
-    thumbnailDataUrl: (data.thumbnailDataUrl as string | null) ?? null,
+  if ((existing.remotePieceUpdates ?? 0) + Object.keys(pieces).length > MAX_PIECE_UPDATES) return undefined;
+
+  const fields: SaveDocument = {
+    ...base.fields,
+    schemaVersion: doc.schemaVersion,
+    stats:         doc.stats,
+    placedCount:   doc.placedCount,
+    total:         doc.total,
+    isCompleted:   doc.isCompleted,
+    completedAt:   doc.completedAt,
+    // The backend's history ends at its last full write; undoing from it would skip the patched moves
+    history:       null,
+    updatedAt:     doc.updatedAt,
   };
+  if (doc.thumbnailDataUrl !== existing.doc.thumbnailDataUrl) fields.thumbnailDataUrl = doc.thumbnailDataUrl;
+  return { pieces, fields, baseUpdatedAt: base.baseUpdatedAt };
+}
+
+/** Store a complete record on this device (used by import) and queue it for sync. */
+export async function storeSaveRecord(record: PuzzleSaveRecord): Promise<void> {
+  await putLocalSave({
+    id: record.id,
+    userId: record.userId,
+    updatedAt: record.updatedAt.getTime(),
+    sync: 'pending',
+    doc: toSaveDocument(record),
+  });
+  void requestSync(record.userId);
+}
+
+// ─── Load ──────────────────────────────────────────────────────────────────────
+
+/**
+ * All saves on this device for a user, newest first. Old documents are
+ * migrated to the current schema; documents that fail validation are skipped
+ * and reported in `invalid` instead of failing the whole list.
+ *
+ * Saves made on other devices appear once a sync pass has pulled them
+ * (requestSync, or onSyncChange to be told when one finishes).
+ */
+export async function loadUserSaves(userId: string): Promise<PuzzleSaveList> {
+  const entries = (await listLocalSaves(userId))
+    .filter(e => !e.deleted)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  const saves: PuzzleSaveRecord[] = [];
+  const invalid: SaveSchemaError[] = [];
+  const syncStatus: Record<string, SaveSyncStatus> = {};
+  for (const entry of entries) {
+    syncStatus[entry.id] = syncStatusOf(entry);
+    try {
+      saves.push(parseSaveDocument(entry.id, entry.doc));
+    } catch (err) {
+      if (!(err instanceof SaveSchemaError)) throw err;
+      console.warn(err.message);
+      invalid.push(err);
+    }
+  }
+  return { saves, invalid, syncStatus };
 }
 
 // ─── Delete ────────────────────────────────────────────────────────────────────
 
+/** Delete on this device now; the delete reaches the backend on the next sync. */
 export async function deletePuzzleSave(userId: string, saveId: string): Promise<void> {
-  const saveRef = doc(db, 'users', userId, 'puzzle_saves', saveId);
-  await deleteDoc(saveRef);
+  const entry = await getLocalSave(userId, saveId);
+  await putLocalSave({
+    id: saveId,
+    userId,
+    doc: entry?.doc ?? {},
+    updatedAt: Date.now(),
+    sync: 'pending',
+    deleted: true,
+  });
+  void requestSync(userId);
 }
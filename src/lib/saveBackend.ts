@@ -0,0 +1,88 @@
+/**
+ * Save backends — where saveSync.ts keeps the cloud copy of each save.
+ *
+ * The app always saves to the device first (localSaveStore.ts); a backend is
+ * only the remote side of the sync. Backends store the save document as-is
+ * (the saveSchema.ts shape, createdAt / updatedAt as epoch ms) and hand it
+ * back the same way, so migrations and validation stay in one place.
+ * Backends that can change part of a stored document implement update, and
+ * saveSync.ts pushes small changes as patches through it; the others get
+ * the whole document every time.
+ *
+ *   firestore = users/{userId}/puzzle_saves/{saveId}   (backends/firestoreSaveBackend.ts)
+ *   supabase  = the puzzle_games table                 (backends/supabaseSaveBackend.ts)
+ *   local     = this browser only, no account needed   (backends/localSaveBackend.ts)
+ *
+ * Chosen with VITE_SAVE_BACKEND. Without it the app uses Firestore when a
+ * Firebase config is present and the local backend otherwise.
+ *
+ *   VITE_SAVE_BACKEND=firestore | supabase | local
+ *   VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY   (supabase only)
+ *
+ * The supabase backend needs a Supabase session: the app then signs in with
+ * Google through Supabase Auth (enable the provider in the project) instead
+ * of Firebase.
+ */
+
+import { firebaseConfigured } from './firebase';
+import type { PieceUpdate } from './saveSchema';
+import { supabase } from './supabase';
+import { createFirestoreSaveBackend } from './backends/firestoreSaveBackend';
+import { createSupabaseSaveBackend } from './backends/supabaseSaveBackend';
+import { createLocalSaveBackend } from './backends/localSaveBackend';
+
+export type SaveBackendKind = 'firestore' | 'supabase' | 'local';
+
+/** A save document in the saveSchema.ts shape, dates as epoch ms */
+export type SaveDocument = Record<string, unknown>;
+
+export interface StoredSave {
+  id: string;
+  doc: SaveDocument;
+  /** Last-writer-wins clock (epoch ms) */
+  updatedAt: number;
+}
+
+/** The changes since a save was last pushed (see savePuzzle) */
+export interface SavePatch {
+  /** Merged into the document's pieceUpdates, by piece id */
+  pieces: Record<string, PieceUpdate>;
+  /** Top-level fields to replace; always includes updatedAt */
+  fields: SaveDocument;
+  /** updatedAt of the backend copy the patch was made against; any other copy gets the whole document */
+  baseUpdatedAt: number;
+}
+
+export interface SaveBackend {
+  readonly kind: SaveBackendKind;
+  /** Create or replace a save */
+  save(userId: string, saveId: string, doc: SaveDocument): Promise<void>;
+  /** Apply a patch to a save that exists; optional */
+  update?(userId: string, saveId: string, patch: SavePatch): Promise<void>;
+  list(userId: string): Promise<StoredSave[]>;
+  /** One save, or null if it doesn't exist */
+  load(userId: string, saveId: string): Promise<StoredSave | null>;
+  /** Deleting a save that doesn't exist is not an error */
+  delete(userId: string, saveId: string): Promise<void>;
+}
+
+function configuredKind(): SaveBackendKind {
+  const value = import.meta.env.VITE_SAVE_BACKEND as string | undefined;
+  if (value === 'firestore' || value === 'supabase' || value === 'local') return value;
+  if (value) console.warn(`Unknown VITE_SAVE_BACKEND "${value}", using the default`);
+  return firebaseConfigured ? 'firestore' : 'local';
+}
+
+export const saveBackendKind: SaveBackendKind = configuredKind();
+
+let backend: SaveBackend | null = null;
+
+/** The configured backend, created on first use. */
+export function getSaveBackend(): SaveBackend {
+  if (!backend) {
+    if (saveBackendKind === 'firestore') backend = createFirestoreSaveBackend();
+    else if (saveBackendKind === 'supabase') backend = createSupabaseSaveBackend(supabase);
+    else backend = createLocalSaveBackend(typeof localStorage !== 'undefined' ? localStorage : undefined);
+  }
+  return backend;
+}
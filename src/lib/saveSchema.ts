@@ -0,0 +1,287 @@
+/**
+ * Save document schema — versions, migrations and validation.
+ *
+ * Every save document carries a `schemaVersion`. On load the raw document is
+ * upgraded one version at a time until it reaches CURRENT_SCHEMA_VERSION and
+ * is then validated with zod, so a corrupt or half-written document fails
+ * with a SaveSchemaError that says which field is wrong instead of producing
+ * a broken board.
+ *
+ * Versions:
+ *   1  original format; every document written before schemaVersion existed
+ *   2  + options (rotation, cut style, tiling, layout, mask), piece rotation
+ *   3  + undo/redo history, piece group membership (optional — PuzzleCanvas
+ *      regroups by position when it is missing)
+ *   4  + imageHash (content hash of the uploaded image, see imageSync.ts)
+ *   5  + play statistics (time, moves, snaps, streaks; null in older saves)
+ *   6  piece state written packed (packedPieces, see pieceStateCodec.ts)
+ *      instead of piecesState / trayIds; documents without it are still
+ *      read from those
+ *   7  + pieceUpdates: piece states laid over the packed ones, written by
+ *      partial updates (see savePuzzle) until the next full write
+ *   8  + completedAt (when the last piece went in; completed older saves
+ *      are dated by their last update)
+ *
+ * Kept free of Firebase imports so it can be tested on its own.
+ */
+
+import { z } from 'zod';
+import { DEFAULT_PUZZLE_OPTIONS, PuzzleOptions } from '../puzzle/generator';
+import type { HistoryState } from '../puzzle/history';
+import type { PuzzleStats } from '../puzzle/stats';
+import { PackedPieceState, applyPieceUpdates, packPieceState, unpackPieceState } from './pieceStateCodec';
+
+export const CURRENT_SCHEMA_VERSION = 8;
+
+// ─── Types ─────────────────────────────────────────────────────────────────────
+
+export interface SavedPieceState {
+  /** `${col}-${row}` within the save's tiling (options.tiling) */
+  id: string;
+  fx: number;
+  fy: number;
+  isPlaced: boolean;
+  zIndex: number;
+  /** Degrees; missing in saves made before rotation mode existed */
+  rotation?: number;
+  /**
+   * Id of the snapped-together group the piece belongs to (a piece id).
+   * Missing in older saves — PuzzleCanvas then regroups from positions.
+   */
+  group?: string;
+}
+
+/** One piece's state in pieceUpdates, keyed by piece id */
+export interface PieceUpdate extends Omit<SavedPieceState, 'id'> {
+  inTray: boolean;
+}
+
+export interface PuzzleSaveRecord {
+  id: string;
+  schemaVersion: number;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  /** 'local' for uploaded images, picsum URL for demo images */
+  imageSource: 'local' | string;
+  imageIsPicsum: boolean;
+  /** Only set for picsum images — the full URL */
+  picsumUrl: string | null;
+  /** SHA-256 of the stored JPEG for uploaded images; null for picsum and older saves */
+  imageHash: string | null;
+  cols: number;
+  rows: number;
+  puzzleSeed: number;
+  options: PuzzleOptions;
+  piecesState: SavedPieceState[];
+  trayIds: string[];
+  /** Undo/redo stacks (bounded, see trimHistory); null in older saves */
+  history: HistoryState | null;
+  /** Play statistics (see stats.ts); null in saves made before they were tracked */
+  stats: PuzzleStats | null;
+  placedCount: number;
+  total: number;
+  isCompleted: boolean;
+  /** When isCompleted first became true; null while unfinished */
+  completedAt: Date | null;
+  /** Small base64 thumbnail stored directly in Firestore (~10–15 KB) */
+  thumbnailDataUrl: string | null;
+}
+
+export class SaveSchemaError extends Error {
+  constructor(
+    public readonly saveId: string,
+    public readonly issues: string[],
+  ) {
+    super(`Save ${saveId} is invalid: ${issues.join('; ')}`);
+    this.name = 'SaveSchemaError';
+  }
+}
+
+// ─── Migrations ────────────────────────────────────────────────────────────────
+
+type RawDoc = Record<string, unknown>;
+
+const asObject = (v: unknown): RawDoc =>
+  v && typeof v === 'object' && !Array.isArray(v) ? (v as RawDoc) : {};
+
+/** migrations[n] upgrades a version n document to version n + 1 */
+const migrations: Record<number, (doc: RawDoc) => RawDoc> = {
+  1: doc => ({
+    ...doc,
+    // Unversioned documents may have none or only some of the options
+    options: { ...DEFAULT_PUZZLE_OPTIONS, ...asObject(doc.options) },
+    piecesState: Array.isArray(doc.piecesState)
+      ? doc.piecesState.map(s => ({ rotation: 0, ...asObject(s) }))
+      : doc.piecesState,
+  }),
+  2: doc => ({
+    ...doc,
+    history: doc.history ?? null,
+  }),
+  3: doc => ({
+    ...doc,
+    imageHash: doc.imageHash ?? null,
+  }),
+  4: doc => ({
+    ...doc,
+    stats: doc.stats ?? null,
+  }),
+  // Nothing to convert: unpacked piecesState / trayIds stay readable
+  5: doc => doc,
+  // pieceUpdates is optional
+  6: doc => doc,
+  // The best guess for an older completed save: the write that finished it
+  7: doc => ({
+    ...doc,
+    completedAt: doc.completedAt ?? (doc.isCompleted ? doc.updatedAt : null),
+  }),
+};
+
+/** Upgrade a raw document to CURRENT_SCHEMA_VERSION, one step at a time. */
+export function migrateSaveDocument(doc: RawDoc): RawDoc {
+  let version = typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 1;
+  if (version > CURRENT_SCHEMA_VERSION) {
+    // Written by a newer app version — fields we don't know are ignored
+    return { ...doc, schemaVersion: CURRENT_SCHEMA_VERSION };
+  }
+  let out = doc;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    out = migrations[version](out);
+    version++;
+  }
+  return { ...out, schemaVersion: version };
+}
+
+// ─── Validation ────────────────────────────────────────────────────────────────
+
+/** Firestore Timestamps (anything with toDate), Dates, or missing (pending server time) */
+const dateField = z.preprocess(v => {
+  if (v == null) return new Date();
+  if (typeof (v as { toDate?: unknown }).toDate === 'function') return (v as { toDate: () => Date }).toDate();
+  if (typeof v === 'string' || typeof v === 'number') return new Date(v);
+  return v;
+}, z.date());
+
+/** As dateField, but null stays null */
+const nullableDateField = z.preprocess(v => (v == null ? null : v), z.union([z.null(), dateField]));
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const optionsSchema = z.object({
+  rotationMode: z.enum(['none', 'quarter', 'free']),
+  cutStyle: z.enum(['classic', 'whimsy', 'wavy', 'straight']),
+  tiling: z.enum(['square', 'hex', 'triangle']),
+  layout: z.enum(['grid', 'realistic']),
+  mask: z.enum(['none', 'circle', 'heart', 'image']),
+  maskOutline: z.array(pointSchema).nullable().optional(),
+  noHints: z.boolean().optional(),
+});
+
+const pieceStateSchema = z.object({
+  id: z.string(),
+  fx: z.number().finite(),
+  fy: z.number().finite(),
+  isPlaced: z.boolean(),
+  zIndex: z.number(),
+  rotation: z.number().optional(),
+  group: z.string().optional(),
+});
+
+const snapshotSchema = z.object({
+  id: z.string(),
+  fx: z.number(),
+  fy: z.number(),
+  rotation: z.number(),
+  isPlaced: z.boolean(),
+  zIndex: z.number(),
+  inTray: z.boolean(),
+  group: z.string(),
+});
+
+const commandSchema = z.object({
+  kind: z.enum(['move', 'snap', 'merge', 'tray']),
+  before: z.array(snapshotSchema),
+  after: z.array(snapshotSchema),
+});
+
+const packedPiecesSchema = z.object({
+  count: z.number().int().nonnegative(),
+  ids: z.string(),
+  data: z.string(),
+  placed: z.string(),
+  tray: z.string(),
+});
+
+const pieceUpdateSchema = pieceStateSchema.omit({ id: true }).extend({ inTray: z.boolean() });
+
+const statsSchema = z.object({
+  activeMs: z.number().nonnegative(),
+  moves: z.number().int().nonnegative(),
+  snaps: z.number().int().nonnegative(),
+  streak: z.number().int().nonnegative(),
+  longestStreak: z.number().int().nonnegative(),
+  // Missing in saves from before hints existed
+  hints: z.number().int().nonnegative().default(0),
+});
+
+const saveSchema = z.object({
+  schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+  userId: z.string(),
+  createdAt: dateField,
+  updatedAt: dateField,
+  imageSource: z.string().default('local'),
+  imageIsPicsum: z.boolean().default(false),
+  picsumUrl: z.string().nullable().default(null),
+  imageHash: z.string().regex(/^[0-9a-f]{64}$/).nullable(),
+  cols: z.number().int().positive(),
+  rows: z.number().int().positive(),
+  puzzleSeed: z.number(),
+  options: optionsSchema,
+  // Documents written since version 6 have packedPieces instead
+  piecesState: z.array(pieceStateSchema).default([]),
+  trayIds: z.array(z.string()).default([]),
+  packedPieces: packedPiecesSchema.optional(),
+  pieceUpdates: z.record(pieceUpdateSchema).optional(),
+  history: z.object({ undo: z.array(commandSchema), redo: z.array(commandSchema) }).nullable(),
+  stats: statsSchema.nullable(),
+  placedCount: z.number().default(0),
+  total: z.number().default(0),
+  isCompleted: z.boolean().default(false),
+  completedAt: nullableDateField,
+  thumbnailDataUrl: z.string().nullable().default(null),
+});
+
+/** The document for a record (the inverse of parseSaveDocument), dates as epoch ms. */
+export function toSaveDocument(record: PuzzleSaveRecord): RawDoc {
+  const { id: _id, createdAt, updatedAt, completedAt, piecesState, trayIds, ...rest } = record;
+  return {
+    ...rest,
+    packedPieces: packPieceState(piecesState, trayIds),
+    createdAt: createdAt.getTime(),
+    updatedAt: updatedAt.getTime(),
+    completedAt: completedAt?.getTime() ?? null,
+  };
+}
+
+/** Migrate and validate a raw save document. Throws SaveSchemaError. */
+export function parseSaveDocument(id: string, doc: RawDoc): PuzzleSaveRecord {
+  const result = saveSchema.safeParse(migrateSaveDocument(doc));
+  if (!result.success) {
+    throw new SaveSchemaError(
+      id,
+      result.error.issues.map(i => `${i.path.join('.') || '(document)'}: ${i.message}`),
+    );
+  }
+  const { packedPieces, pieceUpdates, ...data } = result.data;
+  let pieces = { piecesState: data.piecesState as SavedPieceState[], trayIds: data.trayIds };
+  if (packedPieces) {
+    try {
+      pieces = unpackPieceState(packedPieces as PackedPieceState);
+    } catch (err) {
+      throw new SaveSchemaError(id, [`packedPieces: ${(err as Error).message}`]);
+    }
+  }
+  if (pieceUpdates) pieces = applyPieceUpdates(pieces, pieceUpdates as Record<string, PieceUpdate>);
+  return { id, ...data, ...pieces } as PuzzleSaveRecord;
+}
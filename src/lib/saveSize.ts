@@ -0,0 +1,60 @@
+/**
+ * Save document size, as Firestore counts it.
+ *
+ * Firestore rejects documents over 1 MiB, and a save only reaches Firestore
+ * in a background sync — by then the player has moved on and the save would
+ * just stay pending. savePuzzle checks the estimate before writing instead,
+ * and both it and the Firestore backend refuse a document that is over the
+ * limit with a SaveTooLargeError.
+ *
+ * Sizes follow https://firebase.google.com/docs/firestore/storage-size:
+ * strings are their UTF-8 length + 1, numbers, dates and timestamps 8,
+ * booleans and null 1, maps the sum of their keys (as strings) and values.
+ */
+
+export const FIRESTORE_DOC_LIMIT = 1024 * 1024;
+/** savePuzzle warns from here, leaving room for the estimate being off */
+export const SAVE_SIZE_WARN = Math.round(FIRESTORE_DOC_LIMIT * 0.9);
+/** Extra bytes Firestore adds per document */
+const DOC_OVERHEAD = 32;
+
+export class SaveTooLargeError extends Error {
+  constructor(
+    public readonly saveId: string,
+    public readonly size: number,
+  ) {
+    super(`Save ${saveId} is ~${formatKB(size)}, over the ${formatKB(FIRESTORE_DOC_LIMIT)} document limit`);
+    this.name = 'SaveTooLargeError';
+  }
+}
+
+const encoder = new TextEncoder();
+
+const stringSize = (s: string) => encoder.encode(s).length + 1;
+
+/** Storage size of one field value. */
+export function valueSize(value: unknown): number {
+  if (value === null || value === undefined || typeof value === 'boolean') return 1;
+  if (typeof value === 'number') return 8;
+  if (typeof value === 'string') return stringSize(value);
+  if (value instanceof Date) return 8;
+  if (Array.isArray(value)) return value.reduce((n: number, v) => n + valueSize(v), 0);
+  // Firestore Timestamp
+  if (typeof (value as { toMillis?: unknown }).toMillis === 'function') return 8;
+  let size = 0;
+  for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+    if (v === undefined) continue;
+    size += stringSize(key) + valueSize(v);
+  }
+  return size;
+}
+
+/** Estimated size of a save document at users/{userId}/puzzle_saves/{saveId}, name included. */
+export function estimateSaveSize(userId: string, saveId: string, doc: Record<string, unknown>): number {
+  const name = ['users', userId, 'puzzle_saves', saveId].reduce((n, part) => n + stringSize(part), 16);
+  return name + valueSize(doc) + DOC_OVERHEAD;
+}
+
+export function formatKB(bytes: number): string {
+  return `${Math.round(bytes / 1024)} KB`;
+}
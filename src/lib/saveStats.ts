@@ -0,0 +1,126 @@
+/**
+ * Statistics across all of a user's saves, for the statistics screen.
+ *
+ * Everything is derived from the saves themselves (loadUserSaves), so it
+ * works the same offline and on a new device once the saves have synced.
+ * A completed save is counted in the week of its completedAt, which later
+ * writes to the save leave alone.
+ *
+ * Times come from the play stats stored with each save (stats.ts); saves
+ * from before those were tracked count towards totals but not times.
+ */
+
+import type { PuzzleSaveRecord } from './saveSchema';
+import { DIFFICULTIES, difficultyIndexFor } from '../puzzle/difficulty';
+
+export const SUMMARY_WEEKS = 12;
+
+export interface WeekCount {
+  /** Monday 00:00 local time */
+  weekStart: Date;
+  /** ISO week number */
+  week: number;
+  completed: number;
+}
+
+export interface DifficultySummary {
+  label: string;
+  completed: number;
+  /** Average active time per piece over completed, timed puzzles */
+  msPerPiece: number | null;
+  /** Fastest completion */
+  bestMs: number | null;
+}
+
+export interface PersonalBests {
+  /** Lowest time per piece in any completed puzzle */
+  fastestMsPerPiece: number | null;
+  longestStreak: number;
+  /** Piece count of the largest completed puzzle */
+  largestCompleted: number;
+  /** Most puzzles completed in one week */
+  bestWeek: number;
+}
+
+export interface SaveSummary {
+  completed: number;
+  inProgress: number;
+  piecesPlaced: number;
+  activeMs: number;
+  /** The last SUMMARY_WEEKS weeks, oldest first */
+  weeks: WeekCount[];
+  /** One entry per DIFFICULTIES level */
+  difficulties: DifficultySummary[];
+  bests: PersonalBests;
+}
+
+export function summariseSaves(saves: PuzzleSaveRecord[], now = new Date()): SaveSummary {
+  const completed = saves.filter(s => s.isCompleted);
+  const timed = completed.filter(s => s.stats && s.stats.activeMs > 0 && s.total > 0);
+
+  const thisWeek = startOfWeek(now);
+  const weeks: WeekCount[] = [];
+  for (let i = SUMMARY_WEEKS - 1; i >= 0; i--) {
+    const weekStart = new Date(thisWeek);
+    weekStart.setDate(weekStart.getDate() - 7 * i);
+    weeks.push({ weekStart, week: isoWeek(weekStart), completed: 0 });
+  }
+  const perWeek = new Map<number, number>();
+  for (const s of completed) {
+    const start = startOfWeek(s.completedAt ?? s.updatedAt).getTime();
+    perWeek.set(start, (perWeek.get(start) ?? 0) + 1);
+  }
+  for (const w of weeks) w.completed = perWeek.get(w.weekStart.getTime()) ?? 0;
+
+  const difficulties: DifficultySummary[] = DIFFICULTIES.map(d => ({
+    label: d.label,
+    completed: 0,
+    msPerPiece: null,
+    bestMs: null,
+  }));
+  const timeTotals = DIFFICULTIES.map(() => ({ ms: 0, pieces: 0 }));
+  for (const s of completed) difficulties[difficultyIndexFor(s.total)].completed++;
+  for (const s of timed) {
+    const i = difficultyIndexFor(s.total);
+    const ms = s.stats!.activeMs;
+    timeTotals[i].ms += ms;
+    timeTotals[i].pieces += s.total;
+    difficulties[i].bestMs = Math.min(difficulties[i].bestMs ?? Infinity, ms);
+  }
+  difficulties.forEach((d, i) => {
+    if (timeTotals[i].pieces > 0) d.msPerPiece = timeTotals[i].ms / timeTotals[i].pieces;
+  });
+
+  const perPiece = timed.map(s => s.stats!.activeMs / s.total);
+
+  return {
+    completed: completed.length,
+    inProgress: saves.length - completed.length,
+    piecesPlaced: saves.reduce((sum, s) => sum + s.placedCount, 0),
+    activeMs: saves.reduce((sum, s) => sum + (s.stats?.activeMs ?? 0), 0),
+    weeks,
+    difficulties,
+    bests: {
+      fastestMsPerPiece: perPiece.length ? Math.min(...perPiece) : null,
+      longestStreak: Math.max(0, ...saves.map(s => s.stats?.longestStreak ?? 0)),
+      largestCompleted: Math.max(0, ...completed.map(s => s.total)),
+      bestWeek: Math.max(0, ...perWeek.values()),
+    },
+  };
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────────────
+
+function startOfWeek(date: Date): Date {
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  // getDay: Sunday = 0; weeks start on Monday
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d;
+}
+
+function isoWeek(date: Date): number {
+  // The ISO week is the one holding that week's Thursday
+  const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 3 - ((date.getDay() + 6) % 7));
+  const jan4 = new Date(thursday.getFullYear(), 0, 4);
+  return 1 + Math.round(((thursday.getTime() - jan4.getTime()) / 86_400_000 - 3 + ((jan4.getDay() + 6) % 7)) / 7);
+}
@@ -0,0 +1,176 @@
+/**
+ * saveSync — background sync between localSaveStore and the save backend
+ * (Firestore, Supabase or local — see saveBackend.ts).
+ *
+ * A sync pass lists the user's remote saves once, then for every save
+ * known on either side keeps the copy with the newest `updatedAt`
+ * (last writer wins):
+ *
+ *   local pending, local newer   → pushed (save, or delete for tombstones);
+ *                                  its image is uploaded first (imageSync.ts).
+ *                                  Entries with a patch are sent as one when
+ *                                  the backend can update and its copy is
+ *                                  still the one the patch was made against
+ *                                  (SavePatch)
+ *   local pending, remote newer  → remote copy replaces the local one
+ *   local synced,  remote newer  → pulled
+ *   local synced,  remote gone   → deleted on another device, removed here
+ *   remote only                  → pulled
+ *
+ * Passes run one at a time; requests made during a pass queue one more pass.
+ * Sync runs after every local save, when the browser comes back online and
+ * when LandingScreen opens. Offline or failed passes leave entries pending
+ * for the next one; a failed push drops the entry's patch, so the retry
+ * writes the whole document.
+ */
+
+import { getSaveBackend, StoredSave } from './saveBackend';
+import { ensureImageUploaded } from './imageSync';
+import {
+  LocalSaveEntry,
+  getLocalSave,
+  putLocalSave,
+  removeLocalSave,
+  listLocalSaves,
+} from './localSaveStore';
+
+/**
+ * synced  = this device and the backend agree
+ * pending = waiting to be pushed (usually offline)
+ * syncing = being pushed right now
+ * error   = the last push failed; retried on the next pass
+ */
+export type SaveSyncStatus = 'synced' | 'pending' | 'syncing' | 'error';
+
+const listeners = new Set<() => void>();
+const pushing = new Set<string>();
+let running: Promise<void> | null = null;
+let queued = false;
+
+/** Called whenever entries change sync status. Returns an unsubscribe function. */
+export function onSyncChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function notify() {
+  listeners.forEach(fn => fn());
+}
+
+export function syncStatusOf(entry: LocalSaveEntry): SaveSyncStatus {
+  if (pushing.has(entry.id)) return 'syncing';
+  return entry.sync;
+}
+
+/** Run a sync pass (or queue one after the current pass). */
+export function requestSync(userId: string): Promise<void> {
+  if (running) {
+    queued = true;
+    return running;
+  }
+  running = (async () => {
+    do {
+      queued = false;
+      await syncPass(userId);
+    } while (queued);
+  })().finally(() => {
+    running = null;
+    notify();
+  });
+  return running;
+}
+
+/** Sync now and whenever the browser comes back online. Returns a cleanup function. */
+export function startBackgroundSync(userId: string): () => void {
+  const onOnline = () => { void requestSync(userId); };
+  window.addEventListener('online', onOnline);
+  void requestSync(userId);
+  return () => window.removeEventListener('online', onOnline);
+}
+
+// ─── Pass ──────────────────────────────────────────────────────────────────────
+
+async function syncPass(userId: string): Promise<void> {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+  const backend = getSaveBackend();
+  const remote = new Map<string, StoredSave>();
+  try {
+    for (const save of await backend.list(userId)) remote.set(save.id, save);
+  } catch (e) {
+    console.warn(`Save sync: ${backend.kind} unreachable, will retry`, e);
+    return;
+  }
+
+  const local = await listLocalSaves(userId);
+  const seen = new Set<string>();
+
+  for (const entry of local) {
+    seen.add(entry.id);
+    const theirs = remote.get(entry.id);
+
+    if (entry.sync === 'synced') {
+      if (!theirs) await removeLocalSave(userId, entry.id);
+      else if (theirs.updatedAt > entry.updatedAt) await pull(userId, entry.id, theirs);
+      continue;
+    }
+
+    if (theirs && theirs.updatedAt > entry.updatedAt) {
+      await pull(userId, entry.id, theirs);
+      continue;
+    }
+
+    pushing.add(entry.id);
+    notify();
+    try {
+      // Patching a copy written in between would mix two boards
+      const patched = !entry.deleted && !!entry.patch && !!backend.update &&
+        theirs?.updatedAt === entry.patch.baseUpdatedAt;
+      if (entry.deleted) await backend.delete(userId, entry.id);
+      // The image went up with the first full write
+      else if (patched) await backend.update!(userId, entry.id, entry.patch!);
+      else {
+        const imageHash = entry.doc.imageHash;
+        if (typeof imageHash === 'string') await ensureImageUploaded(userId, entry.id, imageHash);
+        await backend.save(userId, entry.id, entry.doc);
+      }
+      await markSynced(entry, patched);
+    } catch (e) {
+      console.warn(`Save sync: push of ${entry.id} failed`, e);
+      await updateIfUnchanged(entry, { ...entry, sync: 'error', patch: undefined });
+    } finally {
+      pushing.delete(entry.id);
+    }
+  }
+
+  for (const [id, theirs] of remote) {
+    if (!seen.has(id)) await pull(userId, id, theirs);
+  }
+}
+
+async function pull(userId: string, id: string, remote: StoredSave): Promise<void> {
+  // A save made on this device during the pass may already be newer
+  const current = await getLocalSave(userId, id);
+  if (current && current.updatedAt > remote.updatedAt) return;
+  const remotePieceUpdates = Object.keys(remote.doc.pieceUpdates ?? {}).length;
+  await putLocalSave({ id, userId, doc: remote.doc, updatedAt: remote.updatedAt, sync: 'synced', remotePieceUpdates });
+}
+
+/** The entry may have been saved again while it was being pushed — only settle what was pushed. */
+async function markSynced(pushed: LocalSaveEntry, patched: boolean): Promise<void> {
+  const current = await getLocalSave(pushed.userId, pushed.id);
+  if (!current || current.updatedAt !== pushed.updatedAt) return;
+  if (current.deleted) await removeLocalSave(pushed.userId, pushed.id);
+  else {
+    // A full write leaves the backend copy without pieceUpdates
+    const remotePieceUpdates = patched
+      ? (current.remotePieceUpdates ?? 0) + Object.keys(pushed.patch!.pieces).length
+      : 0;
+    await putLocalSave({ ...current, sync: 'synced', patch: undefined, remotePieceUpdates });
+  }
+}
+
+async function updateIfUnchanged(pushed: LocalSaveEntry, next: LocalSaveEntry): Promise<void> {
+  const current = await getLocalSave(pushed.userId, pushed.id);
+  if (current && current.updatedAt === pushed.updatedAt) await putLocalSave(next);
+}
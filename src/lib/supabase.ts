@@ -0,0 +1,15 @@
+/**
+ * Supabase client — only used when the save or image backend is Supabase
+ * (see saveBackend.ts and blobBackend.ts).
+ *
+ * Config values come from VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY.
+ * Without them the client is null. With the Supabase save backend the client
+ * is also the app's sign-in (Google through Supabase Auth, see App.tsx).
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const url     = import.meta.env.VITE_SUPABASE_URL as string | undefined;
+const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined;
+
+export const supabase = url && anonKey ? createClient(url, anonKey) : null;
@@ -6,7 +6,16 @@
  *
  * Pieces can be:
  *  - Tapped / dragged upward to lift onto the board (calls onPieceLift)
- *  - Sorted by color hue (toggleable)
+ *  - Sorted by colour, browsed by colour tabs or grouped by knob pattern,
+ *    and filtered to edge pieces (handle bar buttons, see trayOrder.ts and
+ *    colorSort.ts). Piece colours are worked out in a worker
+ *    (pieceAnalysis.ts); until they are in, the sort button shows progress
+ *    and the tray keeps its shuffled order
+ *  - Highlighted by a neighbour hint (the drawer opens and scrolls to it)
+ *
+ * Thumbnails are only drawn for cells near the visible part of the grid and
+ * freed again when scrolled far away: a canvas per piece for a 1000-piece
+ * puzzle would otherwise take hundreds of MB.
  *
  * The drawer uses only CSS transform for animation so it stays GPU-composited
  * and never drops frames.
@@ -15,7 +24,9 @@
 import { memo, useEffect, useMemo, useRef, useState } from 'react';
 import { PieceDef, buildPiecePath, KNOB_SCALE } from './generator';
 import { drawPiece } from './renderer';
-import { clearHueCache } from './colorSort';
+import { ColorDescriptor, clusterColors, colorSortKey } from './colorSort';
+import { AnalysisProgress, analysePieces } from './pieceAnalysis';
+import { TraySort, arrangeTray, isEdgePiece } from './trayOrder';
 
 // ─── constants ───────────────────────────────────────────────────────────────
 const PEEK_HEIGHT = 80;           // px visible when closed (handle bar)
@@ -27,6 +38,18 @@ const EASE_OUT = 'cubic-bezier(0.22, 1, 0.36, 1)';  // snappy close
 const TRAY_CELL_MIN = 92;   // px — floor for very large pieces (small puzzles)
 const TRAY_CELL_MAX = 150;  // px — ceiling for very small pieces (big puzzles)
 const TRAY_PIECE_TARGET = 110; // px target for the piece itself (without knob padding)
+const TRAY_DRAW_MARGIN = 600;  // px above / below the visible grid that still get thumbnails
+
+const SORT_ORDER: TraySort[] = ['shuffled', 'hue', 'colors', 'knobs'];
+const SORT_LABELS: Record<TraySort, string> = {
+  shuffled: '🔀 Blandat',
+  hue: '🎨 Färg',
+  colors: '🗂 Färgflikar',
+  knobs: '🧩 Knoppar',
+};
+// Colour tabs in 'colors' mode
+const COLOR_BINS = 6;
+const NO_COLORS = new Map<string, ColorDescriptor>();
 
 // Stable per-piece rotation so pieces look scattered (Jigsawscapes style)
 // Map from piece id → rotation degrees
@@ -45,6 +68,9 @@ function getPieceRotation(id: string, seed: number): number {
 }
 function clearRotationCache() { rotationCache.clear(); }
 
+/** Calls `onChange` as `el` comes near the visible part of the grid or leaves it; returns the unsubscribe. */
+type TrayWatch = (el: Element, onChange: (near: boolean) => void) => () => void;
+
 // ─── TrayPieceItem ────────────────────────────────────────────────────────────
 const TrayPieceItem = memo(function TrayPieceItem({
   piece,
@@ -52,6 +78,8 @@ const TrayPieceItem = memo(function TrayPieceItem({
   boardW,
   boardH,
   rotation,
+  highlighted,
+  watch,
   onPointerDown,
 }: {
   piece: PieceDef;
@@ -59,49 +87,71 @@ const TrayPieceItem = memo(function TrayPieceItem({
   boardW: number;
   boardH: number;
   rotation: number;
+  highlighted: boolean;
+  watch: TrayWatch | null;
   onPointerDown: (e: React.PointerEvent, piece: PieceDef) => void;
 }) {
+  const cellRef = useRef<HTMLDivElement>(null);
   const ref = useRef<HTMLCanvasElement>(null);
+  // Without IntersectionObserver every thumbnail is drawn
+  const [near, setNear] = useState(() => typeof IntersectionObserver === 'undefined');
 
   useEffect(() => {
-    const canvas = ref.current;
-    if (!canvas) return;
+    if (!watch || !cellRef.current) return;
+    return watch(cellRef.current, setNear);
+  }, [watch]);
 
-    const pad = Math.min(piece.width, piece.height) * KNOB_SCALE * 1.1;
+  const size = useMemo(() => {
+    const pad = piece.knobUnit * KNOB_SCALE * 1.1;
     const natW = piece.width + pad * 2;
     const natH = piece.height + pad * 2;
 
-    // Scale the piece so it renders at TRAY_PIECE_TARGET px on its shorter side,
-    // then clamp the cell so tiny pieces get a boost and large pieces aren't too big.
-    const pieceShorter = Math.min(piece.width, piece.height);
-    const targetScale = TRAY_PIECE_TARGET / pieceShorter;
+    // Scale the piece so its knob unit (the shorter side on a square grid) renders
+    // at TRAY_PIECE_TARGET px — half pieces on hex/triangle borders keep their
+    // relative size — then clamp the cell so tiny pieces get a boost and large
+    // pieces aren't too big.
+    const targetScale = TRAY_PIECE_TARGET / piece.knobUnit;
     // Derive cell size from the scaled piece, clamped to our min/max
     const cellW = Math.round(Math.min(TRAY_CELL_MAX, Math.max(TRAY_CELL_MIN, natW * targetScale)));
     const cellH = Math.round(Math.min(TRAY_CELL_MAX, Math.max(TRAY_CELL_MIN, natH * targetScale)));
     const scale = Math.min(cellW / natW, cellH / natH);
-    const cssW = natW * scale;
-    const cssH = natH * scale;
+    return { pad, natW, natH, scale, cssW: natW * scale, cssH: natH * scale };
+  }, [piece.knobUnit, piece.width, piece.height]);
+
+  useEffect(() => {
+    const canvas = ref.current;
+    if (!canvas) return;
+    if (!near) {
+      // Frees the backing store; the cell keeps its size from the CSS below
+      canvas.width = 0;
+      canvas.height = 0;
+      return;
+    }
 
+    const { pad, natW, natH, scale, cssW, cssH } = size;
     const dpr = Math.min(window.devicePixelRatio || 1, 2);
     canvas.width = Math.round(cssW * dpr);
     canvas.height = Math.round(cssH * dpr);
-    canvas.style.width = `${Math.round(cssW)}px`;
-    canvas.style.height = `${Math.round(cssH)}px`;
 
     const ctx = canvas.getContext('2d')!;
     ctx.setTransform(dpr * scale, 0, 0, dpr * scale, 0, 0);
     ctx.clearRect(0, 0, natW, natH);
-    drawPiece(ctx, { ...piece, x: pad, y: pad }, boardImage, boardW, boardH);
-  }, [piece, boardImage, boardW, boardH]);
+    // Piece rotation is applied by the CSS transform below, so draw it upright here
+    drawPiece(ctx, { ...piece, x: pad, y: pad, rotation: 0 }, boardImage, boardW, boardH);
+  }, [piece, boardImage, boardW, boardH, near, size]);
 
   return (
     <div
+      ref={cellRef}
       className="flex items-center justify-center select-none"
+      data-piece-id={piece.id}
       style={{
         touchAction: 'pan-y',
         padding: '8px',
         cursor: 'grab',
         flexShrink: 0,  // never compress below natural size
+        borderRadius: 16,
+        animation: highlighted ? 'trayHintPulse 0.8s ease-in-out infinite' : undefined,
       }}
       onPointerDown={e => onPointerDown(e, piece)}
     >
@@ -109,6 +159,8 @@ const TrayPieceItem = memo(function TrayPieceItem({
         ref={ref}
         style={{
           display: 'block',
+          width: Math.round(size.cssW),
+          height: Math.round(size.cssH),
           touchAction: 'pan-y',
           pointerEvents: 'none',
           transform: `rotate(${rotation}deg)`,
@@ -142,6 +194,8 @@ export interface DrawerTrayProps {
   /** Guide toggle — displayed in the handle bar */
   showGuide: boolean;
   onToggleGuide: () => void;
+  /** Piece to pulse for a hint (see hints.ts) */
+  highlightId?: string | null;
   /** Puzzle seed for deterministic per-piece rotations */
   seed: number;
 }
@@ -157,10 +211,20 @@ export default function DrawerTray({
   isDragging,
   showGuide,
   onToggleGuide,
+  highlightId,
   seed,
 }: DrawerTrayProps) {
   const drawerRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [watchTray, setWatchTray] = useState<TrayWatch | null>(null);
   const [isOpen, setIsOpen] = useState(false);
+  const [sort, setSort] = useState<TraySort>('shuffled');
+  const [edgesOnly, setEdgesOnly] = useState(false);
+  // Selected colour tab; null = all colours
+  const [colorBin, setColorBin] = useState<number | null>(null);
+  // Piece colours for the colour sorts, tagged with the puzzle they belong to
+  const [analysed, setAnalysed] = useState({ seed, colors: NO_COLORS });
+  const [analysis, setAnalysis] = useState<AnalysisProgress | null>(null);
 
   // Gesture refs — no re-renders during drag
   const gestureDragging = useRef(false);
@@ -188,10 +252,31 @@ export default function DrawerTray({
     };
   }, []);
 
+  // One observer for every tray cell, telling each whether to keep its thumbnail drawn
+  useEffect(() => {
+    const root = gridRef.current;
+    if (!root || typeof IntersectionObserver === 'undefined') return;
+    const listeners = new Map<Element, (near: boolean) => void>();
+    const observer = new IntersectionObserver(
+      entries => {
+        for (const entry of entries) listeners.get(entry.target)?.(entry.isIntersecting);
+      },
+      { root, rootMargin: `${TRAY_DRAW_MARGIN}px 0px` },
+    );
+    setWatchTray(() => (el: Element, onChange: (near: boolean) => void) => {
+      listeners.set(el, onChange);
+      observer.observe(el);
+      return () => {
+        observer.unobserve(el);
+        listeners.delete(el);
+      };
+    });
+    return () => observer.disconnect();
+  }, []);
+
   // Clear rotation cache when puzzle resets
   useEffect(() => {
     clearRotationCache();
-    clearHueCache();
   }, [boardImage]);
 
   function getDrawerH(): number {
@@ -219,6 +304,23 @@ export default function DrawerTray({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isDragging]);
 
+  // Open up and bring a hinted piece into view
+  useEffect(() => {
+    if (!highlightId) return;
+    const target = pieces.find(p => p.id === highlightId);
+    if (edgesOnly && target && !isEdgePiece(target)) setEdgesOnly(false);
+    setColorBin(null);
+    snapOpen();
+    // After the render that brings back a filtered-out piece
+    requestAnimationFrame(() => {
+      drawerRef.current
+        ?.querySelector(`[data-piece-id="${highlightId}"]`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+  // Only when a new hint starts — not when the tray changes under it
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [highlightId]);
+
   // ─── Snap helpers ─────────────────────────────────────────────────────────
   function snapOpen() {
     currentTranslate.current = 0;
@@ -389,7 +491,54 @@ export default function DrawerTray({
     [seed], // only recompute on new puzzle, not on piece count changes
   );
 
-  const displayPieces = pieces;
+  const needsColors = sort === 'hue' || sort === 'colors';
+  const colors = analysed.seed === seed ? analysed.colors : NO_COLORS;
+  const missingColors = needsColors ? pieces.filter(p => !colors.has(p.id)) : [];
+  const missingKey = missingColors.map(p => p.id).join(',');
+  const colorsReady = needsColors && missingColors.length === 0;
+
+  useEffect(() => {
+    if (missingColors.length === 0) {
+      setAnalysis(null);
+      return;
+    }
+    let cancelled = false;
+    setAnalysis({ done: 0, total: missingColors.length });
+    analysePieces(seed, missingColors, boardImage, boardW, boardH, progress => {
+      if (!cancelled) setAnalysis(progress);
+    })
+      .then(result => {
+        if (cancelled) return;
+        setAnalysed(prev => ({
+          seed,
+          colors: new Map([...(prev.seed === seed ? prev.colors : NO_COLORS), ...result]),
+        }));
+      })
+      .catch(e => {
+        console.error('Piece analysis failed:', e);
+        if (!cancelled) setAnalysis(null);
+      });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [missingKey, seed, boardImage, boardW, boardH]); // the missing ids, not every new pieces array
+
+  const colorBins = useMemo(() => {
+    if (sort !== 'colors' || !colorsReady) return [];
+    return clusterColors(new Map(pieces.map(p => [p.id, colors.get(p.id)!])), COLOR_BINS);
+  }, [pieces, sort, colorsReady, colors]);
+  const activeBin = colorBin !== null && colorBin < colorBins.length ? colorBins[colorBin] : null;
+
+  const groups = useMemo(() => {
+    const inBin = activeBin ? new Set(activeBin.pieceIds) : null;
+    return arrangeTray(
+      inBin ? pieces.filter(p => inBin.has(p.id)) : pieces,
+      // Shuffled order until the colours are in
+      needsColors && !colorsReady ? 'shuffled' : sort,
+      edgesOnly,
+      p => colorSortKey(colors.get(p.id)),
+    );
+  }, [pieces, sort, needsColors, colorsReady, colors, edgesOnly, activeBin]);
+  const shownCount = groups.reduce((n, g) => n + g.pieces.length, 0);
 
   const drawerHeightPx = Math.round(window.innerHeight * OPEN_FRACTION);
 
@@ -419,6 +568,12 @@ export default function DrawerTray({
         touchAction: 'pan-x',
       }}
     >
+      <style>{`
+        @keyframes trayHintPulse {
+          0%, 100% { background: rgba(246,196,83,0.10); box-shadow: 0 0 0 2px rgba(224,154,26,0.35); }
+          50%      { background: rgba(246,196,83,0.35); box-shadow: 0 0 0 4px rgba(224,154,26,0.85); }
+        }
+      `}</style>
       {/* ── Handle bar ── */}
       <div
         style={{
@@ -492,11 +647,72 @@ export default function DrawerTray({
           >
             {showGuide ? '🗺 Guide på' : '🗺 Guide'}
           </button>
+
+          {/* Sort: shuffled → colour → knob pattern */}
+          <button
+            onPointerDown={e => e.stopPropagation()}
+            onClick={() => {
+              setSort(s => SORT_ORDER[(SORT_ORDER.indexOf(s) + 1) % SORT_ORDER.length]);
+              setColorBin(null);
+            }}
+            style={controlBtnStyle(sort !== 'shuffled')}
+          >
+            {needsColors && analysis
+              ? `⏳ Beräknar… ${Math.round((analysis.done / analysis.total) * 100)} %`
+              : SORT_LABELS[sort]}
+          </button>
+
+          {/* Edge filter */}
+          <button
+            onPointerDown={e => e.stopPropagation()}
+            onClick={() => setEdgesOnly(v => !v)}
+            style={controlBtnStyle(edgesOnly)}
+          >
+            {edgesOnly ? '▢ Bara kanter' : '▢ Kanter'}
+          </button>
         </div>
       </div>
 
+      {/* ── Colour tabs ── */}
+      {sort === 'colors' && colorBins.length > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            gap: 8,
+            padding: '2px 12px 6px',
+            overflowX: 'auto',
+            flexShrink: 0,
+            touchAction: 'pan-x',
+          }}
+        >
+          <button onClick={() => setColorBin(null)} style={controlBtnStyle(colorBin === null)}>
+            Alla
+          </button>
+          {colorBins.map((bin, i) => (
+            <button
+              key={i}
+              onClick={() => setColorBin(i)}
+              style={{ ...controlBtnStyle(colorBin === i), display: 'flex', alignItems: 'center', gap: 6, flexShrink: 0 }}
+              aria-label={`Färg ${i + 1}`}
+            >
+              <span
+                style={{
+                  width: 16,
+                  height: 16,
+                  borderRadius: 999,
+                  background: bin.color,
+                  boxShadow: 'inset 0 0 0 1px rgba(0,0,0,0.15)',
+                }}
+              />
+              {bin.pieceIds.length}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* ── Piece grid ── */}
       <div
+        ref={gridRef}
         style={{
           flex: 1,
           overflowY: 'auto',
@@ -505,7 +721,7 @@ export default function DrawerTray({
           WebkitOverflowScrolling: 'touch',
         }}
       >
-        {displayPieces.length === 0 ? (
+        {shownCount === 0 ? (
           <div
             style={{
               display: 'flex',
@@ -519,29 +735,52 @@ export default function DrawerTray({
               textAlign: 'center',
             }}
           >
-            🎉 Alla bitar är placerade på brädet!
+            {pieces.length === 0
+              ? '🎉 Alla bitar är placerade på brädet!'
+              : activeBin
+                ? 'Inga kantbitar i den här färgen'
+                : 'Inga kantbitar kvar i lådan'}
           </div>
         ) : (
-          <div
-            style={{
-              display: 'flex',
-              flexWrap: 'wrap',
-              justifyContent: 'center',
-              alignContent: 'flex-start',
-              padding: `10px 12px calc(24px + env(safe-area-inset-bottom, 0px))`,
-              gap: 16,
-            }}
-          >
-            {displayPieces.map(piece => (
-              <TrayPieceItem
-                key={piece.id}
-                piece={piece}
-                boardImage={boardImage}
-                boardW={boardW}
-                boardH={boardH}
-                rotation={rotations[piece.id] ?? 0}
-                onPointerDown={onTrayPiecePointerDown}
-              />
+          <div style={{ padding: `10px 12px calc(24px + env(safe-area-inset-bottom, 0px))` }}>
+            {groups.map(group => (
+              <div key={group.key}>
+                {group.label && (
+                  <div
+                    style={{
+                      fontSize: 12,
+                      fontWeight: 600,
+                      color: '#9a7a50',
+                      padding: '6px 4px 2px',
+                    }}
+                  >
+                    {group.label} ({group.pieces.length})
+                  </div>
+                )}
+                <div
+                  style={{
+                    display: 'flex',
+                    flexWrap: 'wrap',
+                    justifyContent: 'center',
+                    alignContent: 'flex-start',
+                    gap: 16,
+                  }}
+                >
+                  {group.pieces.map(piece => (
+                    <TrayPieceItem
+                      key={piece.id}
+                      piece={piece}
+                      boardImage={boardImage}
+                      boardW={boardW}
+                      boardH={boardH}
+                      rotation={(rotations[piece.id] ?? 0) + piece.rotation}
+                      highlighted={piece.id === highlightId}
+                      watch={watchTray}
+                      onPointerDown={onTrayPiecePointerDown}
+                    />
+                  ))}
+                </div>
+              </div>
             ))}
           </div>
         )}
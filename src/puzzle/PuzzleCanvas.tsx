@@ -8,6 +8,23 @@
  *   - PuzzleHUD floats at the top (pointer-events: none)
  *   - Back button is owned by App.tsx at z-index: 65
  *
+ * Camera (see camera.ts):
+ *   - Pieces and the board live in world coordinates (the fitted layout);
+ *     all pointer maths converts screen → world first, so snapping behaves
+ *     the same at any zoom
+ *   - Pinch / two-finger pan on the table zooms and moves the camera,
+ *     double-tap on the table zooms back to fit
+ *   - A minimap in the corner shows the viewport while zoomed in
+ *
+ * Hints (see hints.ts):
+ *   - HUD buttons pulse where the last touched piece belongs, or a piece
+ *     (on the board or in the tray) that joins onto its group
+ *   - Not offered when options.noHints is set
+ *
+ * Undo / redo (see history.ts):
+ *   - Each drag, tray drop and tap-to-stage is recorded as one command
+ *   - HUD buttons or a two-finger tap on the table step through it
+ *
  * Drag flow:
  *   Tray → board:  DrawerTray calls onPieceLiftFromDrawer → global listeners track drag
  *   Board → tray:  drop piece in bottom DRAWER_PEEK_HEIGHT zone → returns to tray
@@ -17,29 +34,132 @@
  *   - seed prop reproduces the same piece shapes deterministically
  *   - loadedPiecesState restores piece positions (fractional board-relative coords)
  *   - loadedTrayIds restores which pieces are in the tray
- *   - onSave callback is called by App.tsx when the user backs out
+ *   - snapped-together groups are restored from SavedPieceState.group; older
+ *     saves get them back by checking which neighbours still sit interlocked (grouping.ts)
+ *   - options.rotationMode decides whether pieces start turned (double-tap or
+ *     two-finger twist turns a piece group back)
+ *   - loadedHistory restores the undo/redo stacks saved next to piecesState
+ *   - loadedStats carries on the play time, move and snap counts (stats.ts)
+ *   - onSave callback is called by App.tsx when the user backs out and every
+ *     30 s; it is skipped when nothing changed since the last save and
+ *     told which pieces did otherwise (changedIds)
  *   - onRegisterSaveTrigger gives App.tsx a handle to trigger save
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { generatePuzzle, PieceDef, buildPiecePath, KNOB_SCALE } from './generator';
-import { drawPiece } from './renderer';
+import {
+  generatePuzzle,
+  PieceDef,
+  buildPiecePath,
+  KNOB_SCALE,
+  PuzzleOptions,
+  DEFAULT_PUZZLE_OPTIONS,
+  randomiseRotations,
+  normaliseRotation,
+  rotationDelta,
+  rotateVec,
+} from './generator';
+import { Point } from './tiling';
+import {
+  HistoryState,
+  PieceSnapshot,
+  EMPTY_HISTORY,
+  snapshotPieces,
+  diffSnapshots,
+  SavedBoard,
+  changesSince,
+  pushCommand,
+} from './history';
+import {
+  Camera,
+  FIT_CAMERA,
+  screenToWorld,
+  pinchCamera,
+  zoomAt,
+  maxZoomFor,
+  isFitCamera,
+  lerpCamera,
+} from './camera';
+import {
+  PuzzleStats,
+  PlayClock,
+  EMPTY_STATS,
+  recordMove,
+  pausedClock,
+  pauseClock,
+  touchClock,
+  clockElapsed,
+  formatPlayTime,
+} from './stats';
+import { expectedNextTo, groupsFromPositions, pieceCentre } from './grouping';
+import { ActiveHint, HintKind, HINT_MS, canHintSlot, createHint, hintsAllowed } from './hints';
+import { applyPieceTransform, getPiecePath } from './renderer';
+import { TableRenderer } from './tableRenderer';
+import { createBestTableRenderer } from './webglRenderer';
 import DrawerTray, { DRAWER_PEEK_HEIGHT } from './DrawerTray';
+import { BOARD_PAD_TOP, fitBoard } from './boardLayout';
 import PuzzleHUD from './PuzzleHUD';
 import { SavedPieceState } from '../lib/puzzleSave';
 
 // Snap distance as fraction of piece's smaller dimension.
 const SNAP_FRACTION = 0.28;  // slightly more forgiving for group snapping
-const BOARD_PAD_TOP = 36; // space for HUD pill + iPad status bar
-const BOARD_PAD_SIDE = 2;
-const BOARD_PAD_BOTTOM = DRAWER_PEEK_HEIGHT - 10;
-
-// Path2D cache — keyed by piece object identity, cleared on new puzzle
-const pathCache = new WeakMap<PieceDef, Path2D>();
-function getCachedPath(piece: PieceDef): Path2D {
-  let p = pathCache.get(piece);
-  if (!p) { p = buildPiecePath(piece, KNOB_SCALE); pathCache.set(piece, p); }
-  return p;
+const SHOW_CLOCK_KEY = 'puzzle_hud_clock';
+// Rotations closer than this (degrees) count as matching; the group is then
+// turned the last bit so the pieces line up exactly.
+const ROTATION_TOLERANCE = 8;
+const DOUBLE_TAP_MS = 320;
+const TAP_SLOP = 8; // px of finger movement still counted as a tap
+const CAMERA_ANIM_MS = 220;
+const MINIMAP_W = 132;
+
+/** Closed path through a masked board's outline (board coordinates). */
+function outlinePath(outline: Point[]): Path2D {
+  const path = new Path2D();
+  outline.forEach((p, i) => (i === 0 ? path.moveTo(p.x, p.y) : path.lineTo(p.x, p.y)));
+  path.closePath();
+  return path;
+}
+
+/** Overview of the whole table with the visible part outlined (screen space). */
+function drawMinimap(ctx: CanvasRenderingContext2D, board: BoardState, cam: Camera, cw: number, ch: number) {
+  const s = MINIMAP_W / cw;
+  const mh = ch * s;
+  const mx = cw - MINIMAP_W - 12;
+  const my = BOARD_PAD_TOP + 8;
+  ctx.save();
+  ctx.shadowColor = 'rgba(0,0,0,0.18)';
+  ctx.shadowBlur = 10;
+  ctx.fillStyle = 'rgba(245,237,217,0.94)';
+  ctx.beginPath();
+  ctx.roundRect(mx, my, MINIMAP_W, mh, 8);
+  ctx.fill();
+  ctx.shadowColor = 'transparent';
+  ctx.clip();
+  ctx.globalAlpha = 0.55;
+  ctx.drawImage(board.boardImage, mx + board.boardX * s, my + board.boardY * s, board.boardW * s, board.boardH * s);
+  ctx.globalAlpha = 1;
+  const tl = screenToWorld(cam, 0, 0);
+  const br = screenToWorld(cam, cw, ch);
+  ctx.strokeStyle = '#b45309';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(mx + tl.x * s, my + tl.y * s, (br.x - tl.x) * s, (br.y - tl.y) * s);
+  ctx.restore();
+  ctx.strokeStyle = 'rgba(140,110,70,0.35)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.roundRect(mx, my, MINIMAP_W, mh, 8);
+  ctx.stroke();
+}
+
+/** Turn every piece in `group` by `deg` degrees around the point (px, py). */
+function rotateGroup(group: PieceDef[], deg: number, px: number, py: number) {
+  if (deg === 0) return;
+  for (const gp of group) {
+    const c = rotateVec(gp.x + gp.width / 2 - px, gp.y + gp.height / 2 - py, deg);
+    gp.x = px + c.x - gp.width / 2;
+    gp.y = py + c.y - gp.height / 2;
+    gp.rotation = normaliseRotation(gp.rotation + deg);
+  }
 }
 
 interface Props {
@@ -47,8 +167,11 @@ interface Props {
   cols: number;
   rows: number;
   seed: number;
+  options?: PuzzleOptions;
   loadedPiecesState?: SavedPieceState[];
   loadedTrayIds?: string[];
+  loadedHistory?: HistoryState | null;
+  loadedStats?: PuzzleStats | null;
   onComplete?: () => void;
   onCalmMode?: (calm: boolean) => void;
   /**
@@ -66,6 +189,11 @@ interface Props {
     total: number,
     isCompleted: boolean,
     boardImageCanvas: HTMLCanvasElement,
+    history: HistoryState,
+    groups: Map<string, string>,
+    stats: PuzzleStats,
+    /** Pieces changed since the previous save; null = unknown, save everything */
+    changedIds: string[] | null,
   ) => Promise<string>;
   /**
    * Called once after mount so App.tsx can trigger a save before navigating away.
@@ -83,19 +211,54 @@ interface BoardState {
   boardW: number;
   boardH: number;
   boardImage: HTMLCanvasElement;
+  /** Masked board outline in board coordinates; null = full rectangle */
+  outline: Path2D | null;
   pieces: PieceDef[];
   /** Maps piece.id → group ID (shared string among connected pieces) */
   groups: Map<string, string>;
+  /** Camera zoom limit; more than MAX_ZOOM on boards with very small pieces */
+  maxZoom: number;
 }
 
 interface DragState {
   piece: PieceDef;
+  /** Client coords where the drag started (tap detection) */
   startX: number;
   startY: number;
+  /** World coords where the drag started */
+  startWorldX: number;
+  startWorldY: number;
   pieceStartX: number;
   pieceStartY: number;
   pointerId: number;
   fromTray: boolean;
+  startTime: number;
+  /** Latest pointer position in client coords (needed for twist angle + tap detection) */
+  lastX: number;
+  lastY: number;
+}
+
+/** A finger on the empty table — one or two of these drive pan / pinch. */
+interface TablePointer {
+  x: number;
+  y: number;
+  startX: number;
+  startY: number;
+  startTime: number;
+}
+
+interface PinchState {
+  startCam: Camera;
+  startMid: { x: number; y: number };
+  startDist: number;
+}
+
+interface TwistState {
+  pointerId: number;
+  x: number;
+  y: number;
+  /** Angle (degrees) of the line drag-finger → twist-finger at the last move */
+  lastAngle: number;
 }
 
 // ─── Main component ───────────────────────────────────────────────────────────
@@ -104,8 +267,11 @@ export default function PuzzleCanvas({
   cols,
   rows,
   seed,
+  options = DEFAULT_PUZZLE_OPTIONS,
   loadedPiecesState,
   loadedTrayIds,
+  loadedHistory,
+  loadedStats,
   onComplete,
   onSave,
   onRegisterSaveTrigger,
@@ -116,15 +282,41 @@ export default function PuzzleCanvas({
   const boardRef = useRef<BoardState | null>(null);
   const animRef = useRef<number>(0);
   const snapGlowRef = useRef<{ id: string; until: number } | null>(null);
+  // Mirror of the hint state for the render loop
+  const hintRef = useRef<ActiveHint | null>(null);
   const showGuideRef = useRef(false);
   const hitCtxRef = useRef<CanvasRenderingContext2D | null>(null);
-  const lastPointerYRef = useRef(0);
+  // Latest drag pointer position in world coords (return-to-tray check)
+  const lastPointerRef = useRef({ x: 0, y: 0 });
+  const cameraRef = useRef<Camera>(FIT_CAMERA);
+  const cameraAnimRef = useRef<{ from: Camera; to: Camera; start: number } | null>(null);
+  const tablePointersRef = useRef(new Map<number, TablePointer>());
+  const pinchRef = useRef<PinchState | null>(null);
+  // Set once a table gesture turns into a pinch, so lifting the fingers isn't a tap
+  const pinchedRef = useRef(false);
+  const lastTableTapRef = useRef<{ x: number; y: number; time: number } | null>(null);
+  // Stays true while a two-finger touch could still be a quick tap (→ undo)
+  const twoFingerTapRef = useRef(false);
+  const pinchStartCamRef = useRef<Camera>(FIT_CAMERA);
+
+  const historyRef = useRef<HistoryState>(EMPTY_HISTORY);
+  // Board state when the current action started; diffed when it ends
+  const actionStartRef = useRef<Map<string, PieceSnapshot> | null>(null);
 
   const dragRef = useRef<DragState | null>(null);
+  const twistRef = useRef<TwistState | null>(null);
+  const lastTapRef = useRef<{ pieceId: string; time: number } | null>(null);
   // Mirror of trayPieces state — readable synchronously inside the RAF loop
   const trayIdsRef = useRef<Set<string>>(new Set());
+  const trayListRef = useRef<PieceDef[]>([]);
   // When dragging near a valid snap position, stores the target coords for ghost preview
-  const snapPreviewRef = useRef<{ x: number; y: number; pieceId: string } | null>(null);
+  const snapPreviewRef = useRef<{ x: number; y: number; rotation: number; pieceId: string } | null>(null);
+
+  // Counts are updated per committed action; active time lives in the clock
+  const statsRef = useRef<PuzzleStats>(EMPTY_STATS);
+  const clockRef = useRef<PlayClock>(pausedClock(0));
+  // Board and counts as of the last save that went through; null = never saved
+  const savedRef = useRef<SavedBoard | null>(null);
 
   // Track placed count + isComplete in refs for use inside save callback
   const placedCountRef = useRef(0);
@@ -139,6 +331,12 @@ export default function PuzzleCanvas({
   const [showCelebration, setShowCelebration] = useState(false);
   const [calmMode, setCalmMode] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
+  const [historyDepth, setHistoryDepth] = useState({ undo: 0, redo: 0 });
+  const [showClock, setShowClock] = useState(() => localStorage.getItem(SHOW_CLOCK_KEY) === '1');
+  const [finalStats, setFinalStats] = useState<PuzzleStats | null>(null);
+  // Piece the hints are about: the one touched last
+  const [hintPieceId, setHintPieceId] = useState<string | null>(null);
+  const [hint, setHint] = useState<ActiveHint | null>(null);
   const [, tick] = useState(0);
 
   // ─── Celebration → calm mode transition ─────────────────────────────────
@@ -153,15 +351,58 @@ export default function PuzzleCanvas({
     return () => clearTimeout(timer);
   }, [isComplete, calmMode, onCalmMode]);
 
-  // ─── Tray helper — keeps ref in sync with state ─────────────────────────
-  function setTray(pieces: PieceDef[] | ((prev: PieceDef[]) => PieceDef[])) {
-    setTrayPieces(prev => {
-      const next = typeof pieces === 'function' ? pieces(prev) : pieces;
-      trayIdsRef.current = new Set(next.map(p => p.id));
-      return next;
+  // ─── Play clock ─────────────────────────────────────────────────────────
+  // Stops for good once the puzzle is done (the last move is already counted)
+  useEffect(() => {
+    if (!isComplete) return;
+    clockRef.current = pauseClock(clockRef.current, Date.now());
+    setFinalStats(currentStats());
+  }, [isComplete]);
+
+  // Backgrounded or closed: stop the clock; the next touch starts it again
+  useEffect(() => {
+    const pause = () => {
+      clockRef.current = pauseClock(clockRef.current, Date.now());
+    };
+    const onVisibility = () => {
+      if (document.visibilityState === 'hidden') pause();
+    };
+    document.addEventListener('visibilitychange', onVisibility);
+    window.addEventListener('pagehide', pause);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibility);
+      window.removeEventListener('pagehide', pause);
+    };
+  }, []);
+
+  function onAnyPointerDown() {
+    if (isCompleteRef.current) return;
+    clockRef.current = touchClock(clockRef.current, Date.now());
+  }
+
+  // Stable so the HUD's clock interval isn't restarted on every render
+  const playTime = useCallback(() => clockElapsed(clockRef.current, Date.now()), []);
+
+  function currentStats(): PuzzleStats {
+    return { ...statsRef.current, activeMs: clockElapsed(clockRef.current, Date.now()) };
+  }
+
+  function handleToggleClock() {
+    setShowClock(v => {
+      localStorage.setItem(SHOW_CLOCK_KEY, v ? '0' : '1');
+      return !v;
     });
   }
 
+  // ─── Tray helper — keeps refs in sync with state ────────────────────────
+  // Refs are updated synchronously so the history diff sees the new tray
+  function setTray(pieces: PieceDef[] | ((prev: PieceDef[]) => PieceDef[])) {
+    const next = typeof pieces === 'function' ? pieces(trayListRef.current) : pieces;
+    trayListRef.current = next;
+    trayIdsRef.current = new Set(next.map(p => p.id));
+    setTrayPieces(next);
+  }
+
   // ─── Hit-test context ───────────────────────────────────────────────────
   function getHitCtx() {
     if (!hitCtxRef.current) {
@@ -174,34 +415,19 @@ export default function PuzzleCanvas({
 
   // ─── Build board ─────────────────────────────────────────────────────────
   const buildBoard = useCallback((canvasW: number, canvasH: number) => {
-    const boardMaxW = canvasW - BOARD_PAD_SIDE * 2;
-    const boardMaxH = canvasH - BOARD_PAD_TOP - BOARD_PAD_BOTTOM;
-    const aspect = image.naturalWidth / image.naturalHeight;
-
-    // Fill the available rectangle as much as possible
-    let boardW: number, boardH: number;
-    if (boardMaxW / boardMaxH > aspect) {
-      // Tall-constrained: height is the limit
-      boardH = boardMaxH;
-      boardW = boardH * aspect;
-    } else {
-      // Wide-constrained: width is the limit
-      boardW = boardMaxW;
-      boardH = boardW / aspect;
-    }
+    const { x: boardX, y: boardY, w: boardW, h: boardH } = fitBoard(canvasW, canvasH, image.naturalWidth / image.naturalHeight);
 
-    const boardX = Math.round((canvasW - boardW) / 2);
-    // Push board toward the top so more space is left for the drawer
-    const boardY = Math.round(BOARD_PAD_TOP + Math.min((boardMaxH - boardH) * 0.2, 8));
+    // Use the provided seed for reproducible pieces
+    const layout = generatePuzzle(boardW, boardH, cols, rows, seed, options);
+    const outline = layout.outline ? outlinePath(layout.outline) : null;
 
-    // Pre-render image at board resolution
+    // Pre-render image at board resolution (cut to the mask so thumbnails show the shape)
     const off = document.createElement('canvas');
     off.width = Math.round(boardW);
     off.height = Math.round(boardH);
-    off.getContext('2d')!.drawImage(image, 0, 0, Math.round(boardW), Math.round(boardH));
-
-    // Use the provided seed for reproducible pieces
-    const layout = generatePuzzle(boardW, boardH, cols, rows, seed);
+    const offCtx = off.getContext('2d')!;
+    if (outline) offCtx.clip(outline);
+    offCtx.drawImage(image, 0, 0, Math.round(boardW), Math.round(boardH));
 
     // Build a lookup of saved state for quick restoration
     const savedMap = new Map<string, SavedPieceState>(
@@ -220,6 +446,7 @@ export default function PuzzleCanvas({
         p.y = boardY + saved.fy * boardH;
         p.isPlaced = saved.isPlaced;
         p.zIndex = saved.zIndex;
+        p.rotation = saved.rotation ?? 0;
       } else {
         // Start at solved position (will be put in tray)
         p.x = boardX + p.solvedX;
@@ -227,15 +454,41 @@ export default function PuzzleCanvas({
         p.isPlaced = false;
       }
     }
+    if (!isRestoring) randomiseRotations(layout.pieces, options.rotationMode, seed);
 
     // Each piece starts in its own group (singleton)
     const groups = new Map<string, string>();
     for (const p of layout.pieces) {
       groups.set(p.id, p.id);
     }
+    if (isRestoring) {
+      const hasGroups = loadedPiecesState.some(s => s.group !== undefined);
+      if (hasGroups) {
+        for (const p of layout.pieces) {
+          const group = savedMap.get(p.id)?.group;
+          if (group && !savedTraySet.has(p.id)) groups.set(p.id, group);
+        }
+      } else {
+        groupsFromPositions(layout.pieces, savedTraySet, groups);
+      }
+    }
 
-    const state: BoardState = { boardX, boardY, boardW, boardH, boardImage: off, pieces: layout.pieces, groups };
+    const state: BoardState = {
+      boardX,
+      boardY,
+      boardW,
+      boardH,
+      boardImage: off,
+      outline,
+      pieces: layout.pieces,
+      groups,
+      maxZoom: maxZoomFor(Math.min(boardW / cols, boardH / rows)),
+    };
+    const isFirstBuild = !boardRef.current;
     boardRef.current = state;
+    // World coordinates are rebuilt from the canvas size, so start from the fitted view
+    cameraRef.current = FIT_CAMERA;
+    cameraAnimRef.current = null;
     setBoardReady(state);
 
     // Determine tray pieces
@@ -263,9 +516,21 @@ export default function PuzzleCanvas({
       trayPieceList = shuffleArray(layout.pieces, seed);
     }
 
-    // Set ref first (synchronously), then state
-    trayIdsRef.current = new Set(trayPieceList.map(p => p.id));
-    setTrayPieces(trayPieceList);
+    setTray(trayPieceList);
+
+    historyRef.current = isRestoring && loadedHistory ? loadedHistory : EMPTY_HISTORY;
+    actionStartRef.current = null;
+    setHistoryDepth({ undo: historyRef.current.undo.length, redo: historyRef.current.redo.length });
+
+    statsRef.current = isRestoring && loadedStats ? loadedStats : EMPTY_STATS;
+    clockRef.current = pausedClock(statsRef.current.activeMs);
+    // A restored board starts out saved. Rebuilds (resize, shuffle) keep
+    // comparing against the last save, whatever they did to the pieces.
+    if (isFirstBuild) savedRef.current = isRestoring ? { pieces: captureBoard()!, stats: statsRef.current } : null;
+    setFinalStats(null);
+    setHintPieceId(null);
+    hintRef.current = null;
+    setHint(null);
 
     const placed = layout.pieces.filter(p => p.isPlaced).length;
     setTotal(layout.pieces.length);
@@ -278,7 +543,8 @@ export default function PuzzleCanvas({
 
     snapGlowRef.current = null;
     dragRef.current = null;
-  }, [image, cols, rows, seed, loadedPiecesState, loadedTrayIds]);
+    twistRef.current = null;
+  }, [image, cols, rows, seed, options, loadedPiecesState, loadedTrayIds, loadedHistory, loadedStats]);
 
   // ─── Register new-puzzle trigger with App.tsx ────────────────────────────
   useEffect(() => {
@@ -291,45 +557,45 @@ export default function PuzzleCanvas({
     });
   }, [onRegisterNewPuzzleTrigger, buildBoard]);
 
+  // ─── Save ────────────────────────────────────────────────────────────────
+  /** Save through `save` (onSave) unless nothing changed since the last save. */
+  async function saveBoard(save: NonNullable<Props['onSave']>, stats: PuzzleStats, isCompleted: boolean) {
+    const board = boardRef.current;
+    if (!board) return;
+    const pieces = snapshotPieces(board.pieces, trayIdsRef.current, board.groups, board);
+    const changedIds = changesSince(savedRef.current, pieces, stats);
+    if (changedIds === 'unchanged') return;
+    await save(
+      board.pieces,
+      [...trayIdsRef.current],
+      board.boardX,
+      board.boardY,
+      board.boardW,
+      board.boardH,
+      placedCountRef.current,
+      board.pieces.length,
+      isCompleted,
+      board.boardImage,
+      historyRef.current,
+      board.groups,
+      stats,
+      changedIds,
+    );
+    savedRef.current = { pieces, stats };
+  }
+
   // ─── Register save trigger with App.tsx ──────────────────────────────────
   useEffect(() => {
     if (!onRegisterSaveTrigger || !onSave) return;
-    onRegisterSaveTrigger(async () => {
-      const board = boardRef.current;
-      if (!board) return;
-      await onSave(
-        board.pieces,
-        [...trayIdsRef.current],
-        board.boardX,
-        board.boardY,
-        board.boardW,
-        board.boardH,
-        placedCountRef.current,
-        board.pieces.length,
-        isCompleteRef.current,
-        board.boardImage,
-      );
-    });
+    onRegisterSaveTrigger(() => saveBoard(onSave, currentStats(), isCompleteRef.current));
   }, [onRegisterSaveTrigger, onSave]);
 
   // ─── Periodic auto-save (every 30s) ────────────────────────────────────
   useEffect(() => {
     if (!onSave) return;
     const timer = setInterval(() => {
-      const board = boardRef.current;
-      if (!board || isCompleteRef.current) return;
-      onSave(
-        board.pieces,
-        [...trayIdsRef.current],
-        board.boardX,
-        board.boardY,
-        board.boardW,
-        board.boardH,
-        placedCountRef.current,
-        board.pieces.length,
-        false,
-        board.boardImage,
-      ).catch(e => console.warn('Auto-save failed', e));
+      if (isCompleteRef.current) return;
+      saveBoard(onSave, currentStats(), false).catch(e => console.warn('Auto-save failed', e));
     }, 30_000);
     return () => clearInterval(timer);
   }, [onSave]);
@@ -370,9 +636,9 @@ export default function PuzzleCanvas({
     const canvas = canvasRef.current;
     if (!canvas) return;
     let running = true;
-    // Cache the background gradient so we don't recreate it every frame
-    let bgGrad: CanvasGradient | null = null;
-    let bgGradH = 0;
+    // Rebuilt with the board (new puzzle, resize)
+    let table: TableRenderer | null = null;
+    let tableBoard: BoardState | null = null;
 
     function loop() {
       if (!running) return;
@@ -385,7 +651,7 @@ export default function PuzzleCanvas({
       const ch = rect.height;
       if (cw < 10) { animRef.current = requestAnimationFrame(loop); return; }
 
-      const { boardX: bx, boardY: by, boardW: bw, boardH: bh, boardImage, pieces } = board;
+      const { boardX: bx, boardY: by, pieces } = board;
       const now = Date.now();
 
       // Snap glow: compute fade-out alpha (1 → 0 over last 250ms of 700ms)
@@ -399,93 +665,186 @@ export default function PuzzleCanvas({
         }
       }
 
-      // Background — reuse gradient unless canvas height changed
-      ctx.clearRect(0, 0, cw, ch);
-      if (!bgGrad || bgGradH !== ch) {
-        bgGrad = ctx.createLinearGradient(0, 0, 0, ch);
-        bgGrad.addColorStop(0, '#f0e6d4');
-        bgGrad.addColorStop(1, '#dfd0b4');
-        bgGradH = ch;
+      // Camera — ease towards the target of a double-tap fit, then draw the world through it
+      const anim = cameraAnimRef.current;
+      if (anim) {
+        const t = Math.min(1, (now - anim.start) / CAMERA_ANIM_MS);
+        cameraRef.current = lerpCamera(anim.from, anim.to, 1 - (1 - t) ** 3);
+        if (t >= 1) cameraAnimRef.current = null;
       }
-      ctx.fillStyle = bgGrad;
-      ctx.fillRect(0, 0, cw, ch);
+      const cam = cameraRef.current;
 
-      // Board shadow + bg
-      ctx.save();
-      ctx.shadowColor = 'rgba(0,0,0,0.14)';
-      ctx.shadowBlur = 28;
-      ctx.shadowOffsetY = 6;
-      ctx.fillStyle = '#f5edd9';
-      ctx.beginPath();
-      ctx.roundRect(bx - 8, by - 8, bw + 16, bh + 16, 12);
-      ctx.fill();
-      ctx.restore();
-      ctx.strokeStyle = 'rgba(140,110,70,0.20)';
-      ctx.lineWidth = 1.5;
-      ctx.beginPath();
-      ctx.roundRect(bx - 8, by - 8, bw + 16, bh + 16, 12);
-      ctx.stroke();
-
-      // Guide outlines — show solved position for every piece not yet snapped in
-      if (showGuideRef.current) {
-        for (const p of pieces) {
-          if (p.isPlaced) continue;
-          ctx.save();
-          ctx.translate(bx + p.solvedX, by + p.solvedY);
-          ctx.globalAlpha = 0.14;
-          ctx.strokeStyle = '#6b5030';
-          ctx.lineWidth = 1;
-          ctx.stroke(getCachedPath(p));
-          ctx.restore();
-        }
+      // Table: background, board, guide and the pieces lying still (WebGL for big puzzles)
+      if (board !== tableBoard) {
+        table?.dispose();
+        table = createBestTableRenderer(board);
+        tableBoard = board;
       }
-
-      // Single sort — split into placed / floating / drag in one pass
-      const sorted = [...pieces].sort((a, b) => a.zIndex - b.zIndex);
       const drag = dragRef.current;
       const tray = trayIdsRef.current;
+      table.render(ctx, { cam, cw, ch, dpr: canvas!.width / cw }, {
+        isHidden: p => tray.has(p.id) || drag?.piece === p,
+        showGuide: showGuideRef.current,
+        glowId,
+        glowAlpha,
+      });
 
-      for (const p of sorted) {
-        if (!p.isPlaced) continue;
-        drawPiece(ctx, p, boardImage, bw, bh, { snapGlow: p.id === glowId, snapGlowAlpha: glowAlpha });
-      }
-      for (const p of sorted) {
-        if (p.isPlaced || tray.has(p.id) || drag?.piece === p) continue;
-        drawPiece(ctx, p, boardImage, bw, bh, { snapGlow: p.id === glowId, snapGlowAlpha: glowAlpha });
-      }
+      ctx.save();
+      ctx.translate(cam.x, cam.y);
+      ctx.scale(cam.zoom, cam.zoom);
 
       // Snap preview ghost
       const preview = snapPreviewRef.current;
       if (preview && drag) {
         ctx.save();
-        ctx.translate(preview.x, preview.y);
+        applyPieceTransform(ctx, preview.x, preview.y, drag.piece.width, drag.piece.height, preview.rotation);
         ctx.globalAlpha = 0.35;
         ctx.strokeStyle = '#4a90e2';
         ctx.lineWidth = 2.5;
         ctx.setLineDash([5, 4]);
-        ctx.stroke(getCachedPath(drag.piece));
+        ctx.stroke(getPiecePath(drag.piece));
         ctx.setLineDash([]);
         ctx.restore();
       }
 
+      // Hint pulse — the slot outline, or the neighbour piece as it lies now
+      const activeHint = hintRef.current;
+      const hintPiece = activeHint && now < activeHint.until && !activeHint.inTray
+        ? pieces.find(p => p.id === activeHint.pieceId)
+        : undefined;
+      if (activeHint && hintPiece) {
+        const pulse = 0.5 + 0.5 * Math.sin(((activeHint.until - now) / 400) * Math.PI * 2);
+        ctx.save();
+        if (activeHint.kind === 'slot') {
+          ctx.translate(bx + hintPiece.solvedX, by + hintPiece.solvedY);
+        } else {
+          applyPieceTransform(ctx, hintPiece.x, hintPiece.y, hintPiece.width, hintPiece.height, hintPiece.rotation);
+        }
+        const path = getPiecePath(hintPiece);
+        ctx.globalAlpha = 0.15 + 0.2 * pulse;
+        ctx.fillStyle = '#f6c453';
+        if (activeHint.kind === 'slot') ctx.fill(path);
+        ctx.globalAlpha = 0.5 + 0.5 * pulse;
+        ctx.strokeStyle = '#e09a1a';
+        ctx.lineWidth = 3 / cam.zoom;
+        ctx.stroke(path);
+        ctx.restore();
+      }
+
       // Active drag piece (always topmost)
       if (drag) {
-        drawPiece(ctx, drag.piece, boardImage, bw, bh, { snapGlow: false });
+        table.drawPiece(ctx, drag.piece);
       }
+      ctx.restore();
+
+      if (!isFitCamera(cam)) drawMinimap(ctx, board, cam, cw, ch);
 
       animRef.current = requestAnimationFrame(loop);
     }
 
     animRef.current = requestAnimationFrame(loop);
-    return () => { running = false; cancelAnimationFrame(animRef.current); };
+    return () => {
+      running = false;
+      cancelAnimationFrame(animRef.current);
+      table?.dispose();
+    };
   }, [image]);
 
   // ─── Coordinate helpers ──────────────────────────────────────────────────
-  function canvasCSSCoords(clientX: number, clientY: number) {
+  /** Client → canvas CSS px (screen space, unaffected by the camera). */
+  function canvasScreenCoords(clientX: number, clientY: number) {
     const rect = canvasRef.current!.getBoundingClientRect();
     return { x: clientX - rect.left, y: clientY - rect.top };
   }
 
+  /** Client → world coords, i.e. the space pieces and the board live in. */
+  function canvasCSSCoords(clientX: number, clientY: number) {
+    const pt = canvasScreenCoords(clientX, clientY);
+    return screenToWorld(cameraRef.current, pt.x, pt.y);
+  }
+
+  function viewSize() {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { w: rect.width, h: rect.height };
+  }
+
+  function animateCamera(to: Camera) {
+    cameraAnimRef.current = { from: cameraRef.current, to, start: Date.now() };
+  }
+
+  // ─── Undo / redo ─────────────────────────────────────────────────────────
+  function captureBoard(): Map<string, PieceSnapshot> | null {
+    const board = boardRef.current;
+    if (!board) return null;
+    return snapshotPieces(board.pieces, trayIdsRef.current, board.groups, board);
+  }
+
+  /** Remember the board before a user action so it can be recorded when it ends. */
+  function beginAction() {
+    actionStartRef.current = captureBoard();
+  }
+
+  function commitAction() {
+    const before = actionStartRef.current;
+    actionStartRef.current = null;
+    const after = captureBoard();
+    if (!before || !after) return;
+    const command = diffSnapshots(before, after);
+    if (!command) return;
+    historyRef.current = pushCommand(historyRef.current, command);
+    statsRef.current = recordMove(statsRef.current, command.kind);
+    setHistoryDepth({ undo: historyRef.current.undo.length, redo: 0 });
+  }
+
+  /** Write recorded piece states back onto the board and tray. */
+  function applySnapshots(snapshots: PieceSnapshot[]) {
+    const board = boardRef.current;
+    if (!board) return;
+    const byId = new Map(board.pieces.map(p => [p.id, p]));
+    const toTray: PieceDef[] = [];
+    const fromTray = new Set<string>();
+    for (const s of snapshots) {
+      const p = byId.get(s.id);
+      if (!p) continue;
+      p.x = board.boardX + s.fx * board.boardW;
+      p.y = board.boardY + s.fy * board.boardH;
+      p.rotation = s.rotation;
+      p.isPlaced = s.isPlaced;
+      p.zIndex = s.zIndex;
+      p.isSelected = false;
+      board.groups.set(p.id, s.group);
+      if (s.inTray && !trayIdsRef.current.has(p.id)) toTray.push(p);
+      if (!s.inTray && trayIdsRef.current.has(p.id)) fromTray.add(p.id);
+    }
+    if (toTray.length || fromTray.size) {
+      setTray(prev => [...prev.filter(p => !fromTray.has(p.id)), ...toTray]);
+    }
+    const placed = board.pieces.filter(p => p.isPlaced).length;
+    setPlacedCount(placed);
+    placedCountRef.current = placed;
+    snapPreviewRef.current = null;
+    snapGlowRef.current = null;
+    tick(n => n + 1);
+  }
+
+  function handleUndo() {
+    const history = historyRef.current;
+    if (dragRef.current || isCompleteRef.current || history.undo.length === 0) return;
+    const command = history.undo[history.undo.length - 1];
+    applySnapshots(command.before);
+    historyRef.current = { undo: history.undo.slice(0, -1), redo: [...history.redo, command] };
+    setHistoryDepth({ undo: historyRef.current.undo.length, redo: historyRef.current.redo.length });
+  }
+
+  function handleRedo() {
+    const history = historyRef.current;
+    if (dragRef.current || isCompleteRef.current || history.redo.length === 0) return;
+    const command = history.redo[history.redo.length - 1];
+    applySnapshots(command.after);
+    historyRef.current = { undo: [...history.undo, command], redo: history.redo.slice(0, -1) };
+    setHistoryDepth({ undo: historyRef.current.undo.length, redo: historyRef.current.redo.length });
+  }
+
   // ─── Snap helpers ─────────────────────────────────────────────────────────
   function snapDist(piece: PieceDef): number {
     return Math.min(piece.width, piece.height) * SNAP_FRACTION;
@@ -518,6 +877,9 @@ export default function PuzzleCanvas({
    * 1. A neighbouring piece already on the board (group snap — anywhere on board)
    * 2. Its solved position on the board (classic snap)
    *
+   * Pieces only connect when their rotations match (within ROTATION_TOLERANCE);
+   * the solved-position snap additionally needs the piece the right way up.
+   *
    * Returns true if any snap occurred.
    */
   function trySnap(piece: PieceDef): boolean {
@@ -528,71 +890,65 @@ export default function PuzzleCanvas({
     const dragGroup = getGroup(board, piece);
     const dragGroupIds = new Set(dragGroup.map(p => p.id));
 
-    // ── 1. Neighbour snap: check all 4 adjacent positions ──────────────────
+    // ── 1. Neighbour snap: check every piece across one of our edges ───────
     // For each piece on the board (not in tray, not in drag group),
-    // check if piece can snap to its left/right/top/bottom side.
-    const neighbours: { dc: number; dr: number; dx: number; dy: number }[] = [
-      { dc:  1, dr:  0, dx:  piece.width,  dy: 0           }, // piece is to the LEFT of neighbour
-      { dc: -1, dr:  0, dx: -piece.width,  dy: 0           }, // piece is to the RIGHT of neighbour
-      { dc:  0, dr:  1, dx:  0,            dy: piece.height }, // piece is ABOVE neighbour
-      { dc:  0, dr: -1, dx:  0,            dy: -piece.height}, // piece is BELOW neighbour
-    ];
-
+    // check if piece can snap to the side they share.
     for (const candidate of board.pieces) {
       if (traySet.has(candidate.id)) continue;
       if (dragGroupIds.has(candidate.id)) continue;
       if (candidate.isSelected) continue;
+      if (!piece.neighbours.includes(candidate.id)) continue;
+
+      const turn = rotationDelta(candidate.rotation, piece.rotation);
+      if (Math.abs(turn) > ROTATION_TOLERANCE) continue;
+
+      // Expected position of piece if it were correctly placed next to candidate
+      const expected = expectedNextTo(piece, candidate);
+      const dx = piece.x - expected.x;
+      const dy = piece.y - expected.y;
+      if (Math.sqrt(dx * dx + dy * dy) < dist) {
+        // Line up the rotation first, then snap the entire drag group by the same offset
+        const c = pieceCentre(piece);
+        rotateGroup(dragGroup, turn, c.x, c.y);
+        const offsetX = expected.x - piece.x;
+        const offsetY = expected.y - piece.y;
+        for (const gp of dragGroup) {
+          gp.x += offsetX;
+          gp.y += offsetY;
+          gp.isSelected = false;
+        }
 
-      for (const nb of neighbours) {
-        // Does piece (col,row) + (dc,dr) = candidate (col,row)?
-        if (piece.col + nb.dc !== candidate.col) continue;
-        if (piece.row + nb.dr !== candidate.row) continue;
-
-        // Expected position of piece if it were correctly placed next to candidate
-        const expectedX = candidate.x - nb.dx;
-        const expectedY = candidate.y - nb.dy;
-
-        const dx = piece.x - expectedX;
-        const dy = piece.y - expectedY;
-        if (Math.sqrt(dx * dx + dy * dy) < dist) {
-          // Snap the entire drag group by the same offset
-          const offsetX = expectedX - piece.x;
-          const offsetY = expectedY - piece.y;
-          for (const gp of dragGroup) {
-            gp.x += offsetX;
-            gp.y += offsetY;
-            gp.isSelected = false;
-          }
-
-          // Merge groups
-          mergeGroups(board, piece, candidate);
-
-          // After merging, check if the full merged group aligns with solved positions
-          const mergedGroup = getGroup(board, piece);
-          checkAndPlaceGroup(board, mergedGroup);
-
-          snapPreviewRef.current = null;
-          snapGlowRef.current = { id: piece.id, until: Date.now() + 700 };
-          const placed = board.pieces.filter(p => p.isPlaced).length;
-          setPlacedCount(placed);
-          placedCountRef.current = placed;
-          if (placed === board.pieces.length) {
-            setIsComplete(true);
-            isCompleteRef.current = true;
-            onComplete?.();
-          }
-          return true;
+        // Merge groups
+        mergeGroups(board, piece, candidate);
+
+        // After merging, check if the full merged group aligns with solved positions
+        const mergedGroup = getGroup(board, piece);
+        checkAndPlaceGroup(board, mergedGroup);
+
+        snapPreviewRef.current = null;
+        snapGlowRef.current = { id: piece.id, until: Date.now() + 700 };
+        const placed = board.pieces.filter(p => p.isPlaced).length;
+        setPlacedCount(placed);
+        placedCountRef.current = placed;
+        if (placed === board.pieces.length) {
+          setIsComplete(true);
+          isCompleteRef.current = true;
+          onComplete?.();
         }
+        return true;
       }
     }
 
     // ── 2. Classic solved-position snap ─────────────────────────────────────
+    const upright = rotationDelta(0, piece.rotation);
     const tx = board.boardX + piece.solvedX;
     const ty = board.boardY + piece.solvedY;
     const dx = piece.x - tx;
     const dy = piece.y - ty;
-    if (Math.sqrt(dx * dx + dy * dy) < dist) {
+    if (Math.abs(upright) <= ROTATION_TOLERANCE && Math.sqrt(dx * dx + dy * dy) < dist) {
       // Snap entire drag group so this piece lands at its solved position
+      const c = pieceCentre(piece);
+      rotateGroup(dragGroup, upright, c.x, c.y);
       const offsetX = tx - piece.x;
       const offsetY = ty - piece.y;
       for (const gp of dragGroup) {
@@ -623,10 +979,11 @@ export default function PuzzleCanvas({
 
   /**
    * Mark pieces in a group as `isPlaced` if every piece in the group is
-   * within snap distance of its solved position.
+   * upright and within snap distance of its solved position.
    */
   function checkAndPlaceGroup(board: BoardState, group: PieceDef[]) {
     const allAligned = group.every(p => {
+      if (Math.abs(rotationDelta(p.rotation, 0)) > ROTATION_TOLERANCE) return false;
       const tx = board.boardX + p.solvedX;
       const ty = board.boardY + p.solvedY;
       const dx = p.x - tx;
@@ -637,6 +994,7 @@ export default function PuzzleCanvas({
       for (const p of group) {
         p.x = board.boardX + p.solvedX;
         p.y = board.boardY + p.solvedY;
+        p.rotation = 0;
         p.isPlaced = true;
         p.isSelected = false;
         p.zIndex = -1;
@@ -653,27 +1011,18 @@ export default function PuzzleCanvas({
     const dist = snapDist(piece) * 2;
 
     // Check neighbour snap preview
-    const neighbours: { dc: number; dr: number; dx: number; dy: number }[] = [
-      { dc:  1, dr:  0, dx:  piece.width,  dy: 0           },
-      { dc: -1, dr:  0, dx: -piece.width,  dy: 0           },
-      { dc:  0, dr:  1, dx:  0,            dy: piece.height },
-      { dc:  0, dr: -1, dx:  0,            dy: -piece.height},
-    ];
     for (const candidate of board.pieces) {
       if (traySet.has(candidate.id)) continue;
       if (dragGroupIds.has(candidate.id)) continue;
       if (candidate.isSelected) continue;
-      for (const nb of neighbours) {
-        if (piece.col + nb.dc !== candidate.col) continue;
-        if (piece.row + nb.dr !== candidate.row) continue;
-        const expectedX = candidate.x - nb.dx;
-        const expectedY = candidate.y - nb.dy;
-        const dx = piece.x - expectedX;
-        const dy = piece.y - expectedY;
-        if (Math.sqrt(dx * dx + dy * dy) < dist) {
-          snapPreviewRef.current = { x: expectedX, y: expectedY, pieceId: piece.id };
-          return;
-        }
+      if (!piece.neighbours.includes(candidate.id)) continue;
+      if (Math.abs(rotationDelta(candidate.rotation, piece.rotation)) > ROTATION_TOLERANCE) continue;
+      const expected = expectedNextTo(piece, candidate);
+      const dx = piece.x - expected.x;
+      const dy = piece.y - expected.y;
+      if (Math.sqrt(dx * dx + dy * dy) < dist) {
+        snapPreviewRef.current = { ...expected, rotation: candidate.rotation, pieceId: piece.id };
+        return;
       }
     }
 
@@ -682,8 +1031,9 @@ export default function PuzzleCanvas({
     const ty = board.boardY + piece.solvedY;
     const dx = piece.x - tx;
     const dy = piece.y - ty;
-    if (Math.sqrt(dx * dx + dy * dy) < dist) {
-      snapPreviewRef.current = { x: tx, y: ty, pieceId: piece.id };
+    const upright = Math.abs(rotationDelta(piece.rotation, 0)) <= ROTATION_TOLERANCE;
+    if (upright && Math.sqrt(dx * dx + dy * dy) < dist) {
+      snapPreviewRef.current = { x: tx, y: ty, rotation: 0, pieceId: piece.id };
     } else {
       snapPreviewRef.current = null;
     }
@@ -692,9 +1042,12 @@ export default function PuzzleCanvas({
   // ─── Shared pointer move/up ──────────────────────────────────────────────
   function handlePointerMove(clientX: number, clientY: number, pointerId: number) {
     if (!dragRef.current || dragRef.current.pointerId !== pointerId) return;
-    lastPointerYRef.current = clientY;
-    const dx = clientX - dragRef.current.startX;
-    const dy = clientY - dragRef.current.startY;
+    const world = canvasCSSCoords(clientX, clientY);
+    lastPointerRef.current = world;
+    dragRef.current.lastX = clientX;
+    dragRef.current.lastY = clientY;
+    const dx = world.x - dragRef.current.startWorldX;
+    const dy = world.y - dragRef.current.startWorldY;
 
     // Move the dragged piece
     const newX = dragRef.current.pieceStartX + dx;
@@ -718,17 +1071,74 @@ export default function PuzzleCanvas({
     updateSnapPreview(dragRef.current.piece);
   }
 
+  // ─── Rotation gestures ───────────────────────────────────────────────────
+  function twistAngle(drag: DragState, twist: TwistState): number {
+    return (Math.atan2(twist.y - drag.lastY, twist.x - drag.lastX) * 180) / Math.PI;
+  }
+
+  /** Turn the dragged group by however much the two-finger line has rotated. */
+  function applyTwist() {
+    const drag = dragRef.current;
+    const twist = twistRef.current;
+    const board = boardRef.current;
+    if (!drag || !twist || !board) return;
+    const angle = twistAngle(drag, twist);
+    const delta = rotationDelta(angle, twist.lastAngle);
+    twist.lastAngle = angle;
+    const c = pieceCentre(drag.piece);
+    rotateGroup(getGroup(board, drag.piece), delta, c.x, c.y);
+    updateSnapPreview(drag.piece);
+  }
+
+  /** End a twist; in quarter mode the group settles on the nearest 90° step. */
+  function finishTwist() {
+    const drag = dragRef.current;
+    const board = boardRef.current;
+    twistRef.current = null;
+    if (!drag || !board || options.rotationMode !== 'quarter') return;
+    const target = Math.round(drag.piece.rotation / 90) * 90;
+    const c = pieceCentre(drag.piece);
+    rotateGroup(getGroup(board, drag.piece), rotationDelta(target, drag.piece.rotation), c.x, c.y);
+    updateSnapPreview(drag.piece);
+  }
+
+  /** True when the finished drag was a quick tap that follows another tap on the same piece. */
+  function isDoubleTap(drag: DragState): boolean {
+    const moved = Math.hypot(drag.lastX - drag.startX, drag.lastY - drag.startY);
+    const now = Date.now();
+    if (moved > TAP_SLOP || now - drag.startTime > DOUBLE_TAP_MS) {
+      lastTapRef.current = null;
+      return false;
+    }
+    const prev = lastTapRef.current;
+    if (prev && prev.pieceId === drag.piece.id && now - prev.time < DOUBLE_TAP_MS) {
+      lastTapRef.current = null;
+      return true;
+    }
+    lastTapRef.current = { pieceId: drag.piece.id, time: now };
+    return false;
+  }
+
   function handlePointerUp(pointerId: number) {
     if (!dragRef.current || dragRef.current.pointerId !== pointerId) return;
+    if (twistRef.current) finishTwist();
     const { piece } = dragRef.current;
     piece.isSelected = false;
     snapPreviewRef.current = null;
 
     const board = boardRef.current;
-    // Return-to-tray zone: bottom DRAWER_PEEK_HEIGHT + extra 30px buffer
-    const inDrawerZone = lastPointerYRef.current > window.innerHeight - DRAWER_PEEK_HEIGHT - 30;
+    // Return-to-tray zone: bottom DRAWER_PEEK_HEIGHT + extra 30px buffer of the
+    // screen. The drawer doesn't move with the camera, so map its edge into world space.
+    const zoneTop = screenToWorld(cameraRef.current, 0, viewSize().h - DRAWER_PEEK_HEIGHT - 30).y;
+    const inDrawerZone = lastPointerRef.current.y > zoneTop;
     const dragGroup = board ? getGroup(board, piece) : [piece];
 
+    // Double-tap turns the whole group a quarter turn clockwise
+    if (options.rotationMode !== 'none' && !dragRef.current.fromTray && isDoubleTap(dragRef.current)) {
+      const c = pieceCentre(piece);
+      rotateGroup(dragGroup, 90, c.x, c.y);
+    }
+
     const snapped = trySnap(piece);
     if (snapped) {
       // Remove all drag-group pieces from tray (they're now on the board)
@@ -756,22 +1166,46 @@ export default function PuzzleCanvas({
     }
 
     dragRef.current = null;
+    twistRef.current = null;
+    commitAction();
     setIsDragging(false);
     tick(n => n + 1);
   }
 
   // ─── Attach global drag listeners ────────────────────────────────────────
+  // A second finger going down while a piece is held starts a twist gesture.
   function attachGlobalListeners(pointerId: number) {
+    function onDown(ev: PointerEvent) {
+      const drag = dragRef.current;
+      if (ev.pointerId === pointerId || !drag || twistRef.current) return;
+      if (options.rotationMode === 'none') return;
+      const twist = { pointerId: ev.pointerId, x: ev.clientX, y: ev.clientY, lastAngle: 0 };
+      twist.lastAngle = twistAngle(drag, twist);
+      twistRef.current = twist;
+    }
     function onMove(ev: PointerEvent) {
-      if (ev.pointerId === pointerId) handlePointerMove(ev.clientX, ev.clientY, pointerId);
+      if (ev.pointerId === pointerId) {
+        handlePointerMove(ev.clientX, ev.clientY, pointerId);
+        applyTwist();
+      } else if (twistRef.current?.pointerId === ev.pointerId) {
+        twistRef.current.x = ev.clientX;
+        twistRef.current.y = ev.clientY;
+        applyTwist();
+      }
     }
     function onUp(ev: PointerEvent) {
+      if (twistRef.current?.pointerId === ev.pointerId) {
+        finishTwist();
+        return;
+      }
       if (ev.pointerId !== pointerId) return;
       handlePointerUp(pointerId);
+      window.removeEventListener('pointerdown', onDown);
       window.removeEventListener('pointermove', onMove);
       window.removeEventListener('pointerup', onUp);
       window.removeEventListener('pointercancel', onUp);
     }
+    window.addEventListener('pointerdown', onDown);
     window.addEventListener('pointermove', onMove);
     window.addEventListener('pointerup', onUp);
     window.addEventListener('pointercancel', onUp);
@@ -787,11 +1221,13 @@ export default function PuzzleCanvas({
     if (dragRef.current) return;
     const board = boardRef.current;
     if (!board) return;
+    beginAction();
 
     const pt = canvasCSSCoords(clientX, clientY);
     piece.x = pt.x - piece.width / 2;
     piece.y = pt.y - piece.height / 2;
     piece.isSelected = true;
+    setHintPieceId(piece.id);
     piece.isPlaced = false;
     const maxZ = Math.max(0, ...board.pieces.map(p => p.zIndex));
     piece.zIndex = maxZ + 1;
@@ -800,15 +1236,20 @@ export default function PuzzleCanvas({
       piece,
       startX: clientX,
       startY: clientY,
+      startWorldX: pt.x,
+      startWorldY: pt.y,
       pieceStartX: piece.x,
       pieceStartY: piece.y,
       pointerId,
       fromTray: true,
+      startTime: Date.now(),
+      lastX: clientX,
+      lastY: clientY,
     };
 
     setTray(prev => prev.filter(p => p.id !== piece.id));
     setIsDragging(true);
-    lastPointerYRef.current = clientY;
+    lastPointerRef.current = pt;
 
     attachGlobalListeners(pointerId);
   }
@@ -819,6 +1260,12 @@ export default function PuzzleCanvas({
     const board = boardRef.current;
     if (!board) return;
 
+    // A finger already on the table turns this one into a pinch, wherever it lands
+    if (tablePointersRef.current.size > 0) {
+      onTablePointerDown(e);
+      return;
+    }
+
     const pt = canvasCSSCoords(e.clientX, e.clientY);
     const hctx = getHitCtx();
 
@@ -832,16 +1279,22 @@ export default function PuzzleCanvas({
     let hit: PieceDef | null = null;
 
     for (const p of sorted) {
-      const lx = pt.x - p.x;
-      const ly = pt.y - p.y;
-      const pad = Math.min(p.width, p.height) * KNOB_SCALE * 1.2;
+      // Undo the piece rotation so the point is in the path's local coords
+      const local = rotateVec(pt.x - (p.x + p.width / 2), pt.y - (p.y + p.height / 2), -p.rotation);
+      const lx = local.x + p.width / 2;
+      const ly = local.y + p.height / 2;
+      const pad = p.knobUnit * KNOB_SCALE * 1.2;
       if (lx < -pad || lx > p.width + pad || ly < -pad || ly > p.height + pad) continue;
       if (hctx.isPointInPath(buildPiecePath(p, KNOB_SCALE), lx, ly)) {
         hit = p;
         break;
       }
     }
-    if (!hit) return;
+    if (!hit) {
+      onTablePointerDown(e);
+      return;
+    }
+    beginAction();
 
     const maxZ = Math.max(0, ...board.pieces.map(p => p.zIndex));
     // Elevate all pieces in the same group
@@ -851,33 +1304,157 @@ export default function PuzzleCanvas({
       gp.isSelected = gp === hit;
       gp.isPlaced = false; // un-place so group can move freely
     }
+    setHintPieceId(hit.id);
 
     dragRef.current = {
       piece: hit,
       startX: e.clientX,
       startY: e.clientY,
+      startWorldX: pt.x,
+      startWorldY: pt.y,
       pieceStartX: hit.x,
       pieceStartY: hit.y,
       pointerId: e.pointerId,
       fromTray: false,
+      startTime: Date.now(),
+      lastX: e.clientX,
+      lastY: e.clientY,
     };
-    lastPointerYRef.current = e.clientY;
+    lastPointerRef.current = pt;
     setIsDragging(true);
 
     attachGlobalListeners(e.pointerId);
   }
 
+  // ─── Table gestures: pinch-zoom, two-finger pan, double-tap to fit ───────
+  function onTablePointerDown(e: React.PointerEvent) {
+    const pointers = tablePointersRef.current;
+    const pt = canvasScreenCoords(e.clientX, e.clientY);
+    pointers.set(e.pointerId, { x: pt.x, y: pt.y, startX: pt.x, startY: pt.y, startTime: Date.now() });
+    if (pointers.size === 1) {
+      pinchedRef.current = false;
+      attachTableListeners();
+    } else if (pointers.size === 2) {
+      twoFingerTapRef.current = true;
+      startPinch();
+    } else {
+      twoFingerTapRef.current = false;
+    }
+  }
+
+  function startPinch() {
+    const [a, b] = [...tablePointersRef.current.values()];
+    cameraAnimRef.current = null;
+    if (!pinchedRef.current) pinchStartCamRef.current = cameraRef.current;
+    pinchedRef.current = true;
+    pinchRef.current = {
+      startCam: cameraRef.current,
+      startMid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      startDist: Math.hypot(b.x - a.x, b.y - a.y),
+    };
+  }
+
+  function updatePinch() {
+    const pinch = pinchRef.current;
+    if (!pinch) return;
+    const [a, b] = [...tablePointersRef.current.values()];
+    const { w, h } = viewSize();
+    cameraRef.current = pinchCamera(
+      pinch.startCam,
+      pinch.startMid,
+      pinch.startDist,
+      { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      Math.hypot(b.x - a.x, b.y - a.y),
+      w,
+      h,
+      boardRef.current?.maxZoom,
+    );
+  }
+
+  /** A quick single-finger tap on the table; the second one in a row zooms back to fit. */
+  function handleTableTap(p: TablePointer) {
+    const now = Date.now();
+    const prev = lastTableTapRef.current;
+    if (prev && now - prev.time < DOUBLE_TAP_MS && Math.hypot(p.x - prev.x, p.y - prev.y) < TAP_SLOP * 4) {
+      lastTableTapRef.current = null;
+      animateCamera(FIT_CAMERA);
+      return;
+    }
+    lastTableTapRef.current = { x: p.x, y: p.y, time: now };
+  }
+
+  function attachTableListeners() {
+    function onMove(ev: PointerEvent) {
+      const p = tablePointersRef.current.get(ev.pointerId);
+      if (!p) return;
+      const pt = canvasScreenCoords(ev.clientX, ev.clientY);
+      p.x = pt.x;
+      p.y = pt.y;
+      updatePinch();
+    }
+    function onUp(ev: PointerEvent) {
+      const pointers = tablePointersRef.current;
+      const p = pointers.get(ev.pointerId);
+      if (!p) return;
+      pointers.delete(ev.pointerId);
+      if (pointers.size < 2) pinchRef.current = null;
+      // Three fingers → the remaining two carry on pinching from here
+      if (pointers.size >= 2) startPinch();
+
+      const quick = Math.hypot(p.x - p.startX, p.y - p.startY) <= TAP_SLOP
+        && Date.now() - p.startTime <= DOUBLE_TAP_MS;
+      if (!quick) twoFingerTapRef.current = false;
+      if (quick && !pinchedRef.current) handleTableTap(p);
+      if (pointers.size === 0 && pinchedRef.current && twoFingerTapRef.current) {
+        // Two-finger tap → undo; put back any tiny zoom the fingers caused
+        twoFingerTapRef.current = false;
+        cameraRef.current = pinchStartCamRef.current;
+        handleUndo();
+      }
+
+      if (pointers.size === 0) {
+        window.removeEventListener('pointermove', onMove);
+        window.removeEventListener('pointerup', onUp);
+        window.removeEventListener('pointercancel', onUp);
+      }
+    }
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    window.addEventListener('pointercancel', onUp);
+  }
+
+  /** Mouse wheel / trackpad pinch zooms around the cursor (desktop). */
+  function onCanvasWheel(e: React.WheelEvent) {
+    if (dragRef.current) return;
+    const pt = canvasScreenCoords(e.clientX, e.clientY);
+    const { w, h } = viewSize();
+    cameraAnimRef.current = null;
+    cameraRef.current = zoomAt(
+      cameraRef.current,
+      Math.exp(-e.deltaY * 0.0015),
+      pt.x,
+      pt.y,
+      w,
+      h,
+      boardRef.current?.maxZoom,
+    );
+  }
+
   // ─── Tap-to-stage: place piece freely on board (no drag) ─────────────────
   function onPieceTap(piece: PieceDef) {
     const board = boardRef.current;
     if (!board) return;
+    beginAction();
 
     const floatingCount = board.pieces.filter(
       p => !p.isPlaced && !trayIdsRef.current.has(p.id),
     ).length;
 
-    const cx = board.boardX + board.boardW / 2;
-    const cy = board.boardY + board.boardH / 2;
+    // Stage around the middle of what is on screen (the board centre when fitted)
+    const { w, h } = viewSize();
+    const view = screenToWorld(cameraRef.current, w / 2, h / 2);
+    const cx = isFitCamera(cameraRef.current) ? board.boardX + board.boardW / 2 : view.x;
+    const cy = isFitCamera(cameraRef.current) ? board.boardY + board.boardH / 2 : view.y;
     const angle = floatingCount * 2.4;
     const radius = 40 + floatingCount * 28;
     const tx = cx + Math.cos(angle) * radius - piece.width / 2;
@@ -891,9 +1468,29 @@ export default function PuzzleCanvas({
     piece.zIndex = maxZ + 1;
 
     setTray(prev => prev.filter(p => p.id !== piece.id));
+    setHintPieceId(piece.id);
+    commitAction();
     tick(n => n + 1);
   }
 
+  // ─── Hints ────────────────────────────────────────────────────────────────
+  const hintPiece = hintPieceId ? boardReady?.pieces.find(p => p.id === hintPieceId) ?? null : null;
+
+  function showHint(kind: HintKind) {
+    const board = boardRef.current;
+    if (!board || !hintPiece || hintRef.current || isCompleteRef.current) return;
+    const next = createHint(kind, hintPiece, board.pieces, board.groups, trayIdsRef.current, Date.now());
+    if (!next) return;
+    hintRef.current = next;
+    setHint(next);
+    statsRef.current = { ...statsRef.current, hints: statsRef.current.hints + 1 };
+    setTimeout(() => {
+      if (hintRef.current !== next) return;
+      hintRef.current = null;
+      setHint(null);
+    }, HINT_MS);
+  }
+
   function handleShuffle() {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -911,6 +1508,7 @@ export default function PuzzleCanvas({
     <div
       className="w-full h-full relative overflow-hidden select-none"
       style={{ background: '#f0e6d4' }}
+      onPointerDownCapture={onAnyPointerDown}
     >
       {/* Full-screen board canvas */}
       <canvas
@@ -924,6 +1522,7 @@ export default function PuzzleCanvas({
           touchAction: 'none',
         }}
         onPointerDown={onCanvasPointerDown}
+        onWheel={onCanvasWheel}
       />
 
       {/* Drag intercept overlay (prevents drawer receiving events during drag) */}
@@ -940,7 +1539,22 @@ export default function PuzzleCanvas({
       )}
 
       {/* HUD — hidden in calm mode */}
-      {!calmMode && <PuzzleHUD placedCount={placedCount} total={total} />}
+      {!calmMode && (
+        <PuzzleHUD
+          placedCount={placedCount}
+          total={total}
+          canUndo={historyDepth.undo > 0 && !isDragging}
+          canRedo={historyDepth.redo > 0 && !isDragging}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          showClock={showClock}
+          playTime={playTime}
+          onToggleClock={handleToggleClock}
+          onHint={hintsAllowed(options) ? showHint : undefined}
+          canHintSlot={canHintSlot(hintPiece) && !hint && !isDragging}
+          canHintNeighbour={!!hintPiece && !hint && !isDragging}
+        />
+      )}
 
       {/* Drawer tray — hidden in calm mode */}
       {boardReady && !calmMode && (
@@ -954,6 +1568,7 @@ export default function PuzzleCanvas({
           isDragging={isDragging}
           showGuide={showGuide}
           onToggleGuide={handleToggleGuide}
+          highlightId={hint?.inTray ? hint.pieceId : null}
           seed={seed}
         />
       )}
@@ -1044,6 +1659,39 @@ export default function PuzzleCanvas({
             }}>
               Pusslet är klart
             </p>
+            {finalStats && (
+              <div style={{
+                display: 'flex',
+                gap: 10,
+                marginTop: 20,
+                flexWrap: 'wrap',
+                justifyContent: 'center',
+              }}>
+                {[
+                  { label: 'Tid', value: formatPlayTime(finalStats.activeMs) },
+                  { label: 'Drag', value: finalStats.moves },
+                  { label: 'Ihopsnäppta', value: finalStats.snaps },
+                  { label: 'Längsta svit', value: finalStats.longestStreak },
+                  ...(finalStats.hints > 0 ? [{ label: 'Tips', value: finalStats.hints }] : []),
+                ].map(({ label, value }) => (
+                  <div
+                    key={label}
+                    style={{
+                      background: 'rgba(255,255,255,0.85)',
+                      borderRadius: 14,
+                      padding: '8px 14px',
+                      minWidth: 76,
+                      textAlign: 'center',
+                      color: '#6b5a45',
+                      boxShadow: '0 1px 8px rgba(0,0,0,0.15)',
+                    }}
+                  >
+                    <div style={{ fontSize: 18, fontWeight: 700 }}>{value}</div>
+                    <div style={{ fontSize: 11, fontWeight: 500, color: '#9a7a50' }}>{label}</div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       )}
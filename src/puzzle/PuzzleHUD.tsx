@@ -1,16 +1,74 @@
 /**
  * PuzzleHUD — minimal floating HUD overlay.
  * Sits at the top of the screen with pointer-events: none so it never
- * blocks touches on the puzzle canvas.
+ * blocks touches on the puzzle canvas; only the undo/redo and hint buttons
+ * and the progress pill (tap to show or hide the play clock) take taps.
  */
 
+import { useEffect, useState } from 'react';
+import { formatPlayTime } from './stats';
+import type { HintKind } from './hints';
+
 interface PuzzleHUDProps {
   placedCount: number;
   total: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  showClock: boolean;
+  /** Active play time in ms, read once a second while the clock is shown */
+  playTime: () => number;
+  onToggleClock: () => void;
+  /** Not set in "no hints" mode — the hint buttons are hidden */
+  onHint?: (kind: HintKind) => void;
+  canHintSlot: boolean;
+  canHintNeighbour: boolean;
+}
+
+function historyBtnStyle(enabled: boolean): React.CSSProperties {
+  return {
+    width: 30,
+    height: 30,
+    borderRadius: 999,
+    border: 'none',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    background: 'rgba(255,255,255,0.85)',
+    backdropFilter: 'blur(8px)',
+    WebkitBackdropFilter: 'blur(8px)',
+    boxShadow: '0 1px 8px rgba(0,0,0,0.10)',
+    color: '#6b5a45',
+    opacity: enabled ? 1 : 0.4,
+    pointerEvents: enabled ? 'auto' : 'none',
+    cursor: 'pointer',
+  };
 }
 
-export default function PuzzleHUD({ placedCount, total }: PuzzleHUDProps) {
+export default function PuzzleHUD({
+  placedCount,
+  total,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  showClock,
+  playTime,
+  onToggleClock,
+  onHint,
+  canHintSlot,
+  canHintNeighbour,
+}: PuzzleHUDProps) {
   const pct = total > 0 ? Math.round((placedCount / total) * 100) : 0;
+  const [clockMs, setClockMs] = useState(0);
+
+  useEffect(() => {
+    if (!showClock) return;
+    setClockMs(playTime());
+    const timer = setInterval(() => setClockMs(playTime()), 1000);
+    return () => clearInterval(timer);
+  }, [showClock, playTime]);
 
   return (
     <div
@@ -21,12 +79,25 @@ export default function PuzzleHUD({ placedCount, total }: PuzzleHUDProps) {
         right: 0,
         display: 'flex',
         justifyContent: 'center',
+        alignItems: 'center',
+        gap: 8,
         zIndex: 60,
         pointerEvents: 'none',
       }}
     >
-      <div
+      <button onClick={onUndo} disabled={!canUndo} style={historyBtnStyle(canUndo)} aria-label="Ångra">
+        <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round" strokeLinejoin="round">
+          <path d="M9 14L4 9l5-5"/>
+          <path d="M4 9h10.5a5.5 5.5 0 0 1 0 11H11"/>
+        </svg>
+      </button>
+      <button
+        onClick={onToggleClock}
+        aria-label={showClock ? 'Dölj klockan' : 'Visa klockan'}
         style={{
+          border: 'none',
+          pointerEvents: 'auto',
+          cursor: 'pointer',
           background: 'rgba(255,255,255,0.85)',
           backdropFilter: 'blur(8px)',
           WebkitBackdropFilter: 'blur(8px)',
@@ -53,7 +124,44 @@ export default function PuzzleHUD({ placedCount, total }: PuzzleHUDProps) {
             {pct}%
           </span>
         )}
-      </div>
+        {showClock && (
+          <span style={{ fontVariantNumeric: 'tabular-nums' }}>
+            {formatPlayTime(clockMs)}
+          </span>
+        )}
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} style={historyBtnStyle(canRedo)} aria-label="Gör om">
+        <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round" strokeLinejoin="round">
+          <path d="M15 14l5-5-5-5"/>
+          <path d="M20 9H9.5a5.5 5.5 0 0 0 0 11H13"/>
+        </svg>
+      </button>
+      {onHint && (
+        <>
+          <button
+            onClick={() => onHint('slot')}
+            disabled={!canHintSlot}
+            style={historyBtnStyle(canHintSlot)}
+            aria-label="Var ska biten ligga?"
+          >
+            <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M12 21s-7-6.2-7-11.5a7 7 0 0 1 14 0C19 14.8 12 21 12 21z"/>
+              <circle cx="12" cy="9.5" r="2.5"/>
+            </svg>
+          </button>
+          <button
+            onClick={() => onHint('neighbour')}
+            disabled={!canHintNeighbour}
+            style={historyBtnStyle(canHintNeighbour)}
+            aria-label="Hitta en granne"
+          >
+            <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round" strokeLinejoin="round">
+              <circle cx="11" cy="11" r="6.5"/>
+              <path d="M20 20l-4.3-4.3"/>
+            </svg>
+          </button>
+        </>
+      )}
     </div>
   );
 }
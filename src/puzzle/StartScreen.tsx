@@ -1,23 +1,51 @@
-import { useRef, useState } from 'react';
+import { useDeferredValue, useMemo, useRef, useState } from 'react';
+import { CutStyle, PuzzleOptions, RotationMode, generatePuzzle, DEFAULT_PUZZLE_OPTIONS } from './generator';
+import { Tiling, LatticeLayout, Point, countTilingPieces } from './tiling';
+import { MaskShape, maskPolygon, traceAlphaOutline } from './mask';
+import { CUSTOM_TARGET_MAX, CUSTOM_TARGET_MIN, DIFFICULTIES, computeMaskedGrid } from './difficulty';
+import { fittedPieceSize } from './boardLayout';
+import { FINGER_PX, maxZoomFor } from './camera';
 
-const DIFFICULTIES = [
-  { label: 'Medel', target: 48, desc: '~48 bitar' },
-  { label: 'Svår', target: 108, desc: '~108 bitar' },
-  { label: 'Expert', target: 280, desc: '~280 bitar' },
-  { label: 'Mästare', target: 400, desc: '~400 bitar' },
+const ROTATION_MODES: { mode: RotationMode; label: string; desc: string }[] = [
+  { mode: 'none', label: 'Av', desc: 'rätt väg upp' },
+  { mode: 'quarter', label: '90°', desc: 'kvartsvarv' },
+  { mode: 'free', label: 'Fri', desc: 'valfri vinkel' },
 ];
 
-/**
- * Compute cols × rows so that each piece is approximately square,
- * regardless of image orientation.
- */
-function computeGrid(target: number, imgW: number, imgH: number): { cols: number; rows: number } {
-  const aspect = imgW / imgH;
-  let cols = Math.round(Math.sqrt(target * aspect));
-  cols = Math.max(cols, 2);
-  let rows = Math.round(target / cols);
-  rows = Math.max(rows, 2);
-  return { cols, rows };
+const CUT_STYLES: { style: CutStyle; label: string; icon: string }[] = [
+  { style: 'classic', label: 'Klassisk', icon: '🧩' },
+  { style: 'whimsy', label: 'Fantasi', icon: '✨' },
+  { style: 'wavy', label: 'Vågig', icon: '〰️' },
+  { style: 'straight', label: 'Raka', icon: '⬜' },
+];
+
+const TILINGS: { tiling: Tiling; label: string; icon: string }[] = [
+  { tiling: 'square', label: 'Rutor', icon: '▦' },
+  { tiling: 'hex', label: 'Hexagon', icon: '⬡' },
+  { tiling: 'triangle', label: 'Trianglar', icon: '△' },
+];
+
+const MASKS: { mask: MaskShape; label: string; icon: string }[] = [
+  { mask: 'none', label: 'Ingen', icon: '▭' },
+  { mask: 'circle', label: 'Cirkel', icon: '◯' },
+  { mask: 'heart', label: 'Hjärta', icon: '♡' },
+  { mask: 'image', label: 'Bildens form', icon: '✂️' },
+];
+
+/** Pieces a target count really gives: masked boards are generated, since dropped cells can't be counted up front */
+function countPieces(
+  target: number,
+  image: HTMLImageElement,
+  tiling: Tiling,
+  mask: MaskShape,
+  maskOutline: Point[] | null,
+): number {
+  const w = image.naturalWidth;
+  const h = image.naturalHeight;
+  const g = computeMaskedGrid(target, w, h, tiling, mask, maskOutline);
+  if (mask === 'none') return countTilingPieces(tiling, g.cols, g.rows);
+  const options = { ...DEFAULT_PUZZLE_OPTIONS, tiling, mask, maskOutline };
+  return generatePuzzle(w, h, g.cols, g.rows, 42, options).pieces.length;
 }
 
 interface Props {
@@ -28,6 +56,7 @@ interface Props {
     rows: number,
     imageUrl: string,
     imageIsPicsum: boolean,
+    options: PuzzleOptions,
   ) => void;
 }
 
@@ -37,6 +66,16 @@ export default function StartScreen({ onBack, onStart }: Props) {
   const [imageUrl, setImageUrl] = useState<string>('');
   const [imageIsPicsum, setImageIsPicsum] = useState(false);
   const [difficulty, setDifficulty] = useState(1);
+  // Target from the custom slider; null = the chosen difficulty's target
+  const [customTarget, setCustomTarget] = useState<number | null>(null);
+  const [rotationMode, setRotationMode] = useState<RotationMode>('none');
+  const [cutStyle, setCutStyle] = useState<CutStyle>('classic');
+  const [tiling, setTiling] = useState<Tiling>('square');
+  const [layout, setLayout] = useState<LatticeLayout>('grid');
+  const [mask, setMask] = useState<MaskShape>('none');
+  const [noHints, setNoHints] = useState(false);
+  // Outline of the image's opaque area, when it is a PNG with transparency
+  const [maskOutline, setMaskOutline] = useState<Point[] | null>(null);
   const [loading, setLoading] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -49,6 +88,9 @@ export default function StartScreen({ onBack, onStart }: Props) {
       setImageEl(img);
       setImageUrl(originalUrl);
       setImageIsPicsum(isPicsum);
+      const traced = traceAlphaOutline(img);
+      setMaskOutline(traced);
+      if (!traced) setMask(m => (m === 'image' ? 'none' : m));
       setLoading(false);
     };
     img.onerror = () => setLoading(false);
@@ -74,13 +116,44 @@ export default function StartScreen({ onBack, onStart }: Props) {
     if (file) handleFile(file);
   }
 
+  const target = customTarget ?? DIFFICULTIES[difficulty].target;
+  const grid = imageEl
+    ? computeMaskedGrid(target, imageEl.naturalWidth, imageEl.naturalHeight, tiling, mask, maskOutline)
+    : null;
+
   function startGame() {
-    if (!imageEl) return;
-    const d = DIFFICULTIES[difficulty];
-    const { cols, rows } = computeGrid(d.target, imageEl.naturalWidth, imageEl.naturalHeight);
-    onStart(imageEl, cols, rows, imageUrl, imageIsPicsum);
+    if (!imageEl || !grid) return;
+    const { cols, rows } = grid;
+    onStart(imageEl, cols, rows, imageUrl, imageIsPicsum, {
+      rotationMode,
+      cutStyle,
+      tiling,
+      layout,
+      mask,
+      maskOutline: mask === 'image' ? maskOutline : null,
+      noHints,
+    });
   }
 
+  // Piece count per difficulty
+  const pieceCounts = useMemo(() => {
+    if (!imageEl) return DIFFICULTIES.map(d => d.target);
+    return DIFFICULTIES.map(d => countPieces(d.target, imageEl, tiling, mask, maskOutline));
+  }, [imageEl, tiling, mask, maskOutline]);
+
+  // Masked boards are generated to be counted, so let the slider run ahead of the count
+  const deferredCustom = useDeferredValue(customTarget);
+  const customCount = useMemo(() => {
+    if (deferredCustom === null || !imageEl) return deferredCustom;
+    return countPieces(deferredCustom, imageEl, tiling, mask, maskOutline);
+  }, [deferredCustom, imageEl, tiling, mask, maskOutline]);
+
+  // Piece size on this screen with the board fitted (no zoom)
+  const pieceSize = imageEl && grid
+    ? fittedPieceSize(window.innerWidth, window.innerHeight, imageEl.naturalWidth, imageEl.naturalHeight, grid.cols, grid.rows)
+    : null;
+  const maskPoly = imageEl ? maskPolygon(mask, imageEl.naturalWidth, imageEl.naturalHeight, maskOutline) : null;
+
   function useDemoImage() {
     const url = 'https://picsum.photos/seed/puzzle/1200/800';
     loadImageFrom(url, true, url);
@@ -118,7 +191,7 @@ export default function StartScreen({ onBack, onStart }: Props) {
           className="relative w-full max-w-sm aspect-[4/3] rounded-2xl border-2 border-dashed border-stone-300 bg-white/60 flex items-center justify-center cursor-pointer overflow-hidden active:bg-stone-100 transition-colors"
         >
           {preview ? (
-            <img src={preview} className="w-full h-full object-cover" alt="Preview" />
+            <img src={preview} className="w-full h-full object-contain" alt="Preview" />
           ) : (
             <div className="text-center p-6">
               <div className="text-4xl mb-3">🖼️</div>
@@ -126,6 +199,15 @@ export default function StartScreen({ onBack, onStart }: Props) {
               <p className="text-stone-400 text-xs mt-1">eller dra & släpp</p>
             </div>
           )}
+          {preview && imageEl && grid && (
+            <GridPreview
+              width={imageEl.naturalWidth}
+              height={imageEl.naturalHeight}
+              cols={grid.cols}
+              rows={grid.rows}
+              outline={maskPoly}
+            />
+          )}
           {loading && (
             <div className="absolute inset-0 bg-white/70 flex items-center justify-center">
               <div className="w-8 h-8 border-4 border-amber-600 border-t-transparent rounded-full animate-spin" />
@@ -154,15 +236,16 @@ export default function StartScreen({ onBack, onStart }: Props) {
           <p className="text-stone-600 text-sm font-medium mb-3 text-center">Svårighetsgrad</p>
           <div className="grid grid-cols-4 gap-2">
             {DIFFICULTIES.map((d, i) => {
-              const count = imageEl
-                ? (() => { const g = computeGrid(d.target, imageEl.naturalWidth, imageEl.naturalHeight); return g.cols * g.rows; })()
-                : d.target;
+              const count = pieceCounts[i];
               return (
                 <button
                   key={d.label}
-                  onClick={() => setDifficulty(i)}
+                  onClick={() => {
+                    setDifficulty(i);
+                    setCustomTarget(null);
+                  }}
                   className={`rounded-xl py-3 px-1 text-center transition-all ${
-                    difficulty === i
+                    customTarget === null && difficulty === i
                       ? 'bg-amber-700 text-white shadow-md scale-105'
                       : 'bg-white/70 text-stone-600 border border-stone-200'
                   }`}
@@ -172,6 +255,175 @@ export default function StartScreen({ onBack, onStart }: Props) {
                 </button>
               );
             })}
+            <button
+              onClick={() => setCustomTarget(t => t ?? DIFFICULTIES[difficulty].target)}
+              className={`rounded-xl py-3 px-1 text-center transition-all ${
+                customTarget !== null
+                  ? 'bg-amber-700 text-white shadow-md scale-105'
+                  : 'bg-white/70 text-stone-600 border border-stone-200'
+              }`}
+            >
+              <div className="font-semibold text-sm">Eget</div>
+              <div className="text-xs opacity-70 mt-0.5">
+                {customCount === null ? 'välj antal' : `${customCount} bitar`}
+              </div>
+            </button>
+          </div>
+          {customTarget !== null && (
+            <input
+              type="range"
+              min={CUSTOM_TARGET_MIN}
+              max={CUSTOM_TARGET_MAX}
+              value={customTarget}
+              onChange={e => setCustomTarget(Number(e.target.value))}
+              className="w-full mt-4 accent-amber-700"
+              aria-label="Antal bitar"
+            />
+          )}
+          {grid && pieceSize !== null && (
+            <p className="text-stone-400 text-xs mt-2 text-center">
+              {grid.cols} × {grid.rows} rutor · bitarna blir ca {Math.round(pieceSize)} px på den här skärmen
+            </p>
+          )}
+          {pieceSize !== null && pieceSize < FINGER_PX && (
+            <p className="text-amber-800 text-xs mt-2 text-center">
+              ⚠️ Bitarna blir mindre än en fingertopp. Zooma in med två fingrar
+              (upp till {Math.round(maxZoomFor(pieceSize))}×) för att lägga dem.
+            </p>
+          )}
+        </div>
+
+        {/* Tiling */}
+        <div className="w-full max-w-sm">
+          <p className="text-stone-600 text-sm font-medium mb-3 text-center">Mönster</p>
+          <div className="grid grid-cols-3 gap-2">
+            {TILINGS.map(t => (
+              <button
+                key={t.tiling}
+                onClick={() => setTiling(t.tiling)}
+                className={`rounded-xl py-3 px-1 text-center transition-all ${
+                  tiling === t.tiling
+                    ? 'bg-amber-700 text-white shadow-md scale-105'
+                    : 'bg-white/70 text-stone-600 border border-stone-200'
+                }`}
+              >
+                <div className="text-lg leading-none">{t.icon}</div>
+                <div className="font-semibold text-xs mt-1">{t.label}</div>
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setLayout(l => (l === 'grid' ? 'realistic' : 'grid'))}
+            className={`w-full mt-2 rounded-xl py-2 px-3 text-xs font-medium transition-all ${
+              layout === 'realistic'
+                ? 'bg-amber-700 text-white shadow-md'
+                : 'bg-white/70 text-stone-600 border border-stone-200'
+            }`}
+          >
+            {layout === 'realistic' ? '✓ Oregelbundna bitar' : 'Oregelbundna bitar'}
+          </button>
+        </div>
+
+        {/* Mask */}
+        <div className="w-full max-w-sm">
+          <p className="text-stone-600 text-sm font-medium mb-3 text-center">Form</p>
+          <div className="grid grid-cols-4 gap-2">
+            {MASKS.map(m => {
+              const disabled = m.mask === 'image' && !maskOutline;
+              return (
+                <button
+                  key={m.mask}
+                  onClick={() => setMask(m.mask)}
+                  disabled={disabled}
+                  className={`rounded-xl py-3 px-1 text-center transition-all ${
+                    mask === m.mask
+                      ? 'bg-amber-700 text-white shadow-md scale-105'
+                      : disabled
+                        ? 'bg-white/40 text-stone-300 border border-stone-200'
+                        : 'bg-white/70 text-stone-600 border border-stone-200'
+                  }`}
+                >
+                  <div className="text-lg leading-none">{m.icon}</div>
+                  <div className="font-semibold text-xs mt-1">{m.label}</div>
+                </button>
+              );
+            })}
+          </div>
+          {!maskOutline && (
+            <p className="text-stone-400 text-xs mt-2 text-center">
+              Bildens form kräver en PNG med genomskinlig bakgrund
+            </p>
+          )}
+        </div>
+
+        {/* Cut style */}
+        <div className="w-full max-w-sm">
+          <p className="text-stone-600 text-sm font-medium mb-3 text-center">Bitform</p>
+          <div className="grid grid-cols-4 gap-2">
+            {CUT_STYLES.map(c => (
+              <button
+                key={c.style}
+                onClick={() => setCutStyle(c.style)}
+                className={`rounded-xl py-3 px-1 text-center transition-all ${
+                  cutStyle === c.style
+                    ? 'bg-amber-700 text-white shadow-md scale-105'
+                    : 'bg-white/70 text-stone-600 border border-stone-200'
+                }`}
+              >
+                <div className="text-lg leading-none">{c.icon}</div>
+                <div className="font-semibold text-xs mt-1">{c.label}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Rotation */}
+        <div className="w-full max-w-sm">
+          <p className="text-stone-600 text-sm font-medium mb-3 text-center">Rotera bitar</p>
+          <div className="grid grid-cols-3 gap-2">
+            {ROTATION_MODES.map(r => (
+              <button
+                key={r.mode}
+                onClick={() => setRotationMode(r.mode)}
+                className={`rounded-xl py-3 px-1 text-center transition-all ${
+                  rotationMode === r.mode
+                    ? 'bg-amber-700 text-white shadow-md scale-105'
+                    : 'bg-white/70 text-stone-600 border border-stone-200'
+                }`}
+              >
+                <div className="font-semibold text-sm">{r.label}</div>
+                <div className="text-xs opacity-70 mt-0.5">{r.desc}</div>
+              </button>
+            ))}
+          </div>
+          {rotationMode !== 'none' && (
+            <p className="text-stone-400 text-xs mt-2 text-center">
+              Dubbeltryck eller vrid med två fingrar för att rotera en bit
+            </p>
+          )}
+        </div>
+
+        {/* Hints */}
+        <div className="w-full max-w-sm">
+          <p className="text-stone-600 text-sm font-medium mb-3 text-center">Tips</p>
+          <div className="grid grid-cols-2 gap-2">
+            {[
+              { value: false, label: 'På', desc: 'visa var bitar hör hemma' },
+              { value: true, label: 'Utan tips', desc: 'för utmaningar' },
+            ].map(h => (
+              <button
+                key={h.label}
+                onClick={() => setNoHints(h.value)}
+                className={`rounded-xl py-3 px-1 text-center transition-all ${
+                  noHints === h.value
+                    ? 'bg-amber-700 text-white shadow-md scale-105'
+                    : 'bg-white/70 text-stone-600 border border-stone-200'
+                }`}
+              >
+                <div className="font-semibold text-sm">{h.label}</div>
+                <div className="text-xs opacity-70 mt-0.5">{h.desc}</div>
+              </button>
+            ))}
           </div>
         </div>
 
@@ -191,3 +443,41 @@ export default function StartScreen({ onBack, onStart }: Props) {
     </div>
   );
 }
+
+/**
+ * The lattice a grid cuts the image into, drawn over the preview image
+ * (object-contain, so the same viewBox lines up). Cells only — the cut
+ * shapes come from generatePuzzle once the puzzle starts.
+ */
+function GridPreview({ width, height, cols, rows, outline }: {
+  width: number;
+  height: number;
+  cols: number;
+  rows: number;
+  outline: Point[] | null;
+}) {
+  let d = '';
+  for (let c = 1; c < cols; c++) d += `M${(c * width) / cols} 0V${height}`;
+  for (let r = 1; r < rows; r++) d += `M0 ${(r * height) / rows}H${width}`;
+  const points = outline?.map(p => `${p.x},${p.y}`).join(' ');
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {points && (
+        <clipPath id="grid-preview-mask">
+          <polygon points={points} />
+        </clipPath>
+      )}
+      <g clipPath={points ? 'url(#grid-preview-mask)' : undefined}>
+        <path d={d} stroke="rgba(0,0,0,0.35)" strokeWidth={2} vectorEffect="non-scaling-stroke" fill="none" />
+        <path d={d} stroke="rgba(255,255,255,0.85)" strokeWidth={1} vectorEffect="non-scaling-stroke" fill="none" />
+      </g>
+      {points && (
+        <polygon points={points} stroke="rgba(255,255,255,0.9)" strokeWidth={1.5} vectorEffect="non-scaling-stroke" fill="none" />
+      )}
+    </svg>
+  );
+}
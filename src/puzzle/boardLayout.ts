@@ -0,0 +1,58 @@
+/**
+ * Where the board sits on the table: the largest rectangle of the image's
+ * aspect that fits between the HUD and the tray handle. PuzzleCanvas lays
+ * the board out with fitBoard; the start screen uses the same fit to tell
+ * how big the pieces will be on this screen before the puzzle is made.
+ */
+
+import { DRAWER_PEEK_HEIGHT } from './DrawerTray';
+
+export const BOARD_PAD_TOP = 36; // space for HUD pill + iPad status bar
+export const BOARD_PAD_SIDE = 2;
+export const BOARD_PAD_BOTTOM = DRAWER_PEEK_HEIGHT - 10;
+
+export interface BoardRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Board rectangle for an image of `aspect` (width / height) on a canvas of canvasW × canvasH CSS px. */
+export function fitBoard(canvasW: number, canvasH: number, aspect: number): BoardRect {
+  const boardMaxW = canvasW - BOARD_PAD_SIDE * 2;
+  const boardMaxH = canvasH - BOARD_PAD_TOP - BOARD_PAD_BOTTOM;
+
+  // Fill the available rectangle as much as possible
+  let w: number, h: number;
+  if (boardMaxW / boardMaxH > aspect) {
+    // Tall-constrained: height is the limit
+    h = boardMaxH;
+    w = h * aspect;
+  } else {
+    // Wide-constrained: width is the limit
+    w = boardMaxW;
+    h = w / aspect;
+  }
+
+  const x = Math.round((canvasW - w) / 2);
+  // Push board toward the top so more space is left for the drawer
+  const y = Math.round(BOARD_PAD_TOP + Math.min((boardMaxH - h) * 0.2, 8));
+  return { x, y, w, h };
+}
+
+/**
+ * On-screen size (CSS px, unzoomed) of the short side of a lattice cell when
+ * an imgW × imgH image cut into cols × rows is fitted to the canvas.
+ */
+export function fittedPieceSize(
+  canvasW: number,
+  canvasH: number,
+  imgW: number,
+  imgH: number,
+  cols: number,
+  rows: number,
+): number {
+  const board = fitBoard(canvasW, canvasH, imgW / imgH);
+  return Math.min(board.w / cols, board.h / rows);
+}
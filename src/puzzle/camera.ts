@@ -0,0 +1,98 @@
+/**
+ * Board camera — zoom and pan for PuzzleCanvas.
+ *
+ * "World" coordinates are the canvas CSS pixels of the fitted layout that
+ * buildBoard produces (board centred, everything visible). Pieces, snapping
+ * and saves all live in world space; the camera only decides which part of
+ * it is on screen:
+ *
+ *   screen = world × zoom + (x, y)
+ *
+ * zoom = 1 with x = y = 0 is the fitted view. The camera never zooms out
+ * past it and never pans the world off screen. It zooms in to MAX_ZOOM, or
+ * further on boards with pieces too small for that (maxZoomFor).
+ */
+
+export interface Camera {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export const FIT_CAMERA: Camera = { zoom: 1, x: 0, y: 0 };
+
+export const MAX_ZOOM = 5;
+/** Upper bound for maxZoomFor, however small the pieces */
+const MAX_ZOOM_LARGE = 8;
+/** Smallest on-screen piece, in CSS px, a fingertip can pick up and place */
+export const FINGER_PX = 44;
+
+/** Zoom limit for a board whose pieces are `pieceSize` px across when fitted: enough to get them two fingers wide. */
+export function maxZoomFor(pieceSize: number): number {
+  return Math.min(MAX_ZOOM_LARGE, Math.max(MAX_ZOOM, (FINGER_PX * 2) / Math.max(pieceSize, 1)));
+}
+
+export function screenToWorld(cam: Camera, sx: number, sy: number): { x: number; y: number } {
+  return { x: (sx - cam.x) / cam.zoom, y: (sy - cam.y) / cam.zoom };
+}
+
+export function worldToScreen(cam: Camera, wx: number, wy: number): { x: number; y: number } {
+  return { x: wx * cam.zoom + cam.x, y: wy * cam.zoom + cam.y };
+}
+
+/** Keep zoom in range and the (viewW × viewH) world filling the screen. */
+export function clampCamera(cam: Camera, viewW: number, viewH: number, maxZoom = MAX_ZOOM): Camera {
+  const zoom = Math.min(maxZoom, Math.max(1, cam.zoom));
+  return {
+    zoom,
+    x: Math.min(0, Math.max(viewW - viewW * zoom, cam.x)),
+    y: Math.min(0, Math.max(viewH - viewH * zoom, cam.y)),
+  };
+}
+
+/**
+ * Camera for a pinch that started at `start` with two fingers at distance
+ * `startDist` around `startMid`, now at `dist` around `mid` (screen px).
+ * The world point under the starting midpoint follows the fingers.
+ */
+export function pinchCamera(
+  start: Camera,
+  startMid: { x: number; y: number },
+  startDist: number,
+  mid: { x: number; y: number },
+  dist: number,
+  viewW: number,
+  viewH: number,
+  maxZoom = MAX_ZOOM,
+): Camera {
+  const anchor = screenToWorld(start, startMid.x, startMid.y);
+  const zoom = Math.min(maxZoom, Math.max(1, start.zoom * (dist / Math.max(startDist, 1))));
+  return clampCamera({ zoom, x: mid.x - anchor.x * zoom, y: mid.y - anchor.y * zoom }, viewW, viewH, maxZoom);
+}
+
+/** Zoom by `factor` keeping the screen point (sx, sy) fixed. */
+export function zoomAt(
+  cam: Camera,
+  factor: number,
+  sx: number,
+  sy: number,
+  viewW: number,
+  viewH: number,
+  maxZoom = MAX_ZOOM,
+): Camera {
+  const anchor = screenToWorld(cam, sx, sy);
+  const zoom = Math.min(maxZoom, Math.max(1, cam.zoom * factor));
+  return clampCamera({ zoom, x: sx - anchor.x * zoom, y: sy - anchor.y * zoom }, viewW, viewH, maxZoom);
+}
+
+export function isFitCamera(cam: Camera): boolean {
+  return Math.abs(cam.zoom - 1) < 0.001 && Math.abs(cam.x) < 0.5 && Math.abs(cam.y) < 0.5;
+}
+
+export function lerpCamera(a: Camera, b: Camera, t: number): Camera {
+  return {
+    zoom: a.zoom + (b.zoom - a.zoom) * t,
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+  };
+}
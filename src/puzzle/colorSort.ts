@@ -1,69 +1,260 @@
 /**
- * Color-based piece sorting.
- * Computes the average hue of each piece's image region and returns a value 0–360.
- * Results are cached so sorting is instant after the first call.
+ * Colour-based piece sorting.
+ *
+ * Each piece gets a colour descriptor read from its clipped shape (knobs
+ * included, the background outside the outline left out):
+ *
+ *   palette     up to PALETTE_SIZE dominant colours from a small k-means,
+ *               heaviest first — a piece that is half sky, half roof keeps
+ *               both instead of averaging to a muddy in-between
+ *   lightness   share of pixels per lightness band (LIGHTNESS_BINS)
+ *   saturation  share of pixels per saturation band (SATURATION_BINS)
+ *
+ * colorSortKey turns that into a single sort key, and clusterColors
+ * groups the tray into colour bins the tray shows as tabs.
+ *
+ * readPieceColors works on any canvas, so the same code runs in the analysis
+ * worker (pieceAnalysis.ts, on an OffscreenCanvas) and in its main-thread
+ * fallback. Caching is up to pieceAnalysis.ts.
  */
 
-import { PieceDef } from './generator';
+import { PieceDef, buildPiecePath, KNOB_SCALE } from './generator';
 
-// Per-game cache keyed by piece id
-const hueCache = new Map<string, number>();
+export interface PaletteColor {
+  r: number;
+  g: number;
+  b: number;
+  h: number;
+  s: number;
+  l: number;
+  /** Share of the piece's pixels, 0–1 */
+  weight: number;
+}
+
+export interface ColorDescriptor {
+  palette: PaletteColor[];
+  lightness: number[];
+  saturation: number[];
+}
 
-/** Call this when a new puzzle is started to clear stale cache entries. */
-export function clearHueCache(): void {
-  hueCache.clear();
+export interface ColorBin {
+  /** CSS colour of the bin centre, for the tab swatch */
+  color: string;
+  pieceIds: string[];
 }
 
+export const PALETTE_SIZE = 3;
+export const LIGHTNESS_BINS = 4;
+export const SATURATION_BINS = 4;
+/** Pieces are read at this many px along their longer side */
+const SAMPLE_SIZE = 20;
+/** Below this saturation a colour counts as grey */
+const GREY_SATURATION = 0.15;
+/** A palette colour this big puts the piece in a second colour bin */
+const MIN_BIN_SHARE = 0.3;
+
 /**
- * Get the average hue (0–360) of the piece's image region.
- * Uses a single getImageData call for the full piece bounding box,
- * then samples a 5×5 grid within it — fast and accurate enough for sorting.
+ * Colour descriptor of the piece's clipped image area. `canvas` is scratch
+ * space: it is resized and drawn over.
  */
-export function getPieceHue(
+export function readPieceColors(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
   piece: PieceDef,
-  boardImage: HTMLCanvasElement,
+  boardImage: CanvasImageSource,
   boardW: number,
   boardH: number,
-): number {
-  const cached = hueCache.get(piece.id);
-  if (cached !== undefined) return cached;
-
-  const ctx = boardImage.getContext('2d');
-  if (!ctx) { hueCache.set(piece.id, 0); return 0; }
-
-  const sx = Math.round(piece.solvedX);
-  const sy = Math.round(piece.solvedY);
-  const sw = Math.min(Math.round(piece.width), boardW - sx);
-  const sh = Math.min(Math.round(piece.height), boardH - sy);
-
-  if (sw <= 0 || sh <= 0) { hueCache.set(piece.id, 0); return 0; }
-
-  const imageData = ctx.getImageData(sx, sy, sw, sh);
-  const data = imageData.data;
-
-  const SAMPLES = 5;
-  let sumH = 0;
-  let sumWeight = 0;
-
-  for (let ix = 1; ix <= SAMPLES; ix++) {
-    for (let iy = 1; iy <= SAMPLES; iy++) {
-      const px = Math.min(Math.round((ix / (SAMPLES + 1)) * sw), sw - 1);
-      const py = Math.min(Math.round((iy / (SAMPLES + 1)) * sh), sh - 1);
-      const idx = (py * sw + px) * 4;
-      const r = data[idx];
-      const g = data[idx + 1];
-      const b = data[idx + 2];
-      const { h, s } = rgbToHsl(r, g, b);
-      // Down-weight near-grey pixels so they don't skew the hue
-      const weight = Math.max(0.05, s);
-      sumH += h * weight;
-      sumWeight += weight;
-    }
+): ColorDescriptor {
+  const pad = piece.knobUnit * KNOB_SCALE;
+  const natW = piece.width + pad * 2;
+  const natH = piece.height + pad * 2;
+  const scale = SAMPLE_SIZE / Math.max(natW, natH);
+  const w = Math.max(1, Math.round(natW * scale));
+  const h = Math.max(1, Math.round(natH * scale));
+
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as
+    CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) return describePixels([]);
+
+  ctx.clearRect(0, 0, w, h);
+  ctx.save();
+  ctx.scale(scale, scale);
+  ctx.translate(pad, pad);
+  ctx.clip(buildPiecePath(piece, KNOB_SCALE));
+  ctx.drawImage(boardImage, -piece.solvedX, -piece.solvedY, boardW, boardH);
+  ctx.restore();
+
+  return describePixels(ctx.getImageData(0, 0, w, h).data);
+}
+
+/**
+ * Sort key for the piece's dominant colour: its hue (0–360) for coloured
+ * pieces; greys sort after every colour, dark to light (360–460).
+ */
+export function colorSortKey(descriptor: ColorDescriptor): number {
+  const dominant = descriptor.palette[0];
+  if (!dominant) return 0;
+  return dominant.s < GREY_SATURATION ? 360 + dominant.l * 100 : dominant.h;
+}
+
+/** Descriptor for RGBA pixel data; pixels that are mostly transparent are skipped. */
+export function describePixels(rgba: ArrayLike<number>): ColorDescriptor {
+  const pixels: number[][] = [];
+  const lightness = new Array<number>(LIGHTNESS_BINS).fill(0);
+  const saturation = new Array<number>(SATURATION_BINS).fill(0);
+  for (let i = 0; i + 3 < rgba.length; i += 4) {
+    if (rgba[i + 3] < 128) continue;
+    const r = rgba[i];
+    const g = rgba[i + 1];
+    const b = rgba[i + 2];
+    pixels.push([r, g, b]);
+    const { s, l } = rgbToHsl(r, g, b);
+    lightness[Math.min(LIGHTNESS_BINS - 1, Math.floor(l * LIGHTNESS_BINS))]++;
+    saturation[Math.min(SATURATION_BINS - 1, Math.floor(s * SATURATION_BINS))]++;
+  }
+  if (pixels.length === 0) return { palette: [], lightness, saturation };
+
+  const { centroids, assignment } = kMeans(pixels, pixels.map(() => 1), PALETTE_SIZE);
+  const counts = centroids.map((_, c) => assignment.filter(a => a === c).length);
+  const palette = centroids
+    .map((c, i) => {
+      const [r, g, b] = c.map(Math.round);
+      return { r, g, b, ...rgbToHsl(r, g, b), weight: counts[i] / pixels.length };
+    })
+    .filter(p => p.weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  return {
+    palette,
+    lightness: lightness.map(n => n / pixels.length),
+    saturation: saturation.map(n => n / pixels.length),
+  };
+}
+
+/**
+ * Group pieces into at most `n` colour bins. Every palette colour of every
+ * piece takes part (weighted by its share), so a two-coloured piece can show
+ * up in the bin of each colour. Bins are ordered like colorSortKey:
+ * by hue, greys last.
+ */
+export function clusterColors(descriptors: Map<string, ColorDescriptor>, n: number): ColorBin[] {
+  const points: number[][] = [];
+  const weights: number[] = [];
+  const owners: { id: string; share: number; dominant: boolean }[] = [];
+  for (const [id, d] of descriptors) {
+    d.palette.forEach((c, i) => {
+      points.push(colorPoint(c));
+      weights.push(c.weight);
+      owners.push({ id, share: c.weight, dominant: i === 0 });
+    });
   }
+  if (points.length === 0) return [];
+
+  const { centroids, assignment } = kMeans(points, weights, n);
+  const members = centroids.map(() => new Set<string>());
+  assignment.forEach((c, i) => {
+    const owner = owners[i];
+    if (owner.dominant || owner.share >= MIN_BIN_SHARE) members[c].add(owner.id);
+  });
+
+  return centroids
+    .map((c, i) => ({ centre: fromColorPoint(c), pieceIds: [...members[i]] }))
+    .filter(b => b.pieceIds.length > 0)
+    .sort((a, b) => a.centre.key - b.centre.key)
+    .map(b => ({ color: b.centre.css, pieceIds: b.pieceIds }));
+}
+
+// ─── k-means ───────────────────────────────────────────────────────────────────
+
+/**
+ * Weighted k-means. Deterministic: seeded with the heaviest point, then
+ * each next centre is the point furthest (by weight × distance²) from the
+ * ones picked so far.
+ */
+export function kMeans(
+  points: number[][],
+  weights: number[],
+  k: number,
+  iterations = 10,
+): { centroids: number[][]; assignment: number[] } {
+  const count = Math.min(k, points.length);
+  if (count === 0) return { centroids: [], assignment: [] };
+
+  let first = 0;
+  weights.forEach((w, i) => { if (w > weights[first]) first = i; });
+  const centroids = [points[first].slice()];
+  const nearest = points.map(p => dist2(p, centroids[0]));
+  while (centroids.length < count) {
+    let next = -1;
+    let best = 0;
+    nearest.forEach((d, i) => {
+      if (d * weights[i] > best) {
+        best = d * weights[i];
+        next = i;
+      }
+    });
+    // Fewer distinct points than k
+    if (next < 0) break;
+    centroids.push(points[next].slice());
+    points.forEach((p, i) => { nearest[i] = Math.min(nearest[i], dist2(p, points[next])); });
+  }
+
+  const assignment = new Array<number>(points.length).fill(0);
+  for (let iter = 0; iter < iterations; iter++) {
+    let changed = false;
+    points.forEach((p, i) => {
+      let bestC = 0;
+      let bestD = Infinity;
+      centroids.forEach((c, ci) => {
+        const d = dist2(p, c);
+        if (d < bestD) {
+          bestD = d;
+          bestC = ci;
+        }
+      });
+      if (assignment[i] !== bestC) changed = true;
+      assignment[i] = bestC;
+    });
+    if (!changed && iter > 0) break;
+
+    centroids.forEach((c, ci) => {
+      const sum = c.map(() => 0);
+      let total = 0;
+      points.forEach((p, i) => {
+        if (assignment[i] !== ci) return;
+        p.forEach((v, dim) => { sum[dim] += v * weights[i]; });
+        total += weights[i];
+      });
+      // An emptied cluster keeps its old centre
+      if (total > 0) centroids[ci] = sum.map(v => v / total);
+    });
+  }
+  return { centroids, assignment };
+}
+
+function dist2(a: number[], b: number[]): number {
+  let d = 0;
+  for (let i = 0; i < a.length; i++) d += (a[i] - b[i]) ** 2;
+  return d;
+}
+
+// ─── Colour spaces ─────────────────────────────────────────────────────────────
+
+/**
+ * HSL as a cylinder: hue around, saturation out from the axis, lightness up.
+ * Greys sit near the axis and are told apart by lightness alone.
+ */
+function colorPoint(c: PaletteColor): number[] {
+  const a = (c.h * Math.PI) / 180;
+  return [c.s * Math.cos(a), c.s * Math.sin(a), c.l];
+}
 
-  const hue = sumWeight > 0 ? sumH / sumWeight : 0;
-  hueCache.set(piece.id, hue);
-  return hue;
+function fromColorPoint([x, y, l]: number[]): { css: string; key: number } {
+  const s = Math.min(1, Math.hypot(x, y));
+  const h = ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+  const key = s < GREY_SATURATION ? 360 + l * 100 : h;
+  return { css: `hsl(${Math.round(h)} ${Math.round(s * 100)}% ${Math.round(l * 100)}%)`, key };
 }
 
 function rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
@@ -0,0 +1,83 @@
+/**
+ * Difficulty levels offered on the start screen, and the grids they become.
+ *
+ * A level — or a count picked on the custom slider — is a target piece
+ * count; the actual grid depends on the image aspect, tiling and mask (see
+ * computeMaskedGrid), so a save only records its real piece count.
+ * difficultyIndexFor maps that count back to the closest level for
+ * statistics.
+ */
+
+import { Tiling, Point, polygonArea } from './tiling';
+import { MaskShape, maskPolygon } from './mask';
+
+export interface Difficulty {
+  label: string;
+  target: number;
+  desc: string;
+}
+
+export const DIFFICULTIES: Difficulty[] = [
+  { label: 'Medel', target: 48, desc: '~48 bitar' },
+  { label: 'Svår', target: 108, desc: '~108 bitar' },
+  { label: 'Expert', target: 280, desc: '~280 bitar' },
+  { label: 'Mästare', target: 400, desc: '~400 bitar' },
+  { label: 'Jätte', target: 500, desc: '~500 bitar' },
+  { label: 'Maraton', target: 750, desc: '~750 bitar' },
+  { label: 'Gigant', target: 1000, desc: '~1000 bitar' },
+];
+
+/** Range of the custom piece-count slider */
+export const CUSTOM_TARGET_MIN = 12;
+export const CUSTOM_TARGET_MAX = 1500;
+
+/** Index of the level whose target is closest to `pieceCount` (by ratio, not difference). */
+export function difficultyIndexFor(pieceCount: number): number {
+  let best = 0;
+  let bestDist = Infinity;
+  DIFFICULTIES.forEach((d, i) => {
+    const dist = Math.abs(Math.log(Math.max(1, pieceCount) / d.target));
+    if (dist < bestDist) {
+      best = i;
+      bestDist = dist;
+    }
+  });
+  return best;
+}
+
+// Width / height of one lattice cell for a regular-looking piece in each tiling
+const CELL_ASPECT: Record<Tiling, number> = {
+  square: 1,
+  hex: 0.866,   // hex row spacing is 0.866 × hex width
+  triangle: 1.732, // two triangles share one base-width per row
+};
+
+/**
+ * Compute cols × rows so that each piece is approximately regular
+ * (square / hexagon / triangle), regardless of image orientation.
+ */
+export function computeGrid(target: number, imgW: number, imgH: number, tiling: Tiling = 'square'): { cols: number; rows: number } {
+  const aspect = imgW / imgH;
+  let cols = Math.round(Math.sqrt(target * aspect * CELL_ASPECT[tiling]));
+  cols = Math.max(cols, 2);
+  let rows = Math.round(target / cols);
+  rows = Math.max(rows, 2);
+  return { cols, rows };
+}
+
+/**
+ * Grid for a masked board: the lattice is scaled up by how much of the image
+ * the mask covers, so roughly `target` pieces end up inside the outline.
+ */
+export function computeMaskedGrid(
+  target: number,
+  imgW: number,
+  imgH: number,
+  tiling: Tiling,
+  mask: MaskShape,
+  maskOutline: Point[] | null,
+): { cols: number; rows: number } {
+  const poly = maskPolygon(mask, imgW, imgH, maskOutline);
+  const coverage = poly ? polygonArea(poly) / (imgW * imgH) : 1;
+  return computeGrid(target / Math.max(coverage, 0.1), imgW, imgH, tiling);
+}
@@ -4,10 +4,74 @@
  * Each edge between two pieces gets a unique "tab" or "blank" shape.
  * The connector is a bezier-curve knob that protrudes from one side
  * and an identical indent on the adjacent piece — so they interlock perfectly.
+ * Alternative cut styles (whimsy, wavy, straight) reuse the same shared edge
+ * definitions and only change how an edge is drawn.
+ *
+ * Pieces are polygons: the square grid gives four edges per piece, hexagonal
+ * and triangular tilings (see tiling.ts) give six or three. With a mask (see
+ * mask.ts) the board outline is a shape and border pieces follow its curve.
  */
 
+import {
+  Tiling,
+  LatticeLayout,
+  Point,
+  TilingCell,
+  TilingCells,
+  squareCells,
+  hexCells,
+  triangleCells,
+  jitterCells,
+  clipPolygon,
+  polygonArea,
+  pointKey,
+  rectPolygon,
+  weldVertices,
+  loopsFromEdges,
+} from './tiling';
+import { MaskShape, maskPolygon } from './mask';
+
 export type EdgeType = 'tab' | 'blank' | 'flat'; // flat = outer border
 
+/**
+ * none    = pieces always lie the right way up (classic app behaviour)
+ * quarter = pieces are turned in 90° steps
+ * free    = pieces can be turned to any angle
+ */
+export type RotationMode = 'none' | 'quarter' | 'free';
+
+/**
+ * classic  = one Ravensburger-style knob per edge
+ * whimsy   = two smaller knobs per edge, one out and one in
+ * wavy     = smooth S-shaped edges with no knobs
+ * straight = plain square tiles (toddler mode)
+ */
+export type CutStyle = 'classic' | 'whimsy' | 'wavy' | 'straight';
+
+/** Per-puzzle settings chosen on the start screen and stored with the save. */
+export interface PuzzleOptions {
+  rotationMode: RotationMode;
+  cutStyle: CutStyle;
+  tiling: Tiling;
+  layout: LatticeLayout;
+  mask: MaskShape;
+  /** Normalised (0–1) outline for mask 'image', traced from the PNG alpha */
+  maskOutline?: Point[] | null;
+  /** "No hints" challenge mode: the hint buttons are hidden (see hints.ts) */
+  noHints?: boolean;
+}
+
+export const DEFAULT_PUZZLE_OPTIONS: PuzzleOptions = {
+  rotationMode: 'none',
+  cutStyle: 'classic',
+  tiling: 'square',
+  layout: 'grid',
+  mask: 'none',
+};
+
+/** Max corner displacement in the realistic layout, as a fraction of the knob unit. */
+const LATTICE_JITTER = 0.18;
+
 /** Shared constant so renderer, canvas, and tray all use the same knob scale. */
 export const KNOB_SCALE = 0.38;
 
@@ -24,8 +88,19 @@ export interface EdgeDef {
 export interface PieceDef {
   col: number;
   row: number;
-  /** top / right / bottom / left */
-  edges: [EdgeDef, EdgeDef, EdgeDef, EdgeDef];
+  /**
+   * Polygon corners in LOCAL coordinates (relative to the bounding box).
+   * edges[i] runs from corners[i] to corners[i + 1].
+   */
+  corners: Point[];
+  /** One per side; for the square grid: top / right / bottom / left */
+  edges: EdgeDef[];
+  /** Id of the piece across each edge, null on the outer border */
+  neighbours: (string | null)[];
+  /** How the edges are drawn — the same for every piece in a puzzle */
+  cut: CutStyle;
+  /** Base size for knobs; shared by all pieces so neighbours interlock */
+  knobUnit: number;
   /** pixel position of top-left corner on the solved board */
   solvedX: number;
   solvedY: number;
@@ -34,6 +109,8 @@ export interface PieceDef {
   y: number;
   width: number;
   height: number;
+  /** Degrees clockwise around the piece centre; 0 = solved orientation */
+  rotation: number;
   isPlaced: boolean;
   isSelected: boolean;
   id: string;
@@ -41,6 +118,7 @@ export interface PieceDef {
 }
 
 export interface PuzzleLayout {
+  tiling: Tiling;
   cols: number;
   rows: number;
   pieceWidth: number;
@@ -48,6 +126,8 @@ export interface PuzzleLayout {
   pieces: PieceDef[];
   boardWidth: number;
   boardHeight: number;
+  /** Board outline when the puzzle is masked, in board coordinates; null = full rectangle */
+  outline: Point[] | null;
 }
 
 // Seeded PRNG so the same puzzle can be recreated
@@ -61,6 +141,39 @@ function mulberry32(seed: number) {
   };
 }
 
+/** Normalise an angle in degrees into [0, 360). */
+export function normaliseRotation(deg: number): number {
+  const r = deg % 360;
+  return r < 0 ? r + 360 : r;
+}
+
+/** Smallest signed difference a − b between two angles, in degrees (−180, 180]. */
+export function rotationDelta(a: number, b: number): number {
+  const d = normaliseRotation(a - b);
+  return d > 180 ? d - 360 : d;
+}
+
+/** Rotate a vector clockwise (canvas y-down convention) by `deg` degrees. */
+export function rotateVec(x: number, y: number, deg: number): { x: number; y: number } {
+  if (deg === 0) return { x, y };
+  const rad = (deg * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+}
+
+function randomRotation(rng: () => number, mode: RotationMode): number {
+  if (mode === 'quarter') return Math.floor(rng() * 4) * 90;
+  if (mode === 'free') return rng() * 360;
+  return 0;
+}
+
+/** Give every piece a seeded starting rotation for the chosen rotation mode. */
+export function randomiseRotations(pieces: PieceDef[], mode: RotationMode, seed: number): void {
+  const rng = mulberry32(seed ^ 0x2f6b1c3d);
+  for (const piece of pieces) piece.rotation = randomRotation(rng, mode);
+}
+
 function makeEdge(rng: () => number, isFlat: boolean, isTab: boolean): EdgeDef {
   if (isFlat) return { type: 'flat', size: 1, offset: 0.5, tilt: 0 };
   return {
@@ -77,7 +190,33 @@ export function generatePuzzle(
   cols: number,
   rows: number,
   seed: number = 42,
+  options: PuzzleOptions = DEFAULT_PUZZLE_OPTIONS,
 ): PuzzleLayout {
+  const outline = maskPolygon(options.mask, imageWidth, imageHeight, options.maskOutline);
+  if (options.tiling !== 'square' || options.layout === 'realistic' || outline) {
+    const lattice: TilingCells =
+      options.tiling === 'hex' ? hexCells(imageWidth, imageHeight, cols, rows)
+      : options.tiling === 'triangle' ? triangleCells(imageWidth, imageHeight, cols, rows)
+      : squareCells(imageWidth, imageHeight, cols, rows);
+    const { knobUnit } = lattice;
+    const cells = options.layout === 'realistic'
+      ? jitterCells(lattice.cells, imageWidth, imageHeight, knobUnit * LATTICE_JITTER, seed)
+      : lattice.cells;
+    return {
+      tiling: options.tiling,
+      cols,
+      rows,
+      pieceWidth: imageWidth / cols,
+      pieceHeight: imageHeight / rows,
+      pieces: piecesFromCells(cells, imageWidth, imageHeight, knobUnit, options.cutStyle, mulberry32(seed), outline),
+      boardWidth: imageWidth,
+      boardHeight: imageHeight,
+      outline,
+    };
+  }
+
+  // The square grid keeps its original edge order so existing saves (which
+  // only store the seed) recreate exactly the same cut.
   const rng = mulberry32(seed);
   const pieceWidth = imageWidth / cols;
   const pieceHeight = imageHeight / rows;
@@ -137,13 +276,23 @@ export function generatePuzzle(
       pieces.push({
         col: c,
         row: r,
+        corners: rectPolygon(0, 0, pieceWidth, pieceHeight),
         edges: [topEdge, rightEdge, bottomEdge, leftEdge],
+        neighbours: [
+          r > 0 ? `${c}-${r - 1}` : null,
+          c < cols - 1 ? `${c + 1}-${r}` : null,
+          r < rows - 1 ? `${c}-${r + 1}` : null,
+          c > 0 ? `${c - 1}-${r}` : null,
+        ],
+        cut: options.cutStyle,
+        knobUnit: Math.min(pieceWidth, pieceHeight),
         solvedX: c * pieceWidth,
         solvedY: r * pieceHeight,
         x: 0,
         y: 0,
         width: pieceWidth,
         height: pieceHeight,
+        rotation: 0,
         isPlaced: false,
         isSelected: false,
         id: `${c}-${r}`,
@@ -153,6 +302,7 @@ export function generatePuzzle(
   }
 
   return {
+    tiling: 'square',
     cols,
     rows,
     pieceWidth,
@@ -160,14 +310,424 @@ export function generatePuzzle(
     pieces,
     boardWidth: imageWidth,
     boardHeight: imageHeight,
+    outline: null,
+  };
+}
+
+/** Mirror of a shared edge as seen from the neighbour that walks it backwards. */
+function reverseEdge(edge: EdgeDef): EdgeDef {
+  return {
+    ...edge,
+    type: edge.type === 'tab' ? 'blank' : edge.type === 'blank' ? 'tab' : 'flat',
+    offset: 1 - edge.offset,
+    tilt: -edge.tilt,
+  };
+}
+
+interface PieceCell extends TilingCell {
+  id: string;
+}
+
+// Drop repeated vertices left behind by clipping
+function dedupeVertices(poly: Point[]): Point[] {
+  return poly.filter((p, i) => pointKey(p) !== pointKey(poly[(i + 1) % poly.length]));
+}
+
+/** Masked cells smaller than this (× knobUnit²) are merged into a neighbour */
+const MASK_SLIVER = 0.3;
+
+/**
+ * Turn a list of lattice cells into pieces. Each polygon side shared by two
+ * cells becomes one tab/blank edge (canonical direction = how the first cell
+ * walks it); unshared sides are flat border edges.
+ */
+function piecesFromCells(
+  rawCells: TilingCell[],
+  boardW: number,
+  boardH: number,
+  knobUnit: number,
+  cut: CutStyle,
+  rng: () => number,
+  mask: Point[] | null = null,
+): PieceDef[] {
+  const board = rectPolygon(0, 0, boardW, boardH);
+  const minArea = knobUnit * knobUnit * 0.05;
+  let cells: PieceCell[] = [];
+  if (mask) {
+    cells = mergeSlivers(maskCells(rawCells, board, mask), knobUnit * knobUnit * MASK_SLIVER)
+      .filter(cell => polygonArea(cell.poly) >= minArea);
+  } else {
+    for (const cell of rawCells) {
+      let poly = clipPolygon(cell.poly, board);
+      if (polygonArea(poly) < 0) poly = [...poly].reverse();
+      poly = dedupeVertices(poly);
+      if (poly.length < 3 || polygonArea(poly) < minArea) continue;
+      cells.push({ ...cell, poly, id: `${cell.col}-${cell.row}` });
+    }
+  }
+
+  const edgeKey = (a: Point, b: Point) => {
+    const ka = pointKey(a);
+    const kb = pointKey(b);
+    return ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
   };
+  const owners = new Map<string, number[]>();
+  cells.forEach((cell, ci) => {
+    cell.poly.forEach((a, i) => {
+      const key = edgeKey(a, cell.poly[(i + 1) % cell.poly.length]);
+      const list = owners.get(key);
+      if (list) list.push(ci); else owners.set(key, [ci]);
+    });
+  });
+
+  const ids = cells.map(cell => cell.id);
+  const shared = new Map<string, { def: EdgeDef; from: string }>();
+
+  return cells.map((cell, ci) => {
+    const { poly } = cell;
+    const minX = Math.min(...poly.map(p => p.x));
+    const minY = Math.min(...poly.map(p => p.y));
+    const maxX = Math.max(...poly.map(p => p.x));
+    const maxY = Math.max(...poly.map(p => p.y));
+
+    const edges: EdgeDef[] = [];
+    const neighbours: (string | null)[] = [];
+    poly.forEach((a, i) => {
+      const b = poly[(i + 1) % poly.length];
+      const key = edgeKey(a, b);
+      const other = owners.get(key)!.find(o => o !== ci);
+      if (other === undefined) {
+        edges.push(makeEdge(rng, true, false));
+        neighbours.push(null);
+        return;
+      }
+      let entry = shared.get(key);
+      if (!entry) {
+        const isTab = rng() > 0.5;
+        entry = { def: makeEdge(rng, false, isTab), from: pointKey(a) };
+        shared.set(key, entry);
+      }
+      edges.push(entry.from === pointKey(a) ? entry.def : reverseEdge(entry.def));
+      neighbours.push(ids[other]);
+    });
+
+    return {
+      col: cell.col,
+      row: cell.row,
+      corners: poly.map(p => ({ x: p.x - minX, y: p.y - minY })),
+      edges,
+      neighbours,
+      cut,
+      knobUnit,
+      solvedX: minX,
+      solvedY: minY,
+      x: 0,
+      y: 0,
+      width: maxX - minX,
+      height: maxY - minY,
+      rotation: 0,
+      isPlaced: false,
+      isSelected: false,
+      id: ids[ci],
+      zIndex: 0,
+    };
+  });
 }
 
+/**
+ * Intersect every cell with the mask. The mask may be concave (heart, traced
+ * PNG), so one cell can fall apart into several regions; each becomes its own
+ * piece, the largest keeping the plain `${col}-${row}` id.
+ */
+function maskCells(rawCells: TilingCell[], board: Point[], mask: Point[]): PieceCell[] {
+  const clipped: { cell: TilingCell; poly: Point[] }[] = [];
+  for (const cell of rawCells) {
+    let region = clipPolygon(cell.poly, board);
+    if (polygonArea(region) < 0) region = [...region].reverse();
+    if (region.length < 3) continue;
+    // Mask is the (possibly concave) subject, the convex cell is the clip
+    const poly = clipPolygon(mask, region);
+    if (poly.length >= 3) clipped.push({ cell, poly });
+  }
+
+  const welded = weldVertices(clipped.map(c => c.poly), 0.05);
+  const cells: PieceCell[] = [];
+  clipped.forEach(({ cell }, i) => {
+    const parts = loopsFromEdges([dedupeVertices(welded[i])])
+      .map(dedupeVertices)
+      .filter(poly => poly.length >= 3 && polygonArea(poly) > 0)
+      .sort((a, b) => polygonArea(b) - polygonArea(a));
+    parts.forEach((poly, k) => {
+      const id = k === 0 ? `${cell.col}-${cell.row}` : `${cell.col}-${cell.row}-${k}`;
+      cells.push({ col: cell.col, row: cell.row, poly, id });
+    });
+  });
+  return cells;
+}
+
+/**
+ * Fold tiny pieces left at the mask border into the neighbour they share the
+ * longest side with, so the outline doesn't end up fringed with crumbs.
+ */
+function mergeSlivers(cells: PieceCell[], sliverArea: number): PieceCell[] {
+  const result = [...cells];
+  const slivers = cells
+    .filter(cell => polygonArea(cell.poly) < sliverArea)
+    .sort((a, b) => polygonArea(a.poly) - polygonArea(b.poly));
+
+  for (const sliver of slivers) {
+    const si = result.indexOf(sliver);
+    if (si < 0) continue;
+    const sides = new Map<string, number>();
+    sliver.poly.forEach((a, i) => {
+      const b = sliver.poly[(i + 1) % sliver.poly.length];
+      sides.set(`${pointKey(b)}>${pointKey(a)}`, Math.hypot(b.x - a.x, b.y - a.y));
+    });
+
+    let target = -1;
+    let best = 0;
+    result.forEach((cell, ci) => {
+      if (ci === si) return;
+      let shared = 0;
+      cell.poly.forEach((a, i) => {
+        const b = cell.poly[(i + 1) % cell.poly.length];
+        shared += sides.get(`${pointKey(a)}>${pointKey(b)}`) ?? 0;
+      });
+      if (shared > best) { best = shared; target = ci; }
+    });
+    if (target < 0) continue;
+
+    const union = loopsFromEdges([result[target].poly, sliver.poly]).map(dedupeVertices);
+    if (union.length !== 1) continue;
+    result[target] = { ...result[target], poly: union[0] };
+    result.splice(si, 1);
+  }
+  return result;
+}
+
+// ─── Edge shapes ─────────────────────────────────────────────────────────────
+//
+// Every cut style draws one edge from the current path point (x1, y1) to
+// (x2, y2). `edge.offset` / `edge.tilt` are already flipped for edges that are
+// traversed backwards (see generatePuzzle), so a style only has to be
+// symmetric under "reverse direction + flip type + offset → 1 − offset +
+// tilt → −tilt" for both neighbours to get the exact same curve.
+
+interface EdgeFrame {
+  x1: number; y1: number;
+  x2: number; y2: number;
+  /** Unit vector along the edge */
+  ex: number; ey: number;
+  /** Outward unit normal, already multiplied by the tab/blank direction */
+  nx: number; ny: number;
+  edgeLen: number;
+  /** Knob protrusion for this edge (shared by both neighbours) */
+  knobH: number;
+}
+
+type EdgeShape = (path: Path2D, f: EdgeFrame, edge: EdgeDef) => void;
+
+/** Point on the edge at `offset`, nudged sideways by the edge's tilt. */
+function knobCentre(f: EdgeFrame, edge: EdgeDef, offset: number): { cx: number; cy: number } {
+  const dx = f.x2 - f.x1;
+  const dy = f.y2 - f.y1;
+  return {
+    cx: f.x1 + dx * offset + f.ey * edge.tilt * f.edgeLen * 0.05,
+    cy: f.y1 + dy * offset - f.ex * edge.tilt * f.edgeLen * 0.05,
+  };
+}
+
+// ─── Ravensburger-style knob ────────────────────────────────────────────────
+//
+// Reference shape (cross-section of a tab):
+//
+//            ╭───╮
+//           │     │      ← large round head (nearly circular)
+//            ╰─┬─╯
+//              │         ← narrow neck
+//           ╱     ╲      ← concave undercut (dips INTO the piece)
+//     ─────╱       ╲───── edge line
+//
+// The undercut is the KEY feature that creates the classic "lock" feel.
+// The path dips slightly past the edge line (inward) before rising
+// through the neck into the round head.
+//
+// Draws from the current point to the right-hand base of the knob; the caller
+// continues the edge from there.
+function drawKnob(
+  path: Path2D,
+  cx: number, cy: number,
+  ex: number, ey: number,
+  nx: number, ny: number,
+  knobH: number,
+) {
+  // ── Proportions matching the red reference piece ──
+  // All sizes relative to knobH (the total outward protrusion)
+  const baseHW   = knobH * 0.42;   // half-width where knob departs from edge
+  const neckHW   = knobH * 0.20;   // half-width of the narrow neck
+  const headR    = knobH * 0.46;   // radius of the round head
+  const undercutD = knobH * 0.08;  // depth of undercut (INTO the piece)
+  const neckLen  = knobH * 0.28;   // neck length (edge → head bottom)
+  // tip height from edge = neckLen + headR*2 ≈ knobH*1.2 (generous protrusion)
+
+  // ── Key points ──
+
+  // Base: where the shape leaves the straight edge (wide)
+  const b1x = cx - ex * baseHW;
+  const b1y = cy - ey * baseHW;
+  const b2x = cx + ex * baseHW;
+  const b2y = cy + ey * baseHW;
+
+  // Undercut trough: dips INTO the piece (opposite of normal)
+  const u1x = cx - ex * neckHW * 1.1 - nx * undercutD;
+  const u1y = cy - ey * neckHW * 1.1 - ny * undercutD;
+  const u2x = cx + ex * neckHW * 1.1 - nx * undercutD;
+  const u2y = cy + ey * neckHW * 1.1 - ny * undercutD;
+
+  // Neck top: where narrow neck meets the head bottom
+  const n1x = cx - ex * neckHW + nx * neckLen;
+  const n1y = cy - ey * neckHW + ny * neckLen;
+  const n2x = cx + ex * neckHW + nx * neckLen;
+  const n2y = cy + ey * neckHW + ny * neckLen;
+
+  // Head centre
+  const hcx = cx + nx * (neckLen + headR);
+  const hcy = cy + ny * (neckLen + headR);
+
+  // Shoulder: widest point of head (at head centre height)
+  const s1x = hcx - ex * headR;
+  const s1y = hcy - ey * headR;
+  const s2x = hcx + ex * headR;
+  const s2y = hcy + ey * headR;
+
+  // Tip: top of head
+  const tipX = hcx + nx * headR;
+  const tipY = hcy + ny * headR;
+
+  // ── Path: 8 bezier segments ──
+  path.lineTo(b1x, b1y);
+
+  // 1. Left base → undercut trough (concave dip into piece)
+  path.bezierCurveTo(
+    b1x - nx * undercutD * 0.6,  b1y - ny * undercutD * 0.6,   // pull inward
+    u1x - nx * undercutD * 0.3,  u1y - ny * undercutD * 0.3,   // deep in undercut
+    u1x,                          u1y,                            // undercut trough
+  );
+
+  // 2. Undercut → neck top (S-curve: from inward dip up through narrow neck)
+  path.bezierCurveTo(
+    u1x + nx * neckLen * 0.4,    u1y + ny * neckLen * 0.4,     // rise from undercut
+    n1x - nx * neckLen * 0.2,    n1y - ny * neckLen * 0.2,     // approach neck top
+    n1x,                          n1y,                            // neck top
+  );
+
+  // 3. Neck top → shoulder (widen to head)
+  path.bezierCurveTo(
+    n1x + nx * headR * 0.15,     n1y + ny * headR * 0.15,      // slightly above neck
+    s1x - nx * headR * 0.6,      s1y - ny * headR * 0.6,       // approach shoulder from below
+    s1x,                          s1y,                            // left shoulder
+  );
+
+  // 4. Shoulder → tip (left half of head arc)
+  path.bezierCurveTo(
+    s1x + nx * headR * 0.56,     s1y + ny * headR * 0.56,      // circular arc control
+    tipX - ex * headR * 0.56,     tipY - ey * headR * 0.56,     // approach tip
+    tipX,                          tipY,                           // tip
+  );
+
+  // 5. Tip → right shoulder (right half of head arc — mirror of 4)
+  path.bezierCurveTo(
+    tipX + ex * headR * 0.56,     tipY + ey * headR * 0.56,     // leave tip
+    s2x + nx * headR * 0.56,      s2y + ny * headR * 0.56,      // circular arc control
+    s2x,                           s2y,                            // right shoulder
+  );
+
+  // 6. Right shoulder → neck top (narrow down — mirror of 3)
+  path.bezierCurveTo(
+    s2x - nx * headR * 0.6,       s2y - ny * headR * 0.6,       // below shoulder
+    n2x + nx * headR * 0.15,      n2y + ny * headR * 0.15,      // slightly above neck
+    n2x,                           n2y,                            // neck top
+  );
+
+  // 7. Neck top → undercut (mirror of 2)
+  path.bezierCurveTo(
+    n2x - nx * neckLen * 0.2,     n2y - ny * neckLen * 0.2,     // descend from neck
+    u2x + nx * neckLen * 0.4,     u2y + ny * neckLen * 0.4,     // approach undercut
+    u2x,                           u2y,                            // undercut trough
+  );
+
+  // 8. Undercut → right base (mirror of 1)
+  path.bezierCurveTo(
+    u2x - nx * undercutD * 0.3,   u2y - ny * undercutD * 0.3,   // deep in undercut
+    b2x - nx * undercutD * 0.6,   b2y - ny * undercutD * 0.6,   // pull inward
+    b2x,                           b2y,                            // right base
+  );
+}
+
+/** One classic knob per edge. */
+const classicEdge: EdgeShape = (path, f, edge) => {
+  const { cx, cy } = knobCentre(f, edge, edge.offset);
+  drawKnob(path, cx, cy, f.ex, f.ey, f.nx, f.ny, f.knobH);
+  path.lineTo(f.x2, f.y2);
+};
+
+/**
+ * Two smaller knobs per edge pointing opposite ways. The sign of the tilt
+ * picks which one sticks out; tilt is negated on the reversed edge, so both
+ * neighbours agree on the physical order.
+ */
+const whimsyEdge: EdgeShape = (path, f, edge) => {
+  const spread = 0.17;
+  const knobH = f.knobH * 0.62;
+  const first = edge.tilt < 0 ? -1 : 1;
+  for (const [offset, dir] of [[edge.offset - spread, first], [edge.offset + spread, -first]]) {
+    const { cx, cy } = knobCentre(f, edge, offset);
+    drawKnob(path, cx, cy, f.ex, f.ey, f.nx * dir, f.ny * dir, knobH);
+  }
+  path.lineTo(f.x2, f.y2);
+};
+
+/** A smooth S-wave instead of a knob — interlocks without any undercut. */
+const wavyEdge: EdgeShape = (path, f, edge) => {
+  const { cx, cy } = knobCentre(f, edge, edge.offset);
+  const amp = f.knobH * 0.55;
+  const dip = amp * 0.35;
+  const startLen = f.edgeLen * edge.offset;
+  const endLen = f.edgeLen - startLen;
+  const reach = f.edgeLen * 0.18;
+  const px = cx + f.nx * amp;
+  const py = cy + f.ny * amp;
+
+  path.bezierCurveTo(
+    f.x1 + f.ex * startLen * 0.5 - f.nx * dip,  f.y1 + f.ey * startLen * 0.5 - f.ny * dip,
+    px - f.ex * reach,                          py - f.ey * reach,
+    px,                                         py,
+  );
+  path.bezierCurveTo(
+    px + f.ex * reach,                          py + f.ey * reach,
+    f.x2 - f.ex * endLen * 0.5 - f.nx * dip,    f.y2 - f.ey * endLen * 0.5 - f.ny * dip,
+    f.x2,                                       f.y2,
+  );
+};
+
+/** Plain straight cut — square tiles for the youngest players. */
+const straightEdge: EdgeShape = (path, f) => {
+  path.lineTo(f.x2, f.y2);
+};
+
+const EDGE_SHAPES: Record<CutStyle, EdgeShape> = {
+  classic: classicEdge,
+  whimsy: whimsyEdge,
+  wavy: wavyEdge,
+  straight: straightEdge,
+};
+
 /**
  * Build the SVG/Canvas clip path for one piece.
  *
- * The path is in LOCAL coordinates starting at (0, 0) to (w, h),
- * with connector knobs added/subtracted on each edge.
+ * The path is in LOCAL coordinates (bounding box (0, 0) to (w, h)) and walks
+ * the piece polygon, with connector knobs added/subtracted on each edge in the
+ * piece's cut style.
  *
  * knobScale controls the knob size relative to piece size.
  */
@@ -175,205 +735,72 @@ export function buildPiecePath(
   piece: PieceDef,
   knobScale: number = 0.38,
 ): Path2D {
-  const { width: w, height: h, edges } = piece;
-  const [top, right, bottom, left] = edges;
+  const { corners, edges } = piece;
+  const shape = EDGE_SHAPES[piece.cut] ?? classicEdge;
+  const n = corners.length;
+  const mid = (i: number) => {
+    const a = corners[i % n];
+    const b = corners[(i + 1) % n];
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  };
+  const smooth = corners.map((_, i) => isSmoothBorderCorner(piece, i));
 
   const path = new Path2D();
+  const start = smooth[0] ? mid(0) : corners[0];
+  path.moveTo(start.x, start.y);
 
-  // ─── Draw one edge with a Ravensburger-style knob ───────────────────────
-  //
-  // Reference shape (cross-section of a tab):
-  //
-  //            ╭───╮
-  //           │     │      ← large round head (nearly circular)
-  //            ╰─┬─╯
-  //              │         ← narrow neck
-  //           ╱     ╲      ← concave undercut (dips INTO the piece)
-  //     ─────╱       ╲───── edge line
-  //
-  // The undercut is the KEY feature that creates the classic "lock" feel.
-  // The path dips slightly past the edge line (inward) before rising
-  // through the neck into the round head.
-  //
-  function drawEdge(
-    x1: number, y1: number,
-    x2: number, y2: number,
-    edge: EdgeDef,
-    normal: { nx: number; ny: number },
-  ) {
+  edges.forEach((edge, i) => {
+    const { x: x1, y: y1 } = corners[i];
+    const { x: x2, y: y2 } = corners[(i + 1) % n];
     if (edge.type === 'flat') {
-      path.lineTo(x2, y2);
+      // Round off the polygon facets of a curved (masked) border
+      if (smooth[(i + 1) % n]) {
+        const m = mid(i + 1);
+        path.quadraticCurveTo(x2, y2, m.x, m.y);
+      } else {
+        path.lineTo(x2, y2);
+      }
       return;
     }
 
     const dx = x2 - x1;
     const dy = y2 - y1;
     const edgeLen = Math.sqrt(dx * dx + dy * dy);
-
     const ex = dx / edgeLen;
     const ey = dy / edgeLen;
-
+    // Outward normal for the piece winding (top edge → points up)
     const dir = edge.type === 'tab' ? 1 : -1;
-    const nx = normal.nx * dir;
-    const ny = normal.ny * dir;
-
-    // ── Proportions matching the red reference piece ──
-    // All sizes relative to knobH (the total outward protrusion)
-    const knobH = Math.min(w, h) * knobScale * edge.size;
-
-    const baseHW   = knobH * 0.42;   // half-width where knob departs from edge
-    const neckHW   = knobH * 0.20;   // half-width of the narrow neck
-    const headR    = knobH * 0.46;   // radius of the round head
-    const undercutD = knobH * 0.08;  // depth of undercut (INTO the piece)
-    const neckLen  = knobH * 0.28;   // neck length (edge → head bottom)
-    // tip height from edge = neckLen + headR*2 ≈ knobH*1.2 (generous protrusion)
-
-    // Centre of knob on the edge line
-    const cx = x1 + dx * edge.offset + ey * edge.tilt * edgeLen * 0.05;
-    const cy = y1 + dy * edge.offset - ex * edge.tilt * edgeLen * 0.05;
-
-    // ── Key points ──
-
-    // Base: where the shape leaves the straight edge (wide)
-    const b1x = cx - ex * baseHW;
-    const b1y = cy - ey * baseHW;
-    const b2x = cx + ex * baseHW;
-    const b2y = cy + ey * baseHW;
-
-    // Undercut trough: dips INTO the piece (opposite of normal)
-    const u1x = cx - ex * neckHW * 1.1 - nx * undercutD;
-    const u1y = cy - ey * neckHW * 1.1 - ny * undercutD;
-    const u2x = cx + ex * neckHW * 1.1 - nx * undercutD;
-    const u2y = cy + ey * neckHW * 1.1 - ny * undercutD;
-
-    // Neck top: where narrow neck meets the head bottom
-    const n1x = cx - ex * neckHW + nx * neckLen;
-    const n1y = cy - ey * neckHW + ny * neckLen;
-    const n2x = cx + ex * neckHW + nx * neckLen;
-    const n2y = cy + ey * neckHW + ny * neckLen;
-
-    // Head centre
-    const hcx = cx + nx * (neckLen + headR);
-    const hcy = cy + ny * (neckLen + headR);
-
-    // Shoulder: widest point of head (at head centre height)
-    const s1x = hcx - ex * headR;
-    const s1y = hcy - ey * headR;
-    const s2x = hcx + ex * headR;
-    const s2y = hcy + ey * headR;
-
-    // Tip: top of head
-    const tipX = hcx + nx * headR;
-    const tipY = hcy + ny * headR;
-
-    // ── Path: 6 bezier segments ──
-    path.lineTo(b1x, b1y);
-
-    // 1. Left base → undercut trough (concave dip into piece)
-    path.bezierCurveTo(
-      b1x - nx * undercutD * 0.6,  b1y - ny * undercutD * 0.6,   // pull inward
-      u1x - nx * undercutD * 0.3,  u1y - ny * undercutD * 0.3,   // deep in undercut
-      u1x,                          u1y,                            // undercut trough
-    );
-
-    // 2. Undercut → neck top (S-curve: from inward dip up through narrow neck)
-    path.bezierCurveTo(
-      u1x + nx * neckLen * 0.4,    u1y + ny * neckLen * 0.4,     // rise from undercut
-      n1x - nx * neckLen * 0.2,    n1y - ny * neckLen * 0.2,     // approach neck top
-      n1x,                          n1y,                            // neck top
-    );
-
-    // 3. Neck top → shoulder (widen to head)
-    path.bezierCurveTo(
-      n1x + nx * headR * 0.15,     n1y + ny * headR * 0.15,      // slightly above neck
-      s1x - nx * headR * 0.6,      s1y - ny * headR * 0.6,       // approach shoulder from below
-      s1x,                          s1y,                            // left shoulder
-    );
-
-    // 4. Shoulder → tip (left half of head arc)
-    path.bezierCurveTo(
-      s1x + nx * headR * 0.56,     s1y + ny * headR * 0.56,      // circular arc control
-      tipX - ex * headR * 0.56,     tipY - ey * headR * 0.56,     // approach tip
-      tipX,                          tipY,                           // tip
-    );
-
-    // 5. Tip → right shoulder (right half of head arc — mirror of 4)
-    path.bezierCurveTo(
-      tipX + ex * headR * 0.56,     tipY + ey * headR * 0.56,     // leave tip
-      s2x + nx * headR * 0.56,      s2y + ny * headR * 0.56,      // circular arc control
-      s2x,                           s2y,                            // right shoulder
-    );
-
-    // 6. Right shoulder → neck top (narrow down — mirror of 3)
-    path.bezierCurveTo(
-      s2x - nx * headR * 0.6,       s2y - ny * headR * 0.6,       // below shoulder
-      n2x + nx * headR * 0.15,      n2y + ny * headR * 0.15,      // slightly above neck
-      n2x,                           n2y,                            // neck top
-    );
-
-    // 7. Neck top → undercut (mirror of 2)
-    path.bezierCurveTo(
-      n2x - nx * neckLen * 0.2,     n2y - ny * neckLen * 0.2,     // descend from neck
-      u2x + nx * neckLen * 0.4,     u2y + ny * neckLen * 0.4,     // approach undercut
-      u2x,                           u2y,                            // undercut trough
-    );
-
-    // 8. Undercut → right base (mirror of 1)
-    path.bezierCurveTo(
-      u2x - nx * undercutD * 0.3,   u2y - ny * undercutD * 0.3,   // deep in undercut
-      b2x - nx * undercutD * 0.6,   b2y - ny * undercutD * 0.6,   // pull inward
-      b2x,                           b2y,                            // right base
-    );
-
-    path.lineTo(x2, y2);
-  }
 
-  path.moveTo(0, 0);
-  drawEdge(0, 0, w, 0, top, { nx: 0, ny: -1 });    // top: normal points up (outward)
-  drawEdge(w, 0, w, h, right, { nx: 1, ny: 0 });    // right: normal points right
-  drawEdge(w, h, 0, h, bottom, { nx: 0, ny: 1 });   // bottom: normal points down
-  drawEdge(0, h, 0, 0, left, { nx: -1, ny: 0 });    // left: normal points left
+    shape(path, {
+      x1, y1, x2, y2,
+      ex,
+      ey,
+      nx: ey * dir,
+      ny: -ex * dir,
+      edgeLen,
+      // Capped by the edge length so short sides (clipped border cells) stay tidy;
+      // never binds on the square grid
+      knobH: Math.min(piece.knobUnit * knobScale * edge.size, edgeLen * 0.42),
+    }, edge);
+  });
   path.closePath();
 
   return path;
 }
 
-/** Scatter pieces into a tray area using a grid with jitter so pieces don't pile up */
-export function scatterPieces(
-  pieces: PieceDef[],
-  trayX: number,
-  trayY: number,
-  trayWidth: number,
-  trayHeight: number,
-  seed: number = 99,
-): void {
-  const rng = mulberry32(seed);
-  if (pieces.length === 0) return;
-
-  const pw = pieces[0].width;
-  const ph = pieces[0].height;
-
-  // Cell size: piece core + small gap. Knobs overlap between cells (that's fine visually).
-  const gap = 8;
-  const cellW = pw + gap;
-  const cellH = ph + gap;
-
-  // Aim for 2 columns minimum, fit as many as possible
-  const cols = Math.max(2, Math.floor(trayWidth / cellW));
-
-  // Shuffle pieces so they appear in random order
-  const shuffled = [...pieces].sort(() => rng() - 0.5);
-
-  shuffled.forEach((piece, i) => {
-    const col = i % cols;
-    const row = Math.floor(i / cols);
-
-    // Base grid position + small jitter
-    const jitterX = (rng() - 0.5) * gap * 1.5;
-    const jitterY = (rng() - 0.5) * gap * 1.5;
-
-    piece.x = trayX + col * cellW + jitterX;
-    piece.y = trayY + row * cellH + jitterY;
-    piece.zIndex = Math.floor(rng() * pieces.length);
-  });
+/**
+ * True when corner i joins two flat border edges at a shallow angle — i.e. it
+ * is a facet of a curved mask outline rather than a real corner of the board.
+ */
+function isSmoothBorderCorner(piece: PieceDef, i: number): boolean {
+  const { corners, edges } = piece;
+  const n = corners.length;
+  if (edges[i].type !== 'flat' || edges[(i + n - 1) % n].type !== 'flat') return false;
+  const prev = corners[(i + n - 1) % n];
+  const cur = corners[i];
+  const next = corners[(i + 1) % n];
+  const a1 = Math.atan2(cur.y - prev.y, cur.x - prev.x);
+  const a2 = Math.atan2(next.y - cur.y, next.x - cur.x);
+  const turn = Math.abs(((a2 - a1 + 3 * Math.PI) % (2 * Math.PI)) - Math.PI);
+  return turn < Math.PI / 6;
 }
@@ -0,0 +1,59 @@
+/**
+ * Piece groups for PuzzleCanvas.
+ *
+ * Pieces that have been snapped together move as one group. PuzzleCanvas
+ * keeps a map from piece id to group id; the geometry here tells where a
+ * piece has to sit to interlock with a neighbour, and rebuilds the map for
+ * saves made before group membership was stored.
+ */
+
+import { PieceDef, rotateVec, rotationDelta } from './generator';
+
+export function pieceCentre(p: PieceDef): { x: number; y: number } {
+  return { x: p.x + p.width / 2, y: p.y + p.height / 2 };
+}
+
+/**
+ * Top-left position `piece` must have to interlock with `candidate`,
+ * taking the candidate's current rotation into account.
+ */
+export function expectedNextTo(piece: PieceDef, candidate: PieceDef): { x: number; y: number } {
+  const d = rotateVec(
+    piece.solvedX + piece.width / 2 - (candidate.solvedX + candidate.width / 2),
+    piece.solvedY + piece.height / 2 - (candidate.solvedY + candidate.height / 2),
+    candidate.rotation,
+  );
+  const c = pieceCentre(candidate);
+  return { x: c.x + d.x - piece.width / 2, y: c.y + d.y - piece.height / 2 };
+}
+
+/**
+ * Rebuild groups for saves made before group membership was stored: any two
+ * neighbours on the board that sit exactly where they would interlock (same
+ * rotation, within a hair of the expected offset) must have been snapped.
+ * `groups` starts with every piece on its own and is updated in place.
+ */
+export function groupsFromPositions(pieces: PieceDef[], traySet: Set<string>, groups: Map<string, string>) {
+  const byId = new Map(pieces.map(p => [p.id, p]));
+  const root = (id: string): string => {
+    let r = id;
+    while (groups.get(r) !== r) r = groups.get(r)!;
+    return r;
+  };
+  for (const piece of pieces) {
+    if (traySet.has(piece.id)) continue;
+    for (const nid of piece.neighbours) {
+      const other = nid ? byId.get(nid) : undefined;
+      if (!other || traySet.has(other.id)) continue;
+      if (Math.abs(rotationDelta(other.rotation, piece.rotation)) > 0.5) continue;
+      const expected = expectedNextTo(piece, other);
+      const tolerance = Math.min(piece.width, piece.height) * 0.02;
+      if (Math.hypot(piece.x - expected.x, piece.y - expected.y) > tolerance) continue;
+      const a = root(piece.id);
+      const b = root(other.id);
+      if (a !== b) groups.set(b, a);
+    }
+  }
+  // Flatten so every piece maps straight to its group id
+  for (const p of pieces) groups.set(p.id, root(p.id));
+}
@@ -0,0 +1,91 @@
+/**
+ * Hints for PuzzleCanvas.
+ *
+ *   slot       pulse the outline of where a piece belongs on the board
+ *              (its solvedX / solvedY)
+ *   neighbour  pulse a piece, on the board or in the tray, that snaps onto
+ *              the piece's group
+ *
+ * A hint is about the piece the player touched last. Each one shown counts
+ * in the play stats (stats.ts), and only one runs at a time. Puzzles started
+ * with options.noHints (the "no hints" challenge mode) offer none.
+ */
+
+import type { PieceDef, PuzzleOptions } from './generator';
+
+export type HintKind = 'slot' | 'neighbour';
+
+export interface ActiveHint {
+  kind: HintKind;
+  /** The piece to pulse: the touched piece for 'slot', the neighbour for 'neighbour' */
+  pieceId: string;
+  /**
+   * A 'neighbour' waiting in the tray, highlighted there instead of on the
+   * board. Always false for 'slot': the slot is on the board wherever the
+   * piece lies.
+   */
+  inTray: boolean;
+  until: number;
+}
+
+/** How long a hint pulses */
+export const HINT_MS = 3000;
+
+export function hintsAllowed(options: PuzzleOptions): boolean {
+  return !options.noHints;
+}
+
+/** A slot hint is there for any piece not yet placed, on the board or in the tray. */
+export function canHintSlot(piece: PieceDef | null): boolean {
+  return !!piece && !piece.isPlaced;
+}
+
+/** The hint of `kind` about `piece`, or null when there is nothing to show. */
+export function createHint(
+  kind: HintKind,
+  piece: PieceDef,
+  pieces: PieceDef[],
+  groups: Map<string, string>,
+  trayIds: Set<string>,
+  now: number,
+): ActiveHint | null {
+  if (kind === 'slot' && !canHintSlot(piece)) return null;
+  const target = kind === 'slot' ? piece : findNeighbourHint(pieces, groups, piece, trayIds);
+  if (!target) return null;
+  return { kind, pieceId: target.id, inTray: kind === 'neighbour' && trayIds.has(target.id), until: now + HINT_MS };
+}
+
+/**
+ * A piece that joins onto `piece`'s group and isn't part of it yet, or null.
+ * Pieces already out on the board come first, as they are the ones easiest to
+ * overlook; otherwise one from the tray. A neighbour already placed in
+ * another group says little about where to go, so it is only the last resort.
+ */
+export function findNeighbourHint(
+  pieces: PieceDef[],
+  groups: Map<string, string>,
+  piece: PieceDef,
+  trayIds: Set<string>,
+): PieceDef | null {
+  const byId = new Map(pieces.map(p => [p.id, p]));
+  const gid = groups.get(piece.id) ?? piece.id;
+  const groupIds = new Set(pieces.filter(p => (groups.get(p.id) ?? p.id) === gid).map(p => p.id));
+  groupIds.add(piece.id);
+
+  let fromTray: PieceDef | null = null;
+  let placed: PieceDef | null = null;
+  // Start from the touched piece so the hint lands next to where the player looks
+  const members = [piece, ...pieces.filter(p => groupIds.has(p.id) && p !== piece)];
+  for (const member of members) {
+    for (const id of member.neighbours) {
+      if (!id || groupIds.has(id)) continue;
+      const candidate = byId.get(id);
+      if (!candidate) continue;
+      if (candidate.isPlaced) {
+        if (!placed) placed = candidate;
+      } else if (!trayIds.has(id)) return candidate;
+      else if (!fromTray) fromTray = candidate;
+    }
+  }
+  return fromTray ?? placed;
+}
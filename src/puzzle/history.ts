@@ -0,0 +1,185 @@
+/**
+ * Undo / redo history for PuzzleCanvas.
+ *
+ * Every user action (a drag with its snaps and group merges, a drop back into
+ * the tray, tap-to-stage from the tray) becomes one command holding the state
+ * of each affected piece before and after. Undo writes `before` back, redo
+ * writes `after`. Positions use the same board-relative fractions as the
+ * saved piecesState, so the history can be stored with the save and still
+ * apply after a resume on a different screen size.
+ */
+
+import { PieceDef } from './generator';
+import type { PuzzleStats } from './stats';
+
+export interface PieceSnapshot {
+  id: string;
+  fx: number;
+  fy: number;
+  rotation: number;
+  isPlaced: boolean;
+  zIndex: number;
+  inTray: boolean;
+  /** Group id (see PuzzleCanvas groups map) */
+  group: string;
+}
+
+/**
+ * move  = pieces only changed position / rotation
+ * snap  = something was placed on the board or joined up
+ * merge = groups were joined without anything being placed
+ * tray  = pieces went into or came out of the tray without snapping
+ *
+ * A piece dragged out of the tray that snaps is a snap, so stats.ts counts it.
+ */
+export type HistoryKind = 'move' | 'snap' | 'merge' | 'tray';
+
+export interface HistoryCommand {
+  kind: HistoryKind;
+  before: PieceSnapshot[];
+  after: PieceSnapshot[];
+}
+
+export interface HistoryState {
+  undo: HistoryCommand[];
+  redo: HistoryCommand[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { undo: [], redo: [] };
+
+/** Commands kept in memory while playing */
+export const MAX_HISTORY = 100;
+
+/** Limits for the copy stored with a save (Firestore documents max out at 1 MB) */
+export const MAX_SAVED_COMMANDS = 30;
+export const MAX_SAVED_SNAPSHOTS = 2000;
+
+export interface BoardFrame {
+  boardX: number;
+  boardY: number;
+  boardW: number;
+  boardH: number;
+}
+
+export function snapshotPieces(
+  pieces: PieceDef[],
+  trayIds: Set<string>,
+  groups: Map<string, string>,
+  frame: BoardFrame,
+): Map<string, PieceSnapshot> {
+  const out = new Map<string, PieceSnapshot>();
+  for (const p of pieces) {
+    out.set(p.id, {
+      id: p.id,
+      fx: (p.x - frame.boardX) / frame.boardW,
+      fy: (p.y - frame.boardY) / frame.boardH,
+      rotation: p.rotation,
+      isPlaced: p.isPlaced,
+      zIndex: p.zIndex,
+      inTray: trayIds.has(p.id),
+      group: groups.get(p.id) ?? p.id,
+    });
+  }
+  return out;
+}
+
+function sameSnapshot(a: PieceSnapshot, b: PieceSnapshot): boolean {
+  return (
+    Math.abs(a.fx - b.fx) < 1e-6 &&
+    Math.abs(a.fy - b.fy) < 1e-6 &&
+    Math.abs(a.rotation - b.rotation) < 1e-6 &&
+    a.isPlaced === b.isPlaced &&
+    a.zIndex === b.zIndex &&
+    a.inTray === b.inTray &&
+    a.group === b.group
+  );
+}
+
+/** Command for everything that changed between two snapshots, or null if nothing did. */
+export function diffSnapshots(
+  before: Map<string, PieceSnapshot>,
+  after: Map<string, PieceSnapshot>,
+): HistoryCommand | null {
+  const b: PieceSnapshot[] = [];
+  const a: PieceSnapshot[] = [];
+  let significant = false;
+  for (const [id, prev] of before) {
+    const next = after.get(id);
+    if (!next || sameSnapshot(prev, next)) continue;
+    b.push(prev);
+    a.push(next);
+    // Picking a piece up raises it; that alone isn't worth an undo step
+    if (!sameSnapshot({ ...prev, zIndex: next.zIndex }, next)) significant = true;
+  }
+  if (!significant) return null;
+
+  let kind: HistoryKind = 'move';
+  if (a.some((s, i) => s.isPlaced && !b[i].isPlaced)) kind = 'snap';
+  else if (a.some((s, i) => s.group !== b[i].group)) kind = 'merge';
+  else if (a.some((s, i) => s.inTray !== b[i].inTray)) kind = 'tray';
+  return { kind, before: b, after: a };
+}
+
+/**
+ * Ids of the pieces whose state differs between two snapshots (raising a
+ * piece counts — its zIndex is saved). Pieces only in `after` count too.
+ */
+export function changedPieceIds(
+  before: Map<string, PieceSnapshot>,
+  after: Map<string, PieceSnapshot>,
+): string[] {
+  const ids: string[] = [];
+  for (const [id, next] of after) {
+    const prev = before.get(id);
+    if (!prev || !sameSnapshot(prev, next)) ids.push(id);
+  }
+  return ids;
+}
+
+/** The board and counters as of a save that went through */
+export interface SavedBoard {
+  pieces: Map<string, PieceSnapshot>;
+  stats: PuzzleStats;
+}
+
+/**
+ * What changed since `saved`: the ids of changed pieces, null when there is
+ * no save to compare with (save everything), or 'unchanged' when neither a
+ * piece nor a move or hint count did.
+ */
+export function changesSince(
+  saved: SavedBoard | null,
+  pieces: Map<string, PieceSnapshot>,
+  stats: PuzzleStats,
+): string[] | null | 'unchanged' {
+  if (!saved) return null;
+  const ids = changedPieceIds(saved.pieces, pieces);
+  const counted = stats.moves !== saved.stats.moves || stats.hints !== saved.stats.hints;
+  return ids.length === 0 && !counted ? 'unchanged' : ids;
+}
+
+/** Record a new command; anything that could be redone is dropped. */
+export function pushCommand(history: HistoryState, command: HistoryCommand): HistoryState {
+  return { undo: [...history.undo, command].slice(-MAX_HISTORY), redo: [] };
+}
+
+/**
+ * The most recent part of the history that fits in a save. The redo stack is
+ * kept too, so undo → save → resume → redo still works.
+ */
+export function trimHistory(history: HistoryState): HistoryState {
+  let budget = MAX_SAVED_SNAPSHOTS;
+  const take = (commands: HistoryCommand[]) => {
+    const kept: HistoryCommand[] = [];
+    for (let i = commands.length - 1; i >= 0 && kept.length < MAX_SAVED_COMMANDS; i--) {
+      const size = commands[i].before.length * 2;
+      if (size > budget) break;
+      budget -= size;
+      kept.unshift(commands[i]);
+    }
+    return kept;
+  };
+  const undo = take(history.undo);
+  const redo = take(history.redo);
+  return { undo, redo };
+}
@@ -0,0 +1,220 @@
+/**
+ * Board masks — puzzles whose outline is a shape instead of the full image
+ * rectangle.
+ *
+ * A mask is a simple polygon in board pixels (same winding as pieces). The
+ * generator clips every lattice cell against it, so cells outside the mask
+ * disappear and border pieces follow the mask's curve.
+ *
+ * circle = largest circle centred on the board
+ * heart  = classic parametric heart, fitted to the board
+ * image  = outline traced from the alpha channel of a transparent PNG,
+ *          stored normalised (0–1) in PuzzleOptions.maskOutline
+ */
+
+import { Point, polygonArea } from './tiling';
+
+export type MaskShape = 'none' | 'circle' | 'heart' | 'image';
+
+// Enough segments that the facets disappear once buildPiecePath smooths them
+const CURVE_SEGMENTS = 128;
+
+/** Resolution of the alpha grid used when tracing a PNG outline */
+const TRACE_SIZE = 160;
+
+function withPieceWinding(poly: Point[]): Point[] {
+  return polygonArea(poly) < 0 ? [...poly].reverse() : poly;
+}
+
+/**
+ * Mask polygon in board coordinates, or null when the puzzle uses the full
+ * rectangle (no mask, or an image mask without a traced outline).
+ */
+export function maskPolygon(
+  shape: MaskShape | undefined,
+  width: number,
+  height: number,
+  outline?: Point[] | null,
+): Point[] | null {
+  if (shape === 'circle') {
+    const r = Math.min(width, height) / 2;
+    const poly: Point[] = [];
+    for (let i = 0; i < CURVE_SEGMENTS; i++) {
+      const a = (i / CURVE_SEGMENTS) * Math.PI * 2;
+      poly.push({ x: width / 2 + Math.cos(a) * r, y: height / 2 + Math.sin(a) * r });
+    }
+    return withPieceWinding(poly);
+  }
+
+  if (shape === 'heart') {
+    const raw: Point[] = [];
+    for (let i = 0; i < CURVE_SEGMENTS; i++) {
+      const t = (i / CURVE_SEGMENTS) * Math.PI * 2;
+      raw.push({
+        x: 16 * Math.sin(t) ** 3,
+        // y flipped for screen space
+        y: -(13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)),
+      });
+    }
+    const minX = Math.min(...raw.map(p => p.x));
+    const maxX = Math.max(...raw.map(p => p.x));
+    const minY = Math.min(...raw.map(p => p.y));
+    const maxY = Math.max(...raw.map(p => p.y));
+    const scale = Math.min(width / (maxX - minX), height / (maxY - minY));
+    const ox = (width - (maxX - minX) * scale) / 2;
+    const oy = (height - (maxY - minY) * scale) / 2;
+    return withPieceWinding(raw.map(p => ({
+      x: ox + (p.x - minX) * scale,
+      y: oy + (p.y - minY) * scale,
+    })));
+  }
+
+  if (shape === 'image' && outline && outline.length >= 3) {
+    return withPieceWinding(outline.map(p => ({ x: p.x * width, y: p.y * height })));
+  }
+
+  return null;
+}
+
+/**
+ * Trace the outer outline of the largest opaque region of an image.
+ * Returns a normalised (0–1) polygon, or null when the image has no useful
+ * transparency (fully opaque, or almost nothing opaque). Holes are ignored.
+ */
+export function traceAlphaOutline(image: HTMLImageElement): Point[] | null {
+  const iw = image.naturalWidth;
+  const ih = image.naturalHeight;
+  if (!iw || !ih) return null;
+  const scale = TRACE_SIZE / Math.max(iw, ih);
+  const gw = Math.max(2, Math.round(iw * scale));
+  const gh = Math.max(2, Math.round(ih * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = gw;
+  canvas.height = gh;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  let data: Uint8ClampedArray;
+  try {
+    ctx.drawImage(image, 0, 0, gw, gh);
+    data = ctx.getImageData(0, 0, gw, gh).data;
+  } catch {
+    // Tainted canvas (cross-origin image without CORS)
+    return null;
+  }
+
+  const solid = new Uint8Array(gw * gh);
+  let solidCount = 0;
+  for (let i = 0; i < gw * gh; i++) {
+    if (data[i * 4 + 3] >= 128) { solid[i] = 1; solidCount++; }
+  }
+  if (solidCount === gw * gh || solidCount < gw * gh * 0.02) return null;
+
+  // Keep only the largest 4-connected region
+  const label = new Int32Array(gw * gh);
+  let best = 0;
+  let bestSize = 0;
+  let bestStart = -1;
+  let next = 1;
+  const stack: number[] = [];
+  for (let i = 0; i < gw * gh; i++) {
+    if (!solid[i] || label[i]) continue;
+    let size = 0;
+    label[i] = next;
+    stack.push(i);
+    while (stack.length) {
+      const k = stack.pop()!;
+      size++;
+      const x = k % gw;
+      const y = (k - x) / gw;
+      const around = [
+        x > 0 ? k - 1 : -1,
+        x < gw - 1 ? k + 1 : -1,
+        y > 0 ? k - gw : -1,
+        y < gh - 1 ? k + gw : -1,
+      ];
+      for (const n of around) {
+        if (n >= 0 && solid[n] && !label[n]) { label[n] = next; stack.push(n); }
+      }
+    }
+    // Scanning in raster order, `i` is the region's top-left-most pixel
+    if (size > bestSize) { best = next; bestSize = size; bestStart = i; }
+    next++;
+  }
+
+  const inside = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < gw && y < gh && label[y * gw + x] === best;
+  const contour = traceRegion(inside, bestStart % gw, Math.floor(bestStart / gw), gw * gh * 4);
+  const simplified = simplifyClosed(contour, 0.7);
+  if (simplified.length < 3) return null;
+  return withPieceWinding(simplified.map(p => ({ x: p.x / gw, y: p.y / gh })));
+}
+
+/**
+ * Walk the pixel-corner boundary of a region clockwise (y down), keeping the
+ * region on the right. Starts at the top-left corner of its top-left pixel.
+ * Only corners where the direction changes are returned.
+ */
+function traceRegion(
+  inside: (x: number, y: number) => boolean,
+  startX: number,
+  startY: number,
+  maxSteps: number,
+): Point[] {
+  const out: Point[] = [];
+  let x = startX;
+  let y = startY;
+  let dx = 1;
+  let dy = 0;
+  for (let step = 0; step < maxSteps; step++) {
+    x += dx;
+    y += dy;
+    // Pixels ahead of the current corner, to the right and left of travel
+    const rx = -dy;
+    const ry = dx;
+    const aheadRight = inside(Math.floor(x + (dx + rx) / 2), Math.floor(y + (dy + ry) / 2));
+    const aheadLeft = inside(Math.floor(x + (dx - rx) / 2), Math.floor(y + (dy - ry) / 2));
+    let ndx = dx;
+    let ndy = dy;
+    if (!aheadRight) { ndx = rx; ndy = ry; }
+    else if (aheadLeft) { ndx = -rx; ndy = -ry; }
+    if (ndx !== dx || ndy !== dy) out.push({ x, y });
+    dx = ndx;
+    dy = ndy;
+    if (x === startX && y === startY && dx === 1 && dy === 0) break;
+  }
+  return out;
+}
+
+/** Ramer–Douglas–Peucker on a closed polygon. */
+function simplifyClosed(poly: Point[], tolerance: number): Point[] {
+  if (poly.length < 4) return poly;
+  // Split at the point farthest from the first one so both halves are open chains
+  let far = 0;
+  let farDist = -1;
+  poly.forEach((p, i) => {
+    const d = (p.x - poly[0].x) ** 2 + (p.y - poly[0].y) ** 2;
+    if (d > farDist) { farDist = d; far = i; }
+  });
+  const a = simplifyChain(poly.slice(0, far + 1), tolerance);
+  const b = simplifyChain([...poly.slice(far), poly[0]], tolerance);
+  return [...a.slice(0, -1), ...b.slice(0, -1)];
+}
+
+function simplifyChain(chain: Point[], tolerance: number): Point[] {
+  if (chain.length < 3) return chain;
+  const a = chain[0];
+  const b = chain[chain.length - 1];
+  const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  let index = 0;
+  let maxDist = 0;
+  for (let i = 1; i < chain.length - 1; i++) {
+    const p = chain[i];
+    const d = Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / len;
+    if (d > maxDist) { maxDist = d; index = i; }
+  }
+  if (maxDist <= tolerance) return [a, b];
+  const left = simplifyChain(chain.slice(0, index + 1), tolerance);
+  const right = simplifyChain(chain.slice(index), tolerance);
+  return [...left.slice(0, -1), ...right];
+}
@@ -0,0 +1,195 @@
+/**
+ * Per-piece image analysis, off the main thread.
+ *
+ * Reading pixels for a few hundred pieces takes long enough to stall touch
+ * handling, so analysePieces hands the work to pieceAnalysis.worker.ts: the
+ * board image goes over as a transferred ImageBitmap, the worker draws each
+ * piece on an OffscreenCanvas (colorSort.readPieceColors) and posts the
+ * results back in chunks, which drive the progress callback.
+ *
+ * Browsers without OffscreenCanvas — or a worker that fails, e.g. without
+ * Path2D support — get the same analysis on the main thread, a chunk per
+ * task so input still gets through in between.
+ *
+ * Results are cached per puzzle seed, so a resumed puzzle or a second sort
+ * reuses them and pieces from another puzzle never mix in. Pieces that are
+ * still being analysed are shared between callers rather than queued twice.
+ */
+
+import type { PieceDef } from './generator';
+import { ColorDescriptor, readPieceColors } from './colorSort';
+
+export interface AnalysisProgress {
+  done: number;
+  total: number;
+}
+
+/** Message to the worker */
+export interface AnalysisRequest {
+  jobId: number;
+  bitmap: ImageBitmap;
+  boardW: number;
+  boardH: number;
+  pieces: PieceDef[];
+}
+
+/** Messages from the worker: a chunk of results, or why the job failed */
+export type AnalysisResponse =
+  | { jobId: number; results: [string, ColorDescriptor][] }
+  | { jobId: number; error: string };
+
+/** Pieces per main-thread task in the fallback */
+const MAIN_THREAD_CHUNK = 16;
+/** Puzzles kept in the cache; the least recently used goes first */
+const MAX_CACHED_PUZZLES = 3;
+
+interface Pending {
+  resolve: (d: ColorDescriptor) => void;
+  reject: (e: unknown) => void;
+}
+
+interface Job {
+  pieces: PieceDef[];
+  boardImage: HTMLCanvasElement;
+  boardW: number;
+  boardH: number;
+  pending: Map<string, Pending>;
+}
+
+// seed → piece id → descriptor (or the analysis still running for it)
+const cache = new Map<number, Map<string, Promise<ColorDescriptor>>>();
+const jobs = new Map<number, Job>();
+let nextJobId = 1;
+let worker: Worker | null = null;
+let workerBroken = false;
+
+/**
+ * Colour descriptors for `pieces`, analysing the ones not cached for this
+ * seed yet. `onProgress` counts pieces as their results come in.
+ */
+export async function analysePieces(
+  seed: number,
+  pieces: PieceDef[],
+  boardImage: HTMLCanvasElement,
+  boardW: number,
+  boardH: number,
+  onProgress?: (progress: AnalysisProgress) => void,
+): Promise<Map<string, ColorDescriptor>> {
+  const entries = puzzleCache(seed);
+  const missing = pieces.filter(p => !entries.has(p.id));
+  if (missing.length > 0) startJob(entries, missing, boardImage, boardW, boardH);
+
+  const out = new Map<string, ColorDescriptor>();
+  const total = pieces.length;
+  await Promise.all(pieces.map(p => entries.get(p.id)!.then(d => {
+    out.set(p.id, d);
+    onProgress?.({ done: out.size, total });
+  })));
+  return out;
+}
+
+function puzzleCache(seed: number): Map<string, Promise<ColorDescriptor>> {
+  let entries = cache.get(seed);
+  if (entries) {
+    cache.delete(seed);
+  } else {
+    entries = new Map();
+  }
+  cache.set(seed, entries);
+  while (cache.size > MAX_CACHED_PUZZLES) cache.delete(cache.keys().next().value);
+  return entries;
+}
+
+function startJob(
+  entries: Map<string, Promise<ColorDescriptor>>,
+  pieces: PieceDef[],
+  boardImage: HTMLCanvasElement,
+  boardW: number,
+  boardH: number,
+): void {
+  const pending = new Map<string, Pending>();
+  for (const p of pieces) {
+    const promise = new Promise<ColorDescriptor>((resolve, reject) => pending.set(p.id, { resolve, reject }));
+    entries.set(p.id, promise);
+    // A failed piece is analysed again next time instead of staying failed
+    promise.catch(() => {
+      if (entries.get(p.id) === promise) entries.delete(p.id);
+    });
+  }
+  const job: Job = { pieces, boardImage, boardW, boardH, pending };
+
+  const target = workerBroken ? null : getWorker();
+  if (!target) {
+    runOnMainThread(job);
+    return;
+  }
+  const jobId = nextJobId++;
+  jobs.set(jobId, job);
+  createImageBitmap(boardImage)
+    .then(bitmap => {
+      const request: AnalysisRequest = { jobId, bitmap, boardW, boardH, pieces };
+      target.postMessage(request, [bitmap]);
+    })
+    .catch(() => {
+      jobs.delete(jobId);
+      runOnMainThread(job);
+    });
+}
+
+function getWorker(): Worker | null {
+  if (worker) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+    return null;
+  }
+  try {
+    worker = new Worker(new URL('./pieceAnalysis.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    workerBroken = true;
+    return null;
+  }
+  worker.onmessage = (e: MessageEvent<AnalysisResponse>) => {
+    const job = jobs.get(e.data.jobId);
+    if (!job) return;
+    if ('error' in e.data) {
+      console.warn('Piece analysis worker failed, continuing on the main thread:', e.data.error);
+      jobs.delete(e.data.jobId);
+      workerBroken = true;
+      runOnMainThread(job);
+      return;
+    }
+    for (const [id, descriptor] of e.data.results) {
+      job.pending.get(id)?.resolve(descriptor);
+      job.pending.delete(id);
+    }
+    if (job.pending.size === 0) jobs.delete(e.data.jobId);
+  };
+  worker.onerror = e => {
+    console.warn('Piece analysis worker crashed, continuing on the main thread:', e.message);
+    workerBroken = true;
+    worker?.terminate();
+    worker = null;
+    const stranded = [...jobs.values()];
+    jobs.clear();
+    stranded.forEach(runOnMainThread);
+  };
+  return worker;
+}
+
+/** Fallback: the same analysis, MAIN_THREAD_CHUNK pieces per task. */
+function runOnMainThread(job: Job): void {
+  const canvas = document.createElement('canvas');
+  const remaining = job.pieces.filter(p => job.pending.has(p.id));
+  function step() {
+    for (const piece of remaining.splice(0, MAIN_THREAD_CHUNK)) {
+      const pending = job.pending.get(piece.id);
+      job.pending.delete(piece.id);
+      try {
+        pending?.resolve(readPieceColors(canvas, piece, job.boardImage, job.boardW, job.boardH));
+      } catch (e) {
+        pending?.reject(e);
+      }
+    }
+    if (remaining.length > 0) setTimeout(step, 0);
+  }
+  setTimeout(step, 0);
+}
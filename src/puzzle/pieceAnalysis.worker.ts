@@ -0,0 +1,35 @@
+/**
+ * Worker side of pieceAnalysis.ts: reads the colours of each piece from the
+ * transferred board bitmap and posts them back a chunk at a time.
+ */
+
+import { readPieceColors, ColorDescriptor } from './colorSort';
+// Types only: importing pieceAnalysis.ts itself would pull the worker into its own bundle
+import type { AnalysisRequest, AnalysisResponse } from './pieceAnalysis';
+
+/** Pieces per result message */
+const CHUNK = 16;
+
+addEventListener('message', (e: MessageEvent<AnalysisRequest>) => {
+  const { jobId, bitmap, boardW, boardH, pieces } = e.data;
+  try {
+    const canvas = new OffscreenCanvas(1, 1);
+    let results: [string, ColorDescriptor][] = [];
+    for (const piece of pieces) {
+      results.push([piece.id, readPieceColors(canvas, piece, bitmap, boardW, boardH)]);
+      if (results.length === CHUNK) {
+        reply({ jobId, results });
+        results = [];
+      }
+    }
+    if (results.length > 0) reply({ jobId, results });
+  } catch (err) {
+    reply({ jobId, error: String(err) });
+  } finally {
+    bitmap.close();
+  }
+});
+
+function reply(response: AnalysisResponse) {
+  postMessage(response);
+}
@@ -9,10 +9,76 @@
  *
  * The key is SUBTLETY — the image should dominate, with the 3D effect
  * being felt rather than seen. No heavy borders or dark frames.
+ *
+ * On the table, pieces are drawn once into sprites (spriteCache.ts) and the
+ * table only redraws what changed (tableRenderer.ts); drawPiece is what both
+ * use underneath, and what the tray uses directly.
  */
 
 import { PieceDef, buildPiecePath, KNOB_SCALE } from './generator';
 
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Path2D cache — keyed by piece object identity, so a new puzzle starts empty
+const pathCache = new WeakMap<PieceDef, Path2D>();
+
+/** The piece outline in local coordinates, built once per piece. */
+export function getPiecePath(piece: PieceDef): Path2D {
+  let path = pathCache.get(piece);
+  if (!path) {
+    path = buildPiecePath(piece, KNOB_SCALE);
+    pathCache.set(piece, path);
+  }
+  return path;
+}
+
+/**
+ * Axis-aligned box around the piece as drawn — knobs included, at its
+ * current rotation — grown by `margin` on every side (e.g. for the shadow).
+ */
+export function pieceBounds(piece: PieceDef, margin = 0): Rect {
+  const { x, y, width: w, height: h, rotation } = piece;
+  const pad = piece.knobUnit * KNOB_SCALE;
+  const a = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(a));
+  const sin = Math.abs(Math.sin(a));
+  const hw = w / 2 + pad;
+  const hh = h / 2 + pad;
+  const ex = hw * cos + hh * sin + margin;
+  const ey = hw * sin + hh * cos + margin;
+  return { x: x + w / 2 - ex, y: y + h / 2 - ey, w: ex * 2, h: ey * 2 };
+}
+
+export function rectsOverlap(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+}
+
+/**
+ * Move the context origin to the piece's local (0, 0) corner, rotated around
+ * the piece centre. Everything drawn afterwards can use local path coordinates.
+ */
+export function applyPieceTransform(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  rotation: number,
+): void {
+  if (rotation === 0) {
+    ctx.translate(x, y);
+    return;
+  }
+  ctx.translate(x + w / 2, y + h / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.translate(-w / 2, -h / 2);
+}
+
 export function drawPiece(
   ctx: CanvasRenderingContext2D,
   piece: PieceDef,
@@ -21,13 +87,13 @@ export function drawPiece(
   boardH: number,
   options: { snapGlow?: boolean; snapGlowAlpha?: number } = {},
 ): void {
-  const { x, y, width: w, height: h, solvedX, solvedY } = piece;
-  const path = buildPiecePath(piece, KNOB_SCALE);
+  const { x, y, width: w, height: h, solvedX, solvedY, rotation } = piece;
+  const path = getPiecePath(piece);
   const glowAlpha = options.snapGlowAlpha ?? 1;
 
   // ── 1. Drop shadow ────────────────────────────────────────────────────────
   ctx.save();
-  ctx.translate(x, y);
+  applyPieceTransform(ctx, x, y, w, h, rotation);
   if (options.snapGlow) {
     ctx.shadowColor = `rgba(60,210,60,${(0.9 * glowAlpha).toFixed(2)})`;
     ctx.shadowBlur = 28 * glowAlpha;
@@ -51,7 +117,7 @@ export function drawPiece(
 
   // ── 2. Clipped image ──────────────────────────────────────────────────────
   ctx.save();
-  ctx.translate(x, y);
+  applyPieceTransform(ctx, x, y, w, h, rotation);
   ctx.clip(path);
 
   // Draw the full board image offset so the correct slice shows through
@@ -96,7 +162,7 @@ export function drawPiece(
 
   // ── 4. Outline ────────────────────────────────────────────────────────────
   ctx.save();
-  ctx.translate(x, y);
+  applyPieceTransform(ctx, x, y, w, h, rotation);
 
   if (options.snapGlow) {
     ctx.strokeStyle = `rgba(60,210,60,${(0.9 * glowAlpha).toFixed(2)})`;
@@ -0,0 +1,145 @@
+/**
+ * Pre-rendered piece sprites for the table (tableRenderer.ts).
+ *
+ * drawPiece rebuilds the clip, the drop shadow and four bevel gradients on
+ * every call. A sprite is that result rendered once into a canvas of its own —
+ * shadow and outline included — so putting the piece on the table is a single
+ * drawImage.
+ *
+ * Each piece has one sprite, rendered at its current rotation, selection and
+ * zoom step (spriteScale); it is rendered again when any of those change.
+ * Past the byte budget the least recently drawn sprites are dropped, so when
+ * zoomed in only the pieces around the view are kept. Sprites drawn in the
+ * current frame are never dropped for another one — with the table drawn in
+ * the same order every frame that would re-render every sprite each time —
+ * so a frame that alone goes over budget draws the rest with drawPiece.
+ *
+ * Shadow blur is in canvas pixels whatever the transform, the same as when
+ * drawPiece draws straight onto the table, which is why the sprite margin is
+ * in pixels too.
+ */
+
+import type { PieceDef } from './generator';
+import { Rect, drawPiece, pieceBounds } from './renderer';
+
+export type CanvasFactory = (width: number, height: number) => HTMLCanvasElement;
+
+/** Room around a sprite for the drop / selection shadow, in canvas px */
+export const SHADOW_MARGIN_PX = 24;
+/** Sprites are rendered for the first of these the camera zoom fits under */
+const ZOOM_STEPS = [1, 1.5, 2, 3, 4, 5, 6.5, 8];
+const SPRITE_BUDGET_BYTES = 96 * 1024 * 1024;
+
+export const createCanvas: CanvasFactory = (width, height) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/** Sprite resolution in canvas px per world unit for this zoom and pixel ratio. */
+export function spriteScale(zoom: number, dpr: number): number {
+  const step = ZOOM_STEPS.find(s => s >= zoom - 0.001) ?? ZOOM_STEPS[ZOOM_STEPS.length - 1];
+  return step * dpr;
+}
+
+interface Sprite {
+  canvas: HTMLCanvasElement;
+  /** Where the sprite goes, relative to the piece's x / y, in world units */
+  bounds: Rect;
+  rotation: number;
+  selected: boolean;
+  scale: number;
+  bytes: number;
+  /** Frame it was last drawn in */
+  frame: number;
+}
+
+export interface SpriteCache {
+  /** Start of a frame; sprites drawn since the last call are safe from eviction. */
+  nextFrame(): void;
+  /** Draw `piece` from its sprite, rendering the sprite at `scale` first if needed. */
+  draw(ctx: CanvasRenderingContext2D, piece: PieceDef, scale: number): void;
+  clear(): void;
+}
+
+export function createSpriteCache(
+  image: HTMLCanvasElement,
+  boardW: number,
+  boardH: number,
+  makeCanvas: CanvasFactory = createCanvas,
+  budgetBytes = SPRITE_BUDGET_BYTES,
+): SpriteCache {
+  // Insertion order is draw order: the first entry is the least recently drawn
+  const sprites = new Map<string, Sprite>();
+  let total = 0;
+  let frame = 0;
+
+  function drop(id: string) {
+    const sprite = sprites.get(id);
+    if (!sprite) return;
+    sprites.delete(id);
+    total -= sprite.bytes;
+    // Frees the backing store right away on Safari
+    sprite.canvas.width = 0;
+    sprite.canvas.height = 0;
+  }
+
+  /** Drop sprites from earlier frames until `bytes` more fit; false if they can't. */
+  function makeRoom(bytes: number): boolean {
+    for (const [id, sprite] of sprites) {
+      if (total + bytes <= budgetBytes || sprite.frame === frame) break;
+      drop(id);
+    }
+    return total + bytes <= budgetBytes;
+  }
+
+  function render(piece: PieceDef, scale: number): Sprite | null {
+    const local = { ...piece, x: 0, y: 0 };
+    const area = pieceBounds(local, SHADOW_MARGIN_PX / scale);
+    const w = Math.max(1, Math.ceil(area.w * scale));
+    const h = Math.max(1, Math.ceil(area.h * scale));
+    if (!makeRoom(w * h * 4)) return null;
+    const canvas = makeCanvas(w, h);
+    const ctx = canvas.getContext('2d')!;
+    ctx.setTransform(scale, 0, 0, scale, -area.x * scale, -area.y * scale);
+    drawPiece(ctx, local, image, boardW, boardH);
+    return {
+      canvas,
+      bounds: { x: area.x, y: area.y, w: w / scale, h: h / scale },
+      rotation: piece.rotation,
+      selected: piece.isSelected,
+      scale,
+      bytes: w * h * 4,
+      frame,
+    };
+  }
+
+  return {
+    nextFrame() {
+      frame++;
+    },
+    draw(ctx, piece, scale) {
+      let sprite = sprites.get(piece.id);
+      if (sprite && sprite.rotation === piece.rotation && sprite.selected === piece.isSelected && sprite.scale === scale) {
+        sprites.delete(piece.id);
+      } else {
+        drop(piece.id);
+        sprite = render(piece, scale);
+        if (!sprite) {
+          drawPiece(ctx, piece, image, boardW, boardH);
+          return;
+        }
+        total += sprite.bytes;
+      }
+      sprite.frame = frame;
+      sprites.set(piece.id, sprite);
+
+      const { x, y, w, h } = sprite.bounds;
+      ctx.drawImage(sprite.canvas, piece.x + x, piece.y + y, w, h);
+    },
+    clear() {
+      for (const id of [...sprites.keys()]) drop(id);
+    },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Play statistics for PuzzleCanvas — active time, moves, snaps and streaks.
+ *
+ * A move is any recorded user action (one history command). A snap is a
+ * move that placed a piece or joined groups; the streak counts snaps in a
+ * row and breaks on a move that didn't snap. Undo/redo don't count; hints
+ * are counted on their own.
+ *
+ * Active time only runs while someone is actually playing: the clock stops
+ * when the app goes to the background or the puzzle is closed, and also
+ * after IDLE_MS without a touch (the time up to the idle cut-off still
+ * counts). The stats are stored with the save, so the clock carries on
+ * where it left off after a resume.
+ */
+
+import type { HistoryKind } from './history';
+
+export interface PuzzleStats {
+  /** Milliseconds of active play */
+  activeMs: number;
+  moves: number;
+  snaps: number;
+  /** Snaps in a row up to now */
+  streak: number;
+  longestStreak: number;
+  /** Hints shown (hints.ts) */
+  hints: number;
+}
+
+export const EMPTY_STATS: PuzzleStats = { activeMs: 0, moves: 0, snaps: 0, streak: 0, longestStreak: 0, hints: 0 };
+
+/** No touch for this long counts as having walked away */
+export const IDLE_MS = 60_000;
+
+/** Count one recorded action. */
+export function recordMove(stats: PuzzleStats, kind: HistoryKind): PuzzleStats {
+  const snapped = kind === 'snap' || kind === 'merge';
+  const streak = snapped ? stats.streak + 1 : 0;
+  return {
+    ...stats,
+    moves: stats.moves + 1,
+    snaps: stats.snaps + (snapped ? 1 : 0),
+    streak,
+    longestStreak: Math.max(stats.longestStreak, streak),
+  };
+}
+
+// ─── Active-time clock ────────────────────────────────────────────────────────
+
+export interface PlayClock {
+  /** Time from finished stretches of play */
+  accumulatedMs: number;
+  /** Start of the running stretch; null while paused */
+  runningSince: number | null;
+  lastActivity: number;
+}
+
+export function pausedClock(activeMs: number): PlayClock {
+  return { accumulatedMs: activeMs, runningSince: null, lastActivity: 0 };
+}
+
+/** Total active time, counting the running stretch up to the idle cut-off. */
+export function clockElapsed(clock: PlayClock, now: number): number {
+  if (clock.runningSince === null) return clock.accumulatedMs;
+  const end = Math.min(now, clock.lastActivity + IDLE_MS);
+  return clock.accumulatedMs + Math.max(0, end - clock.runningSince);
+}
+
+export function pauseClock(clock: PlayClock, now: number): PlayClock {
+  if (clock.runningSince === null) return clock;
+  return { ...clock, accumulatedMs: clockElapsed(clock, now), runningSince: null };
+}
+
+/** A touch: starts the clock, or restarts it after an idle gap. */
+export function touchClock(clock: PlayClock, now: number): PlayClock {
+  const idle = clock.runningSince !== null && now - clock.lastActivity > IDLE_MS;
+  const base = idle ? pauseClock(clock, now) : clock;
+  return { ...base, runningSince: base.runningSince ?? now, lastActivity: now };
+}
+
+/** "1:05" or "1:02:05" */
+export function formatPlayTime(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
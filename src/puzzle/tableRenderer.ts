@@ -0,0 +1,311 @@
+/**
+ * The table layer for PuzzleCanvas — background, board, guide outlines and
+ * every piece lying on the table — kept in an offscreen canvas between frames.
+ *
+ * Each frame, render() checks every piece against how it was last drawn
+ * (position, rotation, z-order, placed / selected, hidden, snap glow) and
+ * redraws only the regions the changed pieces covered before and cover now:
+ * clipped to the region, with just the pieces overlapping it, from sprites
+ * (spriteCache.ts). Dragging a piece therefore costs the area around it, not
+ * the whole table. The layer then goes onto the screen in one drawImage and
+ * PuzzleCanvas draws what moves every frame on top: the dragged piece, the
+ * snap preview, hints and the minimap.
+ *
+ * What moves the whole view — camera, canvas size, the guide toggle — redraws
+ * everything, still from sprites and skipping pieces off screen. A glowing
+ * piece is drawn with drawPiece, since its glow fades every frame.
+ */
+
+import type { PieceDef } from './generator';
+import { Camera } from './camera';
+import { Rect, drawPiece, getPiecePath, pieceBounds, rectsOverlap } from './renderer';
+import { CanvasFactory, SHADOW_MARGIN_PX, createCanvas, createSpriteCache, spriteScale } from './spriteCache';
+
+/** Room around a glowing piece, in canvas px (the glow blurs up to 28px) */
+const GLOW_MARGIN_PX = 36;
+/** Past this share of the screen, one full redraw is cheaper than the regions */
+const FULL_REDRAW_SHARE = 0.5;
+
+export interface TableScene {
+  boardX: number;
+  boardY: number;
+  boardW: number;
+  boardH: number;
+  boardImage: HTMLCanvasElement;
+  /** Masked board outline in board coordinates; null = full rectangle */
+  outline: Path2D | null;
+  pieces: PieceDef[];
+}
+
+export interface TableView {
+  cam: Camera;
+  /** Canvas size in CSS px */
+  cw: number;
+  ch: number;
+  dpr: number;
+}
+
+export interface TableState {
+  /** Pieces not lying on the table: in the tray, or the one being dragged */
+  isHidden: (piece: PieceDef) => boolean;
+  showGuide: boolean;
+  glowId: string | null;
+  glowAlpha: number;
+}
+
+export interface FrameStats {
+  fullRedraw: boolean;
+  /** Regions redrawn (0 when nothing changed) */
+  regions: number;
+  piecesDrawn: number;
+}
+
+export interface TableRenderer {
+  /** Bring the layer up to date and copy it onto `ctx` (CSS px transform). */
+  render(ctx: CanvasRenderingContext2D, view: TableView, state: TableState): FrameStats;
+  /** Draw a piece from the sprite cache through the current camera, e.g. the dragged one. */
+  drawPiece(ctx: CanvasRenderingContext2D, piece: PieceDef): void;
+  dispose(): void;
+}
+
+/** The table surface, top to bottom over `height` canvas px. */
+export function tableBackground(ctx: CanvasRenderingContext2D, height: number): CanvasGradient {
+  const gradient = ctx.createLinearGradient(0, 0, 0, height);
+  gradient.addColorStop(0, '#f0e6d4');
+  gradient.addColorStop(1, '#dfd0b4');
+  return gradient;
+}
+
+/** The board under the pieces, and the guide outlines when on (world transform). */
+export function drawBoard(ctx: CanvasRenderingContext2D, scene: TableScene, showGuide: boolean): void {
+  const { boardX: bx, boardY: by, boardW: bw, boardH: bh, outline, pieces } = scene;
+  if (outline) {
+    // Masked board: the same 8px margin, grown around the outline
+    ctx.save();
+    ctx.translate(bx, by);
+    ctx.shadowColor = 'rgba(0,0,0,0.14)';
+    ctx.shadowBlur = 28;
+    ctx.shadowOffsetY = 6;
+    ctx.fillStyle = '#f5edd9';
+    ctx.strokeStyle = '#f5edd9';
+    ctx.lineWidth = 16;
+    ctx.lineJoin = 'round';
+    ctx.stroke(outline);
+    ctx.shadowColor = 'transparent';
+    ctx.fill(outline);
+    ctx.strokeStyle = 'rgba(140,110,70,0.20)';
+    ctx.lineWidth = 1.5;
+    ctx.stroke(outline);
+    ctx.restore();
+  } else {
+    ctx.save();
+    ctx.shadowColor = 'rgba(0,0,0,0.14)';
+    ctx.shadowBlur = 28;
+    ctx.shadowOffsetY = 6;
+    ctx.fillStyle = '#f5edd9';
+    ctx.beginPath();
+    ctx.roundRect(bx - 8, by - 8, bw + 16, bh + 16, 12);
+    ctx.fill();
+    ctx.restore();
+    ctx.strokeStyle = 'rgba(140,110,70,0.20)';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.roundRect(bx - 8, by - 8, bw + 16, bh + 16, 12);
+    ctx.stroke();
+  }
+
+  // Guide outlines — show solved position for every piece not yet snapped in
+  if (!showGuide) return;
+  if (outline) {
+    ctx.save();
+    ctx.translate(bx, by);
+    ctx.globalAlpha = 0.3;
+    ctx.strokeStyle = '#6b5030';
+    ctx.lineWidth = 1.5;
+    ctx.stroke(outline);
+    ctx.restore();
+  }
+  for (const p of pieces) {
+    if (p.isPlaced) continue;
+    ctx.save();
+    ctx.translate(bx + p.solvedX, by + p.solvedY);
+    ctx.globalAlpha = 0.14;
+    ctx.strokeStyle = '#6b5030';
+    ctx.lineWidth = 1;
+    ctx.stroke(getPiecePath(p));
+    ctx.restore();
+  }
+}
+
+/** How a piece was last drawn into the layer */
+interface Drawn {
+  x: number;
+  y: number;
+  rotation: number;
+  zIndex: number;
+  isPlaced: boolean;
+  isSelected: boolean;
+  glow: number;
+  /** null while hidden */
+  bounds: Rect | null;
+}
+
+export function createTableRenderer(scene: TableScene, makeCanvas: CanvasFactory = createCanvas): TableRenderer {
+  const { boardW: bw, boardH: bh, boardImage, pieces } = scene;
+  const sprites = createSpriteCache(boardImage, bw, bh, makeCanvas);
+  const drawn = new Map<string, Drawn>();
+  let layer: HTMLCanvasElement | null = null;
+  let background: CanvasGradient | null = null;
+  let lastCam: Camera | null = null;
+  let lastGuide = false;
+  let scale = 1;
+
+  /** Pieces whose look changed since the last frame, as world rects to redraw. */
+  function collectDirty(state: TableState, pxPerUnit: number): Rect[] {
+    const dirty: Rect[] = [];
+    for (const p of pieces) {
+      const hidden = state.isHidden(p);
+      const glow = p.id === state.glowId ? state.glowAlpha : 0;
+      const prev = drawn.get(p.id);
+      if (
+        prev &&
+        prev.x === p.x && prev.y === p.y && prev.rotation === p.rotation && prev.zIndex === p.zIndex &&
+        prev.isPlaced === p.isPlaced && prev.isSelected === p.isSelected && prev.glow === glow &&
+        (prev.bounds === null) === hidden
+      ) continue;
+
+      if (prev?.bounds) dirty.push(prev.bounds);
+      const bounds = hidden ? null : pieceBounds(p, (glow > 0 ? GLOW_MARGIN_PX : SHADOW_MARGIN_PX) / pxPerUnit);
+      if (bounds) dirty.push(bounds);
+      drawn.set(p.id, {
+        x: p.x, y: p.y, rotation: p.rotation, zIndex: p.zIndex,
+        isPlaced: p.isPlaced, isSelected: p.isSelected, glow, bounds,
+      });
+    }
+    return dirty;
+  }
+
+  /** Redraw one region of the layer, given in layer px. */
+  function redraw(ctx: CanvasRenderingContext2D, region: Rect, view: TableView, state: TableState, order: PieceDef[]): number {
+    const { cam, dpr } = view;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.beginPath();
+    ctx.rect(region.x, region.y, region.w, region.h);
+    ctx.clip();
+    ctx.fillStyle = background!;
+    ctx.fillRect(region.x, region.y, region.w, region.h);
+
+    const k = dpr * cam.zoom;
+    ctx.setTransform(k, 0, 0, k, cam.x * dpr, cam.y * dpr);
+    drawBoard(ctx, scene, state.showGuide);
+
+    const area = { x: (region.x - cam.x * dpr) / k, y: (region.y - cam.y * dpr) / k, w: region.w / k, h: region.h / k };
+    let count = 0;
+    for (const p of order) {
+      const bounds = drawn.get(p.id)?.bounds;
+      if (!bounds || !rectsOverlap(bounds, area)) continue;
+      if (p.id === state.glowId && state.glowAlpha > 0) {
+        drawPiece(ctx, p, boardImage, bw, bh, { snapGlow: true, snapGlowAlpha: state.glowAlpha });
+      } else {
+        sprites.draw(ctx, p, scale);
+      }
+      count++;
+    }
+    ctx.restore();
+    return count;
+  }
+
+  return {
+    render(ctx, view, state) {
+      const { cam, cw, ch, dpr } = view;
+      sprites.nextFrame();
+      const lw = Math.round(cw * dpr);
+      const lh = Math.round(ch * dpr);
+      let full = false;
+      if (!layer || layer.width !== lw || layer.height !== lh) {
+        if (layer) {
+          layer.width = lw;
+          layer.height = lh;
+        } else {
+          layer = makeCanvas(lw, lh);
+        }
+        background = null;
+        full = true;
+      }
+      const lctx = layer.getContext('2d')!;
+      if (!background) background = tableBackground(lctx, lh);
+      if (!lastCam || lastCam.zoom !== cam.zoom || lastCam.x !== cam.x || lastCam.y !== cam.y) full = true;
+      if (state.showGuide !== lastGuide) full = true;
+      lastCam = cam;
+      lastGuide = state.showGuide;
+      scale = spriteScale(cam.zoom, dpr);
+
+      const k = dpr * cam.zoom;
+      const dirty = collectDirty(state, k);
+      let regions: Rect[] = [];
+      if (!full) {
+        regions = mergeRects(dirty.map(r => clampRect(toLayer(r, cam, dpr), lw, lh)).filter(r => r.w > 0 && r.h > 0));
+        const area = regions.reduce((n, r) => n + r.w * r.h, 0);
+        if (area > lw * lh * FULL_REDRAW_SHARE) full = true;
+      }
+      if (full) regions = [{ x: 0, y: 0, w: lw, h: lh }];
+
+      let piecesDrawn = 0;
+      if (regions.length > 0) {
+        // Placed pieces underneath, then the loose ones, each in z-order
+        const order = [...pieces].sort((a, b) => Number(b.isPlaced) - Number(a.isPlaced) || a.zIndex - b.zIndex);
+        for (const region of regions) piecesDrawn += redraw(lctx, region, view, state, order);
+      }
+
+      ctx.drawImage(layer, 0, 0, cw, ch);
+      return { fullRedraw: full, regions: regions.length, piecesDrawn };
+    },
+
+    drawPiece(ctx, piece) {
+      sprites.draw(ctx, piece, scale);
+    },
+
+    dispose() {
+      sprites.clear();
+      if (layer) {
+        layer.width = 0;
+        layer.height = 0;
+      }
+      layer = null;
+    },
+  };
+}
+
+/** World rect → layer px, rounded outwards. */
+function toLayer(r: Rect, cam: Camera, dpr: number): Rect {
+  const k = dpr * cam.zoom;
+  const x = Math.floor(r.x * k + cam.x * dpr);
+  const y = Math.floor(r.y * k + cam.y * dpr);
+  return { x, y, w: Math.ceil((r.x + r.w) * k + cam.x * dpr) - x, h: Math.ceil((r.y + r.h) * k + cam.y * dpr) - y };
+}
+
+function clampRect(r: Rect, w: number, h: number): Rect {
+  const x = Math.max(0, r.x);
+  const y = Math.max(0, r.y);
+  return { x, y, w: Math.min(w, r.x + r.w) - x, h: Math.min(h, r.y + r.h) - y };
+}
+
+/** Join overlapping rects, so no spot is redrawn twice in a frame. */
+export function mergeRects(rects: Rect[]): Rect[] {
+  const out = [...rects];
+  for (let i = 0; i < out.length; i++) {
+    for (let j = i + 1; j < out.length; j++) {
+      if (!rectsOverlap(out[i], out[j])) continue;
+      const a = out[i];
+      const b = out[j];
+      const x = Math.min(a.x, b.x);
+      const y = Math.min(a.y, b.y);
+      out[i] = { x, y, w: Math.max(a.x + a.w, b.x + b.w) - x, h: Math.max(a.y + a.h, b.y + b.h) - y };
+      out.splice(j, 1);
+      // The grown rect may now reach ones already passed
+      j = i;
+    }
+  }
+  return out;
+}
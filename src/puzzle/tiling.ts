@@ -0,0 +1,358 @@
+/**
+ * Board tilings — the lattice of cells a puzzle is cut from.
+ *
+ * Every tiling produces plain polygons in board pixel coordinates, wound the
+ * same way as the classic square piece (top-left → top-right → bottom-right →
+ * …, i.e. positive shoelace area with y pointing down). The generator turns
+ * shared polygon edges into interlocking tab/blank edges, so a tiling never
+ * has to know anything about knobs.
+ *
+ * Cells are clipped to the board rectangle, so pieces along the border get
+ * straight outer edges just like the square grid.
+ */
+
+export type Tiling = 'square' | 'hex' | 'triangle';
+
+/**
+ * grid      = perfectly regular lattice
+ * realistic = lattice corners nudged by a seeded amount, so pieces differ in
+ *             size and edge lines are no longer straight across the board
+ */
+export type LatticeLayout = 'grid' | 'realistic';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface TilingCell {
+  col: number;
+  row: number;
+  /** Polygon in board coordinates */
+  poly: Point[];
+}
+
+export interface TilingCells {
+  cells: TilingCell[];
+  /** Typical edge length — knobs are sized from this so neighbours agree */
+  knobUnit: number;
+}
+
+/** Signed shoelace area; positive for the winding used by puzzle pieces. */
+export function polygonArea(poly: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i];
+    const b = poly[(i + 1) % poly.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+/**
+ * Sutherland–Hodgman clip of `subject` against the convex polygon `clip`.
+ * Both must use the piece winding. The subject may be concave.
+ */
+export function clipPolygon(subject: Point[], clip: Point[]): Point[] {
+  let output = subject;
+  for (let i = 0; i < clip.length && output.length > 0; i++) {
+    const a = clip[i];
+    const b = clip[(i + 1) % clip.length];
+    // Inside = on the right of a→b in screen space (same side as the polygon body)
+    const side = (p: Point) => (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+    const input = output;
+    output = [];
+    for (let j = 0; j < input.length; j++) {
+      const cur = input[j];
+      const prev = input[(j + input.length - 1) % input.length];
+      const sCur = side(cur);
+      const sPrev = side(prev);
+      if (sCur >= 0) {
+        if (sPrev < 0) output.push(intersect(prev, cur, sPrev, sCur));
+        output.push(cur);
+      } else if (sPrev >= 0) {
+        output.push(intersect(prev, cur, sPrev, sCur));
+      }
+    }
+  }
+  return output;
+}
+
+function intersect(p: Point, q: Point, sp: number, sq: number): Point {
+  const t = sp / (sp - sq);
+  return { x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t };
+}
+
+// Vertices closer than 1/100 px are the same lattice point
+export function pointKey(p: Point): string {
+  return `${Math.round(p.x * 100)}:${Math.round(p.y * 100)}`;
+}
+
+/** Deterministic pseudo-random value in [0, 1) for a string + seed. */
+function hashUnit(key: string, seed: number): number {
+  let h = (seed ^ 0x9e3779b9) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    h = Math.imul(h ^ key.charCodeAt(i), 0x85ebca6b);
+    h ^= h >>> 13;
+  }
+  h = Math.imul(h ^ (h >>> 16), 0xc2b2ae35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+/**
+ * Key for a lattice vertex by its position as a fraction of the board, so the
+ * same corner gets the same key whatever size the board is drawn at. Lattice
+ * fractions are ratios of small integers; the irrational offset keeps them
+ * away from the floor's boundaries, where float error could tip them over.
+ */
+function latticeKey(p: Point, width: number, height: number): string {
+  const q = (v: number) => Math.floor(v * 10000 + Math.SQRT1_2);
+  return `${q(p.x / width)}:${q(p.y / height)}`;
+}
+
+/**
+ * Move every lattice vertex by up to ±amount px. The offset is derived from
+ * the vertex's place on the board and seed, so neighbouring cells (which
+ * share vertex coordinates) move their common corners identically and a
+ * save recreates the same cut on any board size. Vertices on the board
+ * border only slide along it.
+ */
+export function jitterCells(
+  cells: TilingCell[],
+  width: number,
+  height: number,
+  amount: number,
+  seed: number,
+): TilingCell[] {
+  const eps = 0.01;
+  const moved = new Map<string, Point>();
+  const jitter = (p: Point): Point => {
+    const key = latticeKey(p, width, height);
+    let q = moved.get(key);
+    if (!q) {
+      const onX = Math.abs(p.x) < eps || Math.abs(p.x - width) < eps;
+      const onY = Math.abs(p.y) < eps || Math.abs(p.y - height) < eps;
+      q = {
+        x: onX ? p.x : p.x + (hashUnit(`${key}x`, seed) * 2 - 1) * amount,
+        y: onY ? p.y : p.y + (hashUnit(`${key}y`, seed) * 2 - 1) * amount,
+      };
+      moved.set(key, q);
+    }
+    return q;
+  };
+  return cells.map(cell => ({ ...cell, poly: cell.poly.map(jitter) }));
+}
+
+/**
+ * Snap vertices of different polygons that lie within `tolerance` px of each
+ * other onto one point. Clipping the same mask against two neighbouring cells
+ * gives intersection points that differ in the last bits; after welding their
+ * shared edges compare equal.
+ */
+export function weldVertices(polys: Point[][], tolerance: number): Point[][] {
+  const buckets = new Map<string, Point[]>();
+  const bucketKey = (bx: number, by: number) => `${bx}:${by}`;
+  const weld = (p: Point): Point => {
+    const bx = Math.floor(p.x / tolerance);
+    const by = Math.floor(p.y / tolerance);
+    for (let ox = -1; ox <= 1; ox++) {
+      for (let oy = -1; oy <= 1; oy++) {
+        for (const q of buckets.get(bucketKey(bx + ox, by + oy)) ?? []) {
+          if (Math.abs(q.x - p.x) <= tolerance && Math.abs(q.y - p.y) <= tolerance) return q;
+        }
+      }
+    }
+    const key = bucketKey(bx, by);
+    const list = buckets.get(key);
+    if (list) list.push(p); else buckets.set(key, [p]);
+    return p;
+  };
+  return polys.map(poly => poly.map(weld));
+}
+
+/**
+ * Rebuild closed loops from a set of polygons: sides that occur in both
+ * directions cancel out and the rest are chained back together. This splits
+ * a degenerate clip result (two lobes joined by a zero-width bridge) into
+ * separate polygons, and turns two polygons that share sides into their union.
+ */
+export function loopsFromEdges(polys: Point[][]): Point[][] {
+  const vertices = new Map<string, Point>();
+  for (const poly of polys) for (const p of poly) vertices.set(pointKey(p), p);
+
+  // Split sides at vertices lying on them, so overlapping sides line up
+  const edges: [Point, Point][] = [];
+  for (const poly of polys) {
+    poly.forEach((a, i) => {
+      const b = poly[(i + 1) % poly.length];
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const len2 = dx * dx + dy * dy;
+      if (len2 === 0) return;
+      const cuts: { t: number; p: Point }[] = [];
+      for (const p of vertices.values()) {
+        const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2;
+        if (t <= 1e-6 || t >= 1 - 1e-6) continue;
+        const cross = (p.x - a.x) * dy - (p.y - a.y) * dx;
+        if (Math.abs(cross) / Math.sqrt(len2) < 0.01) cuts.push({ t, p });
+      }
+      cuts.sort((u, v) => u.t - v.t);
+      let from = a;
+      for (const { p } of cuts) { edges.push([from, p]); from = p; }
+      edges.push([from, b]);
+    });
+  }
+
+  // Cancel opposite pairs
+  const open = new Map<string, number[]>();
+  const alive = edges.map(() => true);
+  edges.forEach(([a, b], i) => {
+    const reverse = open.get(`${pointKey(b)}>${pointKey(a)}`);
+    if (reverse && reverse.length) {
+      alive[reverse.pop()!] = false;
+      alive[i] = false;
+      return;
+    }
+    const key = `${pointKey(a)}>${pointKey(b)}`;
+    const list = open.get(key);
+    if (list) list.push(i); else open.set(key, [i]);
+  });
+
+  const outgoing = new Map<string, number[]>();
+  edges.forEach(([a], i) => {
+    if (!alive[i]) return;
+    const key = pointKey(a);
+    const list = outgoing.get(key);
+    if (list) list.push(i); else outgoing.set(key, [i]);
+  });
+
+  const loops: Point[][] = [];
+  edges.forEach(([start], i) => {
+    if (!alive[i]) return;
+    const loop: Point[] = [];
+    let e = i;
+    while (alive[e]) {
+      alive[e] = false;
+      loop.push(edges[e][0]);
+      const nextList = outgoing.get(pointKey(edges[e][1])) ?? [];
+      const nextEdge = nextList.find(n => alive[n]);
+      if (nextEdge === undefined || pointKey(edges[e][1]) === pointKey(start)) break;
+      e = nextEdge;
+    }
+    if (loop.length >= 3) loops.push(loop);
+  });
+  return loops;
+}
+
+/** The classic cols × rows grid as polygons (used when it needs jitter or clipping). */
+export function squareCells(width: number, height: number, cols: number, rows: number): TilingCells {
+  const w = width / cols;
+  const h = height / rows;
+  const cells: TilingCell[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      cells.push({ col, row, poly: rectPolygon(col * w, row * h, w, h) });
+    }
+  }
+  return { cells, knobUnit: Math.min(w, h) };
+}
+
+export function rectPolygon(x: number, y: number, w: number, h: number): Point[] {
+  return [
+    { x, y },
+    { x: x + w, y },
+    { x: x + w, y: y + h },
+    { x, y: y + h },
+  ];
+}
+
+/**
+ * Pointy-top hexagons in offset rows. Even rows start on the left border
+ * (half hexes), odd rows are shifted half a cell so they sit flush with it.
+ * The first and last rows are centred on the top/bottom border.
+ */
+export function hexCells(width: number, height: number, cols: number, rows: number): TilingCells {
+  const c = Math.max(cols, 2);
+  const r = Math.max(rows, 2);
+  const hexW = width / (c - 1);
+  const hexH = height / ((r - 1) * 0.75);
+  const halfW = hexW / 2;
+  const rad = hexH / 2;
+
+  const cells: TilingCell[] = [];
+  for (let row = 0; row < r; row++) {
+    const odd = row % 2 === 1;
+    const cy = row * hexH * 0.75;
+    const count = odd ? c - 1 : c;
+    for (let col = 0; col < count; col++) {
+      const cx = (col + (odd ? 0.5 : 0)) * hexW;
+      cells.push({
+        col,
+        row,
+        poly: [
+          { x: cx, y: cy - rad },
+          { x: cx + halfW, y: cy - rad / 2 },
+          { x: cx + halfW, y: cy + rad / 2 },
+          { x: cx, y: cy + rad },
+          { x: cx - halfW, y: cy + rad / 2 },
+          { x: cx - halfW, y: cy - rad / 2 },
+        ],
+      });
+    }
+  }
+  return { cells, knobUnit: Math.min(hexW / Math.sqrt(3), rad) * 1.1 };
+}
+
+/**
+ * Rows of alternating up/down triangles. `cols` is the number of triangle
+ * bases that fit across two rows' worth of width, so each row holds
+ * cols + 1 pieces (two of them half triangles on the borders).
+ */
+export function triangleCells(width: number, height: number, cols: number, rows: number): TilingCells {
+  const c = Math.max(cols, 2);
+  const r = Math.max(rows, 1);
+  const base = (2 * width) / c;
+  const rowH = height / r;
+  // Bounds in whole bases and with slack, so float error at the borders
+  // can't change which triangles a board of another size gets
+  const eps = width * 1e-9;
+
+  const cells: TilingCell[] = [];
+  for (let row = 0; row < r; row++) {
+    const y0 = row * rowH;
+    const y1 = y0 + rowH;
+    const odd = row % 2 === 1;
+    const shift = odd ? base / 2 : 0;
+    const lastK = Math.floor(c / 2 + (odd ? 0.5 : 1));
+    let col = 0;
+    for (let k = -1; k <= lastK; k++) {
+      const apex = shift + k * base;
+      const up = [
+        { x: apex, y: y0 },
+        { x: apex + base / 2, y: y1 },
+        { x: apex - base / 2, y: y1 },
+      ];
+      const down = [
+        { x: apex, y: y0 },
+        { x: apex + base, y: y0 },
+        { x: apex + base / 2, y: y1 },
+      ];
+      for (const poly of [up, down]) {
+        // Skip triangles that lie completely outside the board
+        const minX = Math.min(...poly.map(p => p.x));
+        const maxX = Math.max(...poly.map(p => p.x));
+        if (maxX <= eps || minX >= width - eps) continue;
+        cells.push({ col: col++, row, poly });
+      }
+    }
+  }
+  return { cells, knobUnit: Math.min(base, rowH) * 0.6 };
+}
+
+/** Number of pieces a tiling produces for a cols × rows request. */
+export function countTilingPieces(tiling: Tiling, cols: number, rows: number): number {
+  if (tiling === 'hex') return rows * cols - Math.floor(rows / 2);
+  if (tiling === 'triangle') return rows * (cols + 1);
+  return cols * rows;
+}
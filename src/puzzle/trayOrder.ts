@@ -0,0 +1,84 @@
+/**
+ * Tray ordering — how DrawerTray lays out the loose pieces.
+ *
+ * Works the way people sort a physical puzzle: pull out the edge pieces
+ * first, then make colour piles. Sorting:
+ *
+ *   shuffled  the tray's own (shuffled) order
+ *   hue       by the piece's dominant colour (colorSort.ts), so colours
+ *             pile up; greys go last
+ *   colors    the same order, browsed one colour bin (tab) at a time —
+ *             DrawerTray picks the bin's pieces before arranging
+ *   knobs     grouped by knob pattern — how many tabs and blanks a piece
+ *             has — most tabs first
+ *
+ * The edge filter keeps only pieces with at least one flat (border) edge,
+ * which includes the corners.
+ */
+
+import type { PieceDef } from './generator';
+
+export type TraySort = 'shuffled' | 'hue' | 'colors' | 'knobs';
+
+export interface TrayGroup {
+  key: string;
+  /** Heading shown above the group; null when the tray isn't grouped */
+  label: string | null;
+  pieces: PieceDef[];
+}
+
+export function isEdgePiece(piece: PieceDef): boolean {
+  return piece.edges.some(e => e.type === 'flat');
+}
+
+export function knobPattern(piece: PieceDef): { tabs: number; blanks: number } {
+  let tabs = 0;
+  let blanks = 0;
+  for (const e of piece.edges) {
+    if (e.type === 'tab') tabs++;
+    else if (e.type === 'blank') blanks++;
+  }
+  return { tabs, blanks };
+}
+
+function knobLabel(tabs: number, blanks: number): string {
+  return `${tabs} ${tabs === 1 ? 'knopp' : 'knoppar'} · ${blanks} hål`;
+}
+
+/**
+ * Filter, sort and group the tray pieces for display. `colorKeyOf`
+ * (colorSortKey of the piece's colours) is only called when sorting by colour.
+ */
+export function arrangeTray(
+  pieces: PieceDef[],
+  sort: TraySort,
+  edgesOnly: boolean,
+  colorKeyOf: (piece: PieceDef) => number,
+): TrayGroup[] {
+  const shown = edgesOnly ? pieces.filter(isEdgePiece) : pieces;
+
+  if (sort === 'hue' || sort === 'colors') {
+    const keys = new Map(shown.map(p => [p.id, colorKeyOf(p)]));
+    const sorted = [...shown].sort((a, b) => keys.get(a.id)! - keys.get(b.id)!);
+    return [{ key: 'all', label: null, pieces: sorted }];
+  }
+
+  if (sort === 'knobs') {
+    const groups = new Map<string, { tabs: number; blanks: number; pieces: PieceDef[] }>();
+    for (const p of shown) {
+      const { tabs, blanks } = knobPattern(p);
+      const key = `${tabs}-${blanks}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { tabs, blanks, pieces: [] };
+        groups.set(key, group);
+      }
+      group.pieces.push(p);
+    }
+    return [...groups.entries()]
+      .sort(([, a], [, b]) => b.tabs - a.tabs || b.blanks - a.blanks)
+      .map(([key, g]) => ({ key, label: knobLabel(g.tabs, g.blanks), pieces: g.pieces }));
+  }
+
+  return [{ key: 'all', label: null, pieces: shown }];
+}
@@ -0,0 +1,478 @@
+/**
+ * WebGL table renderer for large puzzles — the same TableRenderer interface
+ * as the Canvas 2D table (tableRenderer.ts), drawn on the GPU.
+ *
+ * Every piece is one textured quad, all of them in a single draw call:
+ *
+ *   board texture  the board image; a piece samples it at its solved position
+ *   mask atlas     one cell per piece, baked once from buildPiecePath:
+ *                    red    the piece shape (alpha mask)
+ *                    green  the shape blurred — drop shadow, selection and
+ *                           snap glow
+ *                    blue   the outline stroke
+ *
+ * The bevel is worked out in the fragment shader from the position inside
+ * the piece, and the shadow, selection and glow colours are uniforms, so the
+ * per-piece data is just where the quad goes and two state flags. Quads are
+ * written in the table's z-order and blended premultiplied, which layers
+ * them the way the 2D table does.
+ *
+ * The board, the guide outlines and the background are drawn with Canvas 2D
+ * into a backdrop canvas that only changes with the camera or the guide.
+ * The dragged piece comes from a sprite cache, as on the 2D table.
+ *
+ * createBestTableRenderer picks this renderer for puzzles of WEBGL_MIN_PIECES
+ * and up, and the 2D table when WebGL is unavailable — also if the context
+ * is lost mid-game.
+ */
+
+import type { PieceDef } from './generator';
+import { KNOB_SCALE } from './generator';
+import { getPiecePath } from './renderer';
+import { createCanvas, createSpriteCache, spriteScale } from './spriteCache';
+import {
+  TableRenderer, TableScene, TableState, TableView, createTableRenderer, drawBoard, tableBackground,
+} from './tableRenderer';
+
+/** Puzzles from this size up are drawn with WebGL when the browser has it */
+export const WEBGL_MIN_PIECES = 500;
+/** Room around each mask for the shadow and glow, in world units */
+const MASK_MARGIN = 16;
+/** Blur of the green channel, in world units */
+const MASK_BLUR = 6;
+/** Mask resolution to aim for, in atlas px per world unit */
+const MASK_SCALE = 2;
+const MAX_ATLAS_SIZE = 4096;
+/** Drop shadow offset in world units, and colours as premultiplied-ready RGBA */
+const SHADOW_OFFSET = [1, 3];
+const SHADOW_COLOR = [0, 0, 0, 0.35];
+const SELECT_COLOR = [60 / 255, 100 / 255, 1, 0.75];
+const GLOW_COLOR = [60 / 255, 210 / 255, 60 / 255, 0.9];
+const OUTLINE_COLOR = [40 / 255, 30 / 255, 15 / 255, 0.35];
+
+// Per vertex: pos(2) local(2) size(2) cell(2) solved(2) rot(2) state(2)
+const FLOATS_PER_VERTEX = 14;
+
+const VERTEX_SHADER = `
+attribute vec2 a_pos;
+attribute vec2 a_local;
+attribute vec2 a_size;
+attribute vec2 a_cell;
+attribute vec2 a_solved;
+attribute vec2 a_rot;
+attribute vec2 a_state;
+uniform vec2 u_view;
+uniform vec3 u_cam;
+uniform vec2 u_boardSize;
+varying vec2 v_local;
+varying vec2 v_size;
+varying vec2 v_cell;
+varying vec2 v_boardUv;
+varying vec2 v_rot;
+varying vec2 v_state;
+void main() {
+  vec2 screen = a_pos * u_cam.x + u_cam.yz;
+  vec2 clip = screen / u_view * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_local = a_local;
+  v_size = a_size;
+  v_cell = a_cell;
+  v_boardUv = (a_solved + a_local) / u_boardSize;
+  v_rot = a_rot;
+  v_state = a_state;
+}`;
+
+const FRAGMENT_SHADER = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+uniform sampler2D u_board;
+uniform sampler2D u_masks;
+uniform vec2 u_cellUv;
+uniform vec2 u_cellSize;
+uniform float u_cellPad;
+uniform vec2 u_shadowOffset;
+uniform vec4 u_shadowColor;
+uniform vec4 u_selectColor;
+uniform vec4 u_glowColor;
+uniform vec4 u_outlineColor;
+varying vec2 v_local;
+varying vec2 v_size;
+varying vec2 v_cell;
+varying vec2 v_boardUv;
+varying vec2 v_rot;
+varying vec2 v_state;
+
+vec3 masks(vec2 local) {
+  vec2 p = local + u_cellPad;
+  if (p.x < 0.0 || p.y < 0.0 || p.x > u_cellSize.x || p.y > u_cellSize.y) return vec3(0.0);
+  return texture2D(u_masks, v_cell + p * u_cellUv).rgb;
+}
+
+vec4 over(vec4 top, vec4 bottom) {
+  return top + bottom * (1.0 - top.a);
+}
+
+void main() {
+  vec3 m = masks(v_local);
+  float selected = v_state.x;
+  float glow = v_state.y;
+
+  // Underneath: drop shadow, or the selection / glow halo
+  vec2 off = vec2(
+    v_rot.x * u_shadowOffset.x + v_rot.y * u_shadowOffset.y,
+    -v_rot.y * u_shadowOffset.x + v_rot.x * u_shadowOffset.y);
+  float shadow = masks(v_local - off).g * u_shadowColor.a;
+  vec4 under = vec4(u_shadowColor.rgb * shadow, shadow);
+  float halo = m.g * (glow > 0.0 ? u_glowColor.a * glow : u_selectColor.a * selected);
+  vec3 haloColor = glow > 0.0 ? u_glowColor.rgb : u_selectColor.rgb;
+  under = mix(under, vec4(haloColor * halo, halo), step(0.001, glow + selected));
+
+  // The piece: board image with the bevel of renderer.drawPiece
+  vec3 c = texture2D(u_board, v_boardUv).rgb;
+  vec2 f = v_local / v_size;
+  c *= 1.0 - 0.18 * 0.35 * clamp((f.y - 0.65) / 0.35, 0.0, 1.0);
+  c *= 1.0 - 0.10 * 0.30 * clamp((f.x - 0.7) / 0.3, 0.0, 1.0);
+  c = mix(c, vec3(1.0), 0.22 * 0.50 * clamp(1.0 - f.y / 0.18, 0.0, 1.0));
+  c = mix(c, vec3(1.0), 0.08 * 0.35 * clamp(1.0 - f.x / 0.15, 0.0, 1.0));
+  vec4 piece = vec4(c * m.r, m.r);
+
+  // Outline on top
+  vec4 line = glow > 0.0 ? vec4(u_glowColor.rgb, u_glowColor.a * glow)
+    : selected > 0.0 ? u_selectColor : u_outlineColor;
+  float lineA = m.b * line.a;
+  gl_FragColor = over(vec4(line.rgb * lineA, lineA), over(piece, under));
+}`;
+
+export interface AtlasLayout {
+  cols: number;
+  rows: number;
+  /** Atlas px per world unit */
+  scale: number;
+  /** Cell size in atlas px */
+  cellW: number;
+  cellH: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Grid for `count` cells of cellW × cellH world units in an atlas no bigger
+ * than maxSize px a side, at `scale` px per unit or as close under it as fits.
+ */
+export function atlasLayout(count: number, cellW: number, cellH: number, maxSize: number, scale = MASK_SCALE): AtlasLayout {
+  for (let s = scale; ; s *= 0.85) {
+    const cw = Math.max(1, Math.ceil(cellW * s));
+    const ch = Math.max(1, Math.ceil(cellH * s));
+    const cols = Math.max(1, Math.min(count, Math.floor(maxSize / cw)));
+    const rows = Math.ceil(count / cols);
+    if (rows * ch <= maxSize || s < 0.01) {
+      return { cols, rows, scale: s, cellW: cw, cellH: ch, width: cols * cw, height: rows * ch };
+    }
+  }
+}
+
+/** WebGL for big puzzles when available, otherwise the Canvas 2D table. */
+export function createBestTableRenderer(scene: TableScene): TableRenderer {
+  if (scene.pieces.length >= WEBGL_MIN_PIECES) {
+    const gl = createWebGLTableRenderer(scene);
+    if (gl) return gl;
+  }
+  return createTableRenderer(scene);
+}
+
+/** The WebGL table, or null when WebGL isn't available or can't hold the board. */
+export function createWebGLTableRenderer(scene: TableScene): TableRenderer | null {
+  const glCanvas = createCanvas(1, 1);
+  const gl = glCanvas.getContext('webgl', { premultipliedAlpha: true, preserveDrawingBuffer: true, antialias: false });
+  if (!gl) return null;
+  const maxTexture = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+  const maxSize = Math.min(MAX_ATLAS_SIZE, maxTexture);
+  const { boardImage, boardW, boardH, pieces } = scene;
+  if (boardImage.width > maxTexture || boardImage.height > maxTexture) return null;
+  const program = createProgram(gl);
+  if (!program) return null;
+
+  // ── Mask atlas ───────────────────────────────────────────────────────────
+  const pad = pieces.length > 0 ? pieces[0].knobUnit * KNOB_SCALE + MASK_MARGIN : MASK_MARGIN;
+  const maxW = Math.max(1, ...pieces.map(p => p.width));
+  const maxH = Math.max(1, ...pieces.map(p => p.height));
+  const layout = atlasLayout(pieces.length, maxW + pad * 2, maxH + pad * 2, maxSize);
+  const atlas = bakeMasks(pieces, layout, pad);
+  const cellOrigin = new Map<string, [number, number]>();
+  pieces.forEach((p, i) => {
+    cellOrigin.set(p.id, [((i % layout.cols) * layout.cellW) / layout.width, (Math.floor(i / layout.cols) * layout.cellH) / layout.height]);
+  });
+
+  const boardTexture = uploadTexture(gl, boardImage);
+  const maskTexture = uploadTexture(gl, atlas);
+  atlas.width = 0;
+  atlas.height = 0;
+
+  const u = (name: string) => gl.getUniformLocation(program, name);
+  gl.useProgram(program);
+  gl.uniform1i(u('u_board'), 0);
+  gl.uniform1i(u('u_masks'), 1);
+  gl.uniform2f(u('u_boardSize'), boardW, boardH);
+  gl.uniform2f(u('u_cellUv'), layout.scale / layout.width, layout.scale / layout.height);
+  gl.uniform2f(u('u_cellSize'), layout.cellW / layout.scale, layout.cellH / layout.scale);
+  gl.uniform1f(u('u_cellPad'), pad);
+  gl.uniform2f(u('u_shadowOffset'), SHADOW_OFFSET[0], SHADOW_OFFSET[1]);
+  gl.uniform4fv(u('u_shadowColor'), SHADOW_COLOR);
+  gl.uniform4fv(u('u_selectColor'), SELECT_COLOR);
+  gl.uniform4fv(u('u_glowColor'), GLOW_COLOR);
+  gl.uniform4fv(u('u_outlineColor'), OUTLINE_COLOR);
+  const uView = u('u_view');
+  const uCam = u('u_cam');
+
+  // ── Buffers: four vertices and six indices per piece ────────────────────
+  const vertices = new Float32Array(pieces.length * 4 * FLOATS_PER_VERTEX);
+  const indices = new Uint16Array(pieces.length * 6);
+  for (let i = 0; i < pieces.length; i++) {
+    indices.set([i * 4, i * 4 + 1, i * 4 + 2, i * 4, i * 4 + 2, i * 4 + 3], i * 6);
+  }
+  const vertexBuffer = gl.createBuffer();
+  const indexBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, vertices.byteLength, gl.DYNAMIC_DRAW);
+  gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+  gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+  const attributes: [string, number][] = [
+    ['a_pos', 0], ['a_local', 2], ['a_size', 4], ['a_cell', 6], ['a_solved', 8], ['a_rot', 10], ['a_state', 12],
+  ];
+  for (const [name, offset] of attributes) {
+    const loc = gl.getAttribLocation(program, name);
+    gl.enableVertexAttribArray(loc);
+    gl.vertexAttribPointer(loc, 2, gl.FLOAT, false, FLOATS_PER_VERTEX * 4, offset * 4);
+  }
+  gl.enable(gl.BLEND);
+  gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+  let lost = false;
+  let fallback: TableRenderer | null = null;
+  glCanvas.addEventListener('webglcontextlost', e => {
+    e.preventDefault();
+    lost = true;
+  });
+
+  const backdrop = createCanvas(1, 1);
+  let backdropKey = '';
+  const sprites = createSpriteCache(boardImage, boardW, boardH);
+  let scale = 1;
+  // x, y, rotation, zIndex, placed, selected, hidden, glow — as last drawn
+  const drawnState = new Float64Array(pieces.length * 8).fill(NaN);
+  let lastFrameKey = '';
+
+  /** Write the quads in z-order; returns how many pieces are on the table. */
+  function writeVertices(state: TableState): number {
+    const order = [...pieces].sort((a, b) => Number(b.isPlaced) - Number(a.isPlaced) || a.zIndex - b.zIndex);
+    let n = 0;
+    for (const p of order) {
+      if (state.isHidden(p)) continue;
+      const a = (p.rotation * Math.PI) / 180;
+      const cos = Math.cos(a);
+      const sin = Math.sin(a);
+      const cx = p.x + p.width / 2;
+      const cy = p.y + p.height / 2;
+      const [u0, v0] = cellOrigin.get(p.id)!;
+      const glow = p.id === state.glowId ? state.glowAlpha : 0;
+      const corners = [[-pad, -pad], [p.width + pad, -pad], [p.width + pad, p.height + pad], [-pad, p.height + pad]];
+      corners.forEach(([lx, ly], k) => {
+        const dx = lx - p.width / 2;
+        const dy = ly - p.height / 2;
+        vertices.set([
+          cx + dx * cos - dy * sin, cy + dx * sin + dy * cos,
+          lx, ly,
+          p.width, p.height,
+          u0, v0,
+          p.solvedX, p.solvedY,
+          cos, sin,
+          p.isSelected ? 1 : 0, glow,
+        ], (n * 4 + k) * FLOATS_PER_VERTEX);
+      });
+      n++;
+    }
+    return n;
+  }
+
+  /** Whether any piece looks different from the last frame drawn. */
+  function piecesChanged(state: TableState): boolean {
+    let changed = false;
+    pieces.forEach((p, i) => {
+      const look = [
+        p.x, p.y, p.rotation, p.zIndex, Number(p.isPlaced), Number(p.isSelected), Number(state.isHidden(p)),
+        p.id === state.glowId ? state.glowAlpha : 0,
+      ];
+      for (let k = 0; k < 8; k++) {
+        if (drawnState[i * 8 + k] !== look[k]) {
+          drawnState[i * 8 + k] = look[k];
+          changed = true;
+        }
+      }
+    });
+    return changed;
+  }
+
+  function drawBackdrop(view: TableView, state: TableState, lw: number, lh: number) {
+    const placed = pieces.reduce((n, p) => n + (p.isPlaced ? 1 : 0), 0);
+    // The guide only outlines unplaced pieces, so it changes with the placed count
+    const key = `${lw}x${lh} ${view.cam.zoom},${view.cam.x},${view.cam.y} ${state.showGuide ? placed : '-'}`;
+    if (key === backdropKey) return;
+    backdropKey = key;
+    if (backdrop.width !== lw || backdrop.height !== lh) {
+      backdrop.width = lw;
+      backdrop.height = lh;
+    }
+    const ctx = backdrop.getContext('2d')!;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = tableBackground(ctx, lh);
+    ctx.fillRect(0, 0, lw, lh);
+    const k = view.dpr * view.cam.zoom;
+    ctx.setTransform(k, 0, 0, k, view.cam.x * view.dpr, view.cam.y * view.dpr);
+    drawBoard(ctx, scene, state.showGuide);
+  }
+
+  return {
+    render(ctx, view, state) {
+      if (lost) {
+        if (!fallback) fallback = createTableRenderer(scene);
+        return fallback.render(ctx, view, state);
+      }
+      const { cam, cw, ch, dpr } = view;
+      const lw = Math.round(cw * dpr);
+      const lh = Math.round(ch * dpr);
+      sprites.nextFrame();
+      scale = spriteScale(cam.zoom, dpr);
+      drawBackdrop(view, state, lw, lh);
+
+      const frameKey = `${lw}x${lh} ${cam.zoom},${cam.x},${cam.y}`;
+      const changed = piecesChanged(state) || frameKey !== lastFrameKey;
+      lastFrameKey = frameKey;
+      let piecesDrawn = 0;
+      if (changed) {
+        if (glCanvas.width !== lw || glCanvas.height !== lh) {
+          glCanvas.width = lw;
+          glCanvas.height = lh;
+        }
+        gl.viewport(0, 0, lw, lh);
+        gl.clearColor(0, 0, 0, 0);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        piecesDrawn = writeVertices(state);
+        gl.useProgram(program);
+        gl.uniform2f(uView, cw, ch);
+        gl.uniform3f(uCam, cam.zoom, cam.x, cam.y);
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, boardTexture);
+        gl.activeTexture(gl.TEXTURE1);
+        gl.bindTexture(gl.TEXTURE_2D, maskTexture);
+        gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer);
+        gl.bufferSubData(gl.ARRAY_BUFFER, 0, vertices.subarray(0, piecesDrawn * 4 * FLOATS_PER_VERTEX));
+        gl.drawElements(gl.TRIANGLES, piecesDrawn * 6, gl.UNSIGNED_SHORT, 0);
+      }
+
+      ctx.drawImage(backdrop, 0, 0, cw, ch);
+      ctx.drawImage(glCanvas, 0, 0, cw, ch);
+      return { fullRedraw: changed, regions: changed ? 1 : 0, piecesDrawn };
+    },
+
+    drawPiece(ctx, piece) {
+      if (fallback) fallback.drawPiece(ctx, piece);
+      else sprites.draw(ctx, piece, scale);
+    },
+
+    dispose() {
+      fallback?.dispose();
+      sprites.clear();
+      if (!lost) {
+        gl.deleteTexture(boardTexture);
+        gl.deleteTexture(maskTexture);
+        gl.deleteBuffer(vertexBuffer);
+        gl.deleteBuffer(indexBuffer);
+        gl.deleteProgram(program);
+        gl.getExtension('WEBGL_lose_context')?.loseContext();
+      }
+      backdrop.width = 0;
+      glCanvas.width = 0;
+    },
+  };
+}
+
+/** Draw every piece's shape, blurred shape and outline into its atlas cell. */
+function bakeMasks(pieces: PieceDef[], layout: AtlasLayout, pad: number): HTMLCanvasElement {
+  const canvas = createCanvas(layout.width, layout.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, layout.width, layout.height);
+  // Channels add up: each pass writes only its own colour
+  ctx.globalCompositeOperation = 'lighter';
+  // Far enough to keep the shape itself out of the atlas when only its shadow is wanted
+  const away = layout.width + layout.height + 1000;
+
+  pieces.forEach((p, i) => {
+    const path = getPiecePath(p);
+    const ox = (i % layout.cols) * layout.cellW;
+    const oy = Math.floor(i / layout.cols) * layout.cellH;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(ox, oy, layout.cellW, layout.cellH);
+    ctx.clip();
+    ctx.setTransform(layout.scale, 0, 0, layout.scale, ox + pad * layout.scale, oy + pad * layout.scale);
+
+    ctx.fillStyle = '#f00';
+    ctx.fill(path);
+
+    ctx.save();
+    ctx.translate(away / layout.scale, 0);
+    ctx.shadowColor = '#0f0';
+    ctx.shadowBlur = MASK_BLUR * layout.scale;
+    ctx.shadowOffsetX = -away;
+    ctx.fill(path);
+    ctx.restore();
+
+    ctx.strokeStyle = '#00f';
+    ctx.lineWidth = 1.5;
+    ctx.stroke(path);
+    ctx.restore();
+  });
+  return canvas;
+}
+
+function uploadTexture(gl: WebGLRenderingContext, source: TexImageSource): WebGLTexture | null {
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+  // Non-power-of-two sizes: no mipmaps, clamped edges
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return texture;
+}
+
+function createProgram(gl: WebGLRenderingContext): WebGLProgram | null {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      console.warn('WebGL shader failed to compile:', gl.getShaderInfoLog(shader));
+      return null;
+    }
+    return shader;
+  };
+  const vs = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fs = compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  if (!vs || !fs) return null;
+  const program = gl.createProgram()!;
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.warn('WebGL program failed to link:', gl.getProgramInfoLog(program));
+    return null;
+  }
+  return program;
+}
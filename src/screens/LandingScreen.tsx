@@ -1,49 +1,90 @@
 /**
  * LandingScreen — shown after sign-in.
- * Lists saved puzzles from Firestore with a "Nytt pussel" button.
+ * Lists saved puzzles with a "Nytt pussel" button.
  *
- * Thumbnails are stored as base64 data URLs directly in Firestore (tiny, ~10 KB).
+ * The list comes from the local save store and refreshes whenever a sync pass
+ * finishes; each card shows whether its save has reached the save backend yet.
+ *
+ * Each card can be exported as a portable file, and such files can be
+ * imported here as new saves (puzzleFile.ts). Cards can also be shared as
+ * a challenge (challengeCode.ts) and challenge codes typed in here.
+ *
+ * The header links to StatsScreen; completed cards show their play time.
+ *
+ * Thumbnails are stored as base64 data URLs inside the save (tiny, ~10 KB).
  * The full image lives in IndexedDB on this device — if it's missing the card
  * shows a warning instead of the thumbnail.
  */
 
-import { useEffect, useState } from 'react';
-import { signOut } from 'firebase/auth';
-import { auth } from '../lib/firebase';
-import { loadUserSaves, deletePuzzleSave, PuzzleSaveRecord } from '../lib/puzzleSave';
+import { useEffect, useRef, useState } from 'react';
+import { loadUserSaves, deletePuzzleSave, PuzzleSaveRecord, SaveSyncStatus } from '../lib/puzzleSave';
+import { onSyncChange, requestSync } from '../lib/saveSync';
+import { saveBackendKind } from '../lib/saveBackend';
+import { exportPuzzleFile, importPuzzleFile, sharePuzzleFile, PuzzleFileError } from '../lib/puzzleFile';
+import { challengeFor, challengeLink, encodeChallenge } from '../lib/challengeCode';
 import { removeImage } from '../lib/imageStore';
+import { formatPlayTime } from '../puzzle/stats';
 
 interface Props {
   userId: string;
   displayName: string;
   onNewPuzzle: () => void;
+  onOpenStats: () => void;
+  /** Not set when there is nothing to sign out of (local backend) */
+  onSignOut?: () => void;
   onResumePuzzle: (save: PuzzleSaveRecord) => void;
+  /** Start the puzzle for a typed challenge code */
+  onOpenChallenge: (code: string) => void;
+  openingChallenge?: boolean;
   resumingId?: string | null;
 }
 
-export default function LandingScreen({ userId, displayName, onNewPuzzle, onResumePuzzle, resumingId }: Props) {
+export default function LandingScreen({
+  userId, displayName, onNewPuzzle, onOpenStats, onSignOut, onResumePuzzle, onOpenChallenge, openingChallenge, resumingId,
+}: Props) {
   const [saves, setSaves] = useState<PuzzleSaveRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [invalidCount, setInvalidCount] = useState(0);
+  const [syncStatus, setSyncStatus] = useState<Record<string, SaveSyncStatus>>({});
 
   useEffect(() => {
     let cancelled = false;
     async function load() {
       try {
-        setLoading(true);
         setError(null);
         const data = await loadUserSaves(userId);
-        if (!cancelled) setSaves(data);
+        if (!cancelled) {
+          setSaves(data.saves);
+          setInvalidCount(data.invalid.length);
+          setSyncStatus(data.syncStatus);
+        }
+        return data.saves.length;
       } catch (e) {
         if (!cancelled) setError('Kunde inte ladda sparade pussel');
         console.error(e);
-      } finally {
-        if (!cancelled) setLoading(false);
+        return 0;
       }
     }
-    load();
-    return () => { cancelled = true; };
+    async function init() {
+      setLoading(true);
+      const count = await load();
+      // Nothing on this device yet (new device, first run) — wait for the first pull
+      if (count > 0 && !cancelled) setLoading(false);
+      await requestSync(userId);
+      if (!cancelled) setLoading(false);
+    }
+    const unsubscribe = onSyncChange(() => { void load(); });
+    init();
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
   }, [userId]);
 
   async function handleDelete(saveId: string, e: React.MouseEvent) {
@@ -61,6 +102,63 @@ export default function LandingScreen({ userId, displayName, onNewPuzzle, onResu
     }
   }
 
+  async function handleExport(save: PuzzleSaveRecord, e: React.MouseEvent) {
+    e.stopPropagation();
+    setExportingId(save.id);
+    try {
+      await sharePuzzleFile(await exportPuzzleFile(userId, save));
+    } catch (e) {
+      console.error('Export failed', e);
+      alert(e instanceof PuzzleFileError
+        ? 'Bilden finns inte på den här enheten, så pusslet kan inte exporteras.'
+        : 'Kunde inte exportera pusslet.');
+    } finally {
+      setExportingId(null);
+    }
+  }
+
+  async function handleShare(save: PuzzleSaveRecord, e: React.MouseEvent) {
+    e.stopPropagation();
+    const challenge = challengeFor(save.picsumUrl, save.cols, save.rows, save.puzzleSeed, save.options);
+    try {
+      if (challenge) {
+        const challengeCode = encodeChallenge(challenge);
+        const url = challengeLink(challengeCode);
+        const text = `Pussla samma pussel som jag! Kod: ${challengeCode}`;
+        if (navigator.share) {
+          await navigator.share({ title: 'Pusselutmaning', text, url });
+        } else {
+          await navigator.clipboard.writeText(url);
+          alert(`Länken är kopierad.\n\nKod: ${challengeCode}`);
+        }
+      } else {
+        // Uploaded image: the challenge travels as a file with the image inside
+        await sharePuzzleFile(await exportPuzzleFile(userId, save, { challenge: true }));
+      }
+    } catch (e) {
+      if ((e as Error).name === 'AbortError') return;
+      console.error('Share failed', e);
+      alert('Kunde inte dela pusslet.');
+    }
+  }
+
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    try {
+      const imported = await importPuzzleFile(userId, file);
+      setSaves(prev => [imported, ...prev]);
+    } catch (e) {
+      console.error('Import failed', e);
+      alert('Filen kunde inte importeras. Välj en fil som exporterats från Picture Puzzle.');
+    } finally {
+      setImporting(false);
+    }
+  }
+
   const firstName = displayName.split(' ')[0] || 'du';
 
   return (
@@ -72,12 +170,22 @@ export default function LandingScreen({ userId, displayName, onNewPuzzle, onResu
           <h1 className="text-2xl font-bold text-stone-800 tracking-tight">Picture Puzzle</h1>
           <p className="text-stone-500 text-sm mt-0.5">Hej {firstName}!</p>
         </div>
-        <button
-          onClick={() => signOut(auth)}
-          className="text-xs text-stone-400 underline underline-offset-2 active:text-stone-600"
-        >
-          Logga ut
-        </button>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onOpenStats}
+            className="rounded-full px-3 py-1.5 text-xs font-semibold bg-white/80 text-amber-800 border border-stone-200 active:scale-95 transition-transform"
+          >
+            📊 Statistik
+          </button>
+          {onSignOut && (
+            <button
+              onClick={onSignOut}
+              className="text-xs text-stone-400 underline underline-offset-2 active:text-stone-600"
+            >
+              Logga ut
+            </button>
+          )}
+        </div>
       </div>
 
       {/* New puzzle button */}
@@ -89,6 +197,44 @@ export default function LandingScreen({ userId, displayName, onNewPuzzle, onResu
           <span className="text-xl leading-none">＋</span>
           Nytt pussel
         </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={importing}
+          className="w-full mt-2 py-2 text-sm text-stone-500 underline underline-offset-2 active:text-stone-700 disabled:opacity-60"
+        >
+          {importing ? 'Importerar…' : 'Importera pussel från fil'}
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+        <form
+          className="flex gap-2 mt-1"
+          onSubmit={e => {
+            e.preventDefault();
+            if (code.trim()) onOpenChallenge(code.trim());
+          }}
+        >
+          <input
+            value={code}
+            onChange={e => setCode(e.target.value)}
+            placeholder="Utmaningskod"
+            autoCapitalize="characters"
+            autoCorrect="off"
+            spellCheck={false}
+            className="flex-1 min-w-0 rounded-xl px-3 py-2 text-sm bg-white/70 text-stone-700 placeholder:text-stone-400 border border-stone-200 uppercase tracking-wider"
+          />
+          <button
+            type="submit"
+            disabled={!code.trim() || openingChallenge}
+            className="rounded-xl px-4 py-2 text-sm font-semibold bg-white/80 text-amber-800 border border-stone-200 active:scale-95 transition-transform disabled:opacity-50"
+          >
+            {openingChallenge ? 'Öppnar…' : 'Anta'}
+          </button>
+        </form>
       </div>
 
       {/* Saves list */}
@@ -103,6 +249,14 @@ export default function LandingScreen({ userId, displayName, onNewPuzzle, onResu
           <p className="text-center text-stone-500 pt-12 text-sm">{error}</p>
         )}
 
+        {!loading && !error && invalidCount > 0 && (
+          <p className="text-center text-stone-400 text-xs mb-3">
+            {invalidCount === 1
+              ? '1 sparat pussel är skadat och kan inte öppnas'
+              : `${invalidCount} sparade pussel är skadade och kan inte öppnas`}
+          </p>
+        )}
+
         {!loading && !error && saves.length === 0 && (
           <div className="text-center pt-14">
             <div className="text-5xl mb-4">🧩</div>
@@ -122,9 +276,13 @@ export default function LandingScreen({ userId, displayName, onNewPuzzle, onResu
                   key={save.id}
                   save={save}
                   isDeleting={deletingId === save.id}
+                  isExporting={exportingId === save.id}
                   isResuming={resumingId === save.id}
+                  syncStatus={syncStatus[save.id] ?? 'synced'}
                   onResume={() => onResumePuzzle(save)}
                   onDelete={e => handleDelete(save.id, e)}
+                  onExport={e => handleExport(save, e)}
+                  onShare={e => handleShare(save, e)}
                 />
               ))}
             </div>
@@ -140,12 +298,23 @@ export default function LandingScreen({ userId, displayName, onNewPuzzle, onResu
 interface CardProps {
   save: PuzzleSaveRecord;
   isDeleting: boolean;
+  isExporting: boolean;
   isResuming: boolean;
+  syncStatus: SaveSyncStatus;
   onResume: () => void;
   onDelete: (e: React.MouseEvent) => void;
+  onExport: (e: React.MouseEvent) => void;
+  onShare: (e: React.MouseEvent) => void;
 }
 
-function SaveCard({ save, isDeleting, isResuming, onResume, onDelete }: CardProps) {
+const SYNC_LABELS: Record<SaveSyncStatus, { icon: string; title: string }> = {
+  synced:  { icon: '☁️', title: 'Sparat i molnet' },
+  pending: { icon: '⏳', title: 'Sparat på enheten, laddas upp när du är online' },
+  syncing: { icon: '🔄', title: 'Laddas upp…' },
+  error:   { icon: '⚠️', title: 'Uppladdningen misslyckades, försöker igen' },
+};
+
+function SaveCard({ save, isDeleting, isExporting, isResuming, syncStatus, onResume, onDelete, onExport, onShare }: CardProps) {
   const pct = save.total > 0 ? Math.round((save.placedCount / save.total) * 100) : 0;
   const date = save.updatedAt.toLocaleDateString('sv-SE', {
     day: 'numeric', month: 'short',
@@ -181,8 +350,22 @@ function SaveCard({ save, isDeleting, isResuming, onResume, onDelete }: CardProp
       {/* Info */}
       <div className="p-3">
         <div className="flex items-center justify-between mb-1.5">
-          <span className="text-xs text-stone-500">{save.cols}×{save.rows}</span>
-          <span className="text-xs text-stone-400">{date}</span>
+          <span className="text-xs text-stone-500">
+            {save.options.tiling === 'hex' ? '⬡ ' : save.options.tiling === 'triangle' ? '△ ' : ''}
+            {save.options.mask === 'circle' ? '◯ ' : save.options.mask === 'heart' ? '♡ ' : save.options.mask === 'image' ? '✂️ ' : ''}
+            {save.cols}×{save.rows}
+          </span>
+          <span className="text-xs text-stone-400">
+            {/* Nothing to sync to with the local backend */}
+            {saveBackendKind !== 'local' && (
+              <>
+                <span title={SYNC_LABELS[syncStatus].title} aria-label={SYNC_LABELS[syncStatus].title}>
+                  {SYNC_LABELS[syncStatus].icon}
+                </span>{' '}
+              </>
+            )}
+            {date}
+          </span>
         </div>
         {/* Progress bar */}
         <div className="w-full h-1.5 bg-stone-100 rounded-full overflow-hidden">
@@ -191,7 +374,10 @@ function SaveCard({ save, isDeleting, isResuming, onResume, onDelete }: CardProp
             style={{ width: `${pct}%` }}
           />
         </div>
-        <p className="text-xs text-stone-400 mt-1">{save.placedCount}/{save.total} bitar</p>
+        <p className="text-xs text-stone-400 mt-1">
+          {save.placedCount}/{save.total} bitar
+          {save.isCompleted && save.stats && save.stats.activeMs > 0 && ` · ${formatPlayTime(save.stats.activeMs)}`}
+        </p>
       </div>
 
       {/* Loading overlay */}
@@ -201,6 +387,34 @@ function SaveCard({ save, isDeleting, isResuming, onResume, onDelete }: CardProp
         </div>
       )}
 
+      {/* Share as challenge */}
+      <button
+        onClick={onShare}
+        className="absolute top-2 right-20 w-7 h-7 flex items-center justify-center rounded-full bg-black/30 text-white active:bg-black/50 transition-colors"
+        aria-label="Dela som utmaning"
+      >
+        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+          <circle cx="18" cy="5" r="3"/><circle cx="6" cy="12" r="3"/><circle cx="18" cy="19" r="3"/>
+          <path d="M8.6 13.5l6.8 4M15.4 6.5l-6.8 4"/>
+        </svg>
+      </button>
+
+      {/* Export button */}
+      <button
+        onClick={onExport}
+        disabled={isExporting}
+        className="absolute top-2 right-11 w-7 h-7 flex items-center justify-center rounded-full bg-black/30 text-white active:bg-black/50 transition-colors"
+        aria-label="Exportera"
+      >
+        {isExporting ? (
+          <div className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin" />
+        ) : (
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M12 15V3M7 8l5-5 5 5M5 15v5h14v-5"/>
+          </svg>
+        )}
+      </button>
+
       {/* Delete button */}
       <button
         onClick={onDelete}
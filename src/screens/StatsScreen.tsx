@@ -0,0 +1,187 @@
+/**
+ * StatsScreen — statistics over all saved puzzles.
+ * Reached from LandingScreen.
+ *
+ * Shows totals, puzzles completed per week, average time per piece for each
+ * difficulty level and personal bests. The numbers are worked out by
+ * summariseSaves (saveStats.ts) from the saves on this device, and refresh
+ * when a sync pass brings in saves from other devices.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '../components/ui/chart';
+import { loadUserSaves, PuzzleSaveRecord } from '../lib/puzzleSave';
+import { onSyncChange } from '../lib/saveSync';
+import { summariseSaves } from '../lib/saveStats';
+import { formatPlayTime } from '../puzzle/stats';
+
+interface Props {
+  userId: string;
+  onBack: () => void;
+}
+
+const weekChartConfig = {
+  completed: { label: 'Klara pussel', color: '#b45309' },
+} satisfies ChartConfig;
+
+const pieceTimeChartConfig = {
+  seconds: { label: 'Sekunder per bit', color: '#d97706' },
+} satisfies ChartConfig;
+
+export default function StatsScreen({ userId, onBack }: Props) {
+  const [saves, setSaves] = useState<PuzzleSaveRecord[] | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      try {
+        const data = await loadUserSaves(userId);
+        if (!cancelled) setSaves(data.saves);
+      } catch (e) {
+        console.error(e);
+        if (!cancelled) setError(true);
+      }
+    }
+    const unsubscribe = onSyncChange(() => { void load(); });
+    void load();
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const summary = useMemo(() => (saves ? summariseSaves(saves) : null), [saves]);
+
+  const weekData = summary?.weeks.map(w => ({ week: `v${w.week}`, completed: w.completed })) ?? [];
+  const pieceTimeData = summary?.difficulties.map(d => ({
+    level: d.label,
+    seconds: d.msPerPiece === null ? 0 : Math.round(d.msPerPiece / 100) / 10,
+  })) ?? [];
+  const anyTimed = summary?.difficulties.some(d => d.msPerPiece !== null) ?? false;
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden" style={{ background: '#f0e6d4' }}>
+
+      {/* Header */}
+      <div className="flex items-center gap-3 px-5 pt-5 pb-3 shrink-0">
+        <button
+          onClick={onBack}
+          className="w-9 h-9 flex items-center justify-center rounded-full bg-white/80 text-stone-600 shadow-sm active:scale-95 transition-transform"
+          aria-label="Tillbaka"
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M15 18l-6-6 6-6"/>
+          </svg>
+        </button>
+        <h1 className="text-2xl font-bold text-stone-800 tracking-tight">Statistik</h1>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 pb-8">
+        {!summary && !error && (
+          <div className="flex items-center justify-center pt-16">
+            <div className="w-8 h-8 border-4 border-amber-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        )}
+
+        {error && (
+          <p className="text-center text-stone-500 pt-12 text-sm">Kunde inte ladda sparade pussel</p>
+        )}
+
+        {summary && (
+          <div className="flex flex-col gap-5">
+            {/* Totals */}
+            <div className="grid grid-cols-2 gap-3">
+              <StatTile label="Klara pussel" value={summary.completed} />
+              <StatTile label="Pågående" value={summary.inProgress} />
+              <StatTile label="Lagda bitar" value={summary.piecesPlaced} />
+              <StatTile label="Speltid" value={formatPlayTime(summary.activeMs)} />
+            </div>
+
+            {/* Completed per week */}
+            <Section title="Klara pussel per vecka">
+              <ChartContainer config={weekChartConfig} className="aspect-[2/1] w-full">
+                <BarChart data={weekData} margin={{ left: -24, right: 4 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="week" tickLine={false} axisLine={false} interval={1} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="completed" fill="var(--color-completed)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </Section>
+
+            {/* Time per piece */}
+            <Section title="Tid per bit">
+              {anyTimed ? (
+                <ChartContainer config={pieceTimeChartConfig} className="aspect-[2/1] w-full">
+                  <BarChart data={pieceTimeData} margin={{ left: -24, right: 4 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="level" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="seconds" fill="var(--color-seconds)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              ) : (
+                <p className="text-stone-400 text-sm text-center py-6">
+                  Lägg klart ett pussel för att se hur lång tid varje bit tar.
+                </p>
+              )}
+            </Section>
+
+            {/* Personal bests */}
+            <Section title="Personbästa">
+              <div className="flex flex-col divide-y divide-stone-100">
+                {summary.difficulties.map(d => (
+                  <BestRow
+                    key={d.label}
+                    label={`Snabbaste ${d.label.toLowerCase()}`}
+                    value={d.bestMs === null ? '–' : formatPlayTime(d.bestMs)}
+                  />
+                ))}
+                <BestRow
+                  label="Snabbaste tid per bit"
+                  value={summary.bests.fastestMsPerPiece === null
+                    ? '–'
+                    : `${(summary.bests.fastestMsPerPiece / 1000).toFixed(1)} s`}
+                />
+                <BestRow label="Längsta svit" value={summary.bests.longestStreak || '–'} />
+                <BestRow label="Största klara pussel" value={summary.bests.largestCompleted ? `${summary.bests.largestCompleted} bitar` : '–'} />
+                <BestRow label="Flest klara på en vecka" value={summary.bests.bestWeek || '–'} />
+              </div>
+            </Section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function StatTile({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-2xl bg-white shadow-sm border border-stone-100 px-4 py-3">
+      <div className="text-xl font-bold text-stone-800">{value}</div>
+      <div className="text-xs text-stone-500 mt-0.5">{label}</div>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <p className="text-stone-500 text-xs font-medium mb-3 uppercase tracking-wide">{title}</p>
+      <div className="rounded-2xl bg-white shadow-sm border border-stone-100 p-3">{children}</div>
+    </div>
+  );
+}
+
+function BestRow({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="flex items-center justify-between py-2 text-sm">
+      <span className="text-stone-500">{label}</span>
+      <span className="font-semibold text-stone-800">{value}</span>
+    </div>
+  );
+}
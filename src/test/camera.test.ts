@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import {
+  Camera,
+  FINGER_PX,
+  FIT_CAMERA,
+  MAX_ZOOM,
+  clampCamera,
+  isFitCamera,
+  maxZoomFor,
+  pinchCamera,
+  screenToWorld,
+  worldToScreen,
+  zoomAt,
+} from "@/puzzle/camera";
+
+const W = 800;
+const H = 600;
+
+/** The world still covers the whole screen: nothing beyond the fitted board shows */
+function expectInsideWorld(cam: Camera, maxZoom = MAX_ZOOM) {
+  expect(cam.zoom).toBeGreaterThanOrEqual(1);
+  expect(cam.zoom).toBeLessThanOrEqual(maxZoom);
+  const topLeft = screenToWorld(cam, 0, 0);
+  const bottomRight = screenToWorld(cam, W, H);
+  expect(topLeft.x).toBeGreaterThanOrEqual(-1e-9);
+  expect(topLeft.y).toBeGreaterThanOrEqual(-1e-9);
+  expect(bottomRight.x).toBeLessThanOrEqual(W + 1e-9);
+  expect(bottomRight.y).toBeLessThanOrEqual(H + 1e-9);
+}
+
+describe("camera", () => {
+  it("maps screen to world and back", () => {
+    const cam = { zoom: 2.5, x: -300, y: -120 };
+    const world = screenToWorld(cam, 123, 456);
+    const screen = worldToScreen(cam, world.x, world.y);
+    expect(screen.x).toBeCloseTo(123, 9);
+    expect(screen.y).toBeCloseTo(456, 9);
+    expect(screenToWorld(FIT_CAMERA, 10, 20)).toEqual({ x: 10, y: 20 });
+  });
+
+  it("never zooms out past the fitted view or pans beyond the world", () => {
+    const cams: Camera[] = [
+      { zoom: 0.5, x: 50, y: 50 },
+      { zoom: 1, x: -40, y: 30 },
+      { zoom: 2, x: 100, y: 100 },
+      { zoom: 2, x: -5000, y: -5000 },
+      { zoom: 3, x: -900, y: -700 },
+      { zoom: 20, x: -1e6, y: 1e6 },
+    ];
+    for (const cam of cams) expectInsideWorld(clampCamera(cam, W, H));
+    expect(isFitCamera(clampCamera({ zoom: 0.5, x: 50, y: -50 }, W, H))).toBe(true);
+    expect(clampCamera({ zoom: 20, x: 0, y: 0 }, W, H).zoom).toBe(MAX_ZOOM);
+    expect(clampCamera({ zoom: 20, x: 0, y: 0 }, W, H, 7).zoom).toBe(7);
+  });
+
+  it("leaves a camera that is already in range alone", () => {
+    const cam = { zoom: 2, x: -300, y: -200 };
+    expect(clampCamera(cam, W, H)).toEqual(cam);
+  });
+
+  it("keeps the point under the cursor fixed when zooming", () => {
+    const cams: Camera[] = [FIT_CAMERA, { zoom: 2, x: -400, y: -300 }];
+    for (const cam of cams) {
+      for (const [sx, sy] of [[400, 300], [250, 410], [600, 150]]) {
+        const under = screenToWorld(cam, sx, sy);
+        const zoomed = zoomAt(cam, 1.5, sx, sy, W, H);
+        expect(zoomed.zoom).toBeCloseTo(cam.zoom * 1.5, 9);
+        const after = worldToScreen(zoomed, under.x, under.y);
+        expect(after.x).toBeCloseTo(sx, 9);
+        expect(after.y).toBeCloseTo(sy, 9);
+      }
+    }
+  });
+
+  it("stays inside the world when zooming near an edge or out", () => {
+    // Zooming in at a corner pins it there
+    const corner = zoomAt(FIT_CAMERA, 3, 0, 0, W, H);
+    expect(corner).toEqual({ zoom: 3, x: 0, y: 0 });
+    // Zooming out from a panned view can't uncover anything past the board
+    const out = zoomAt({ zoom: 4, x: -3000, y: -2000 }, 0.5, 700, 100, W, H);
+    expectInsideWorld(out);
+    expect(out.zoom).toBe(2);
+    expect(zoomAt({ zoom: 2, x: -400, y: -300 }, 0.1, 400, 300, W, H)).toEqual(FIT_CAMERA);
+    expect(zoomAt(FIT_CAMERA, 100, 400, 300, W, H).zoom).toBe(MAX_ZOOM);
+  });
+
+  it("follows a pinch: the world point between the fingers moves with them", () => {
+    const start = { zoom: 1.5, x: -200, y: -100 };
+    const startMid = { x: 380, y: 290 };
+    const under = screenToWorld(start, startMid.x, startMid.y);
+    const mid = { x: 420, y: 260 };
+    const cam = pinchCamera(start, startMid, 100, mid, 200, W, H);
+    expect(cam.zoom).toBeCloseTo(3, 9);
+    const after = worldToScreen(cam, under.x, under.y);
+    expect(after.x).toBeCloseTo(mid.x, 9);
+    expect(after.y).toBeCloseTo(mid.y, 9);
+  });
+
+  it("clamps a pinch to the zoom range and the world", () => {
+    const start = { zoom: 2, x: -400, y: -300 };
+    expectInsideWorld(pinchCamera(start, { x: 400, y: 300 }, 200, { x: 790, y: 590 }, 210, W, H));
+    expect(pinchCamera(start, { x: 400, y: 300 }, 200, { x: 400, y: 300 }, 10, W, H)).toEqual(FIT_CAMERA);
+    expect(pinchCamera(start, { x: 400, y: 300 }, 10, { x: 400, y: 300 }, 1000, W, H, 6).zoom).toBe(6);
+    // Fingers starting on top of each other don't blow the zoom up
+    expect(pinchCamera(FIT_CAMERA, { x: 400, y: 300 }, 0, { x: 400, y: 300 }, 3, W, H).zoom).toBe(3);
+  });
+
+  it("raises the zoom limit for small pieces up to a hard cap", () => {
+    expect(maxZoomFor(200)).toBe(MAX_ZOOM);
+    expect(maxZoomFor((FINGER_PX * 2) / MAX_ZOOM)).toBe(MAX_ZOOM);
+    expect(maxZoomFor(FINGER_PX / 3.5)).toBeCloseTo(7, 9);
+    expect(maxZoomFor(2)).toBe(8);
+    expect(maxZoomFor(0)).toBe(8);
+  });
+});
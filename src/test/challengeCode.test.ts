@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  ChallengeCodeError,
+  PuzzleChallenge,
+  challengeFor,
+  decodeChallenge,
+  encodeChallenge,
+  parsePicsumUrl,
+  picsumUrl,
+} from "@/lib/challengeCode";
+import { DEFAULT_PUZZLE_OPTIONS } from "@/puzzle/generator";
+
+const challenge: PuzzleChallenge = {
+  picsum: { key: { seed: "puzzle" }, width: 1200, height: 800 },
+  cols: 12,
+  rows: 8,
+  seed: 0xdeadbeef,
+  options: { rotationMode: "quarter", cutStyle: "wavy", tiling: "hex", layout: "realistic", mask: "heart", noHints: true },
+};
+
+describe("challenge codes", () => {
+  it("round-trips a picsum seed challenge", () => {
+    const code = encodeChallenge(challenge);
+    expect(code).toMatch(/^[0-9A-Z]{4}(-[0-9A-Z]{1,4})+$/);
+    expect(decodeChallenge(code)).toEqual(challenge);
+  });
+
+  it("round-trips a picsum id challenge with default options", () => {
+    const c: PuzzleChallenge = {
+      picsum: { key: { id: 1084 }, width: 1600, height: 1067 },
+      cols: 40,
+      rows: 25,
+      seed: 7,
+      options: { rotationMode: "none", cutStyle: "classic", tiling: "square", layout: "grid", mask: "none", noHints: false },
+    };
+    expect(decodeChallenge(encodeChallenge(c))).toEqual(c);
+  });
+
+  it("accepts lower case, spaces and look-alike letters", () => {
+    const code = encodeChallenge(challenge);
+    const typed = code.toLowerCase().replace(/-/g, " ").replace(/0/g, "o").replace(/1/g, "l");
+    expect(decodeChallenge(typed)).toEqual(challenge);
+  });
+
+  it("rejects mistyped codes", () => {
+    const code = encodeChallenge(challenge);
+    const i = code.indexOf("-") + 1;
+    const swapped = code.slice(0, i) + (code[i] === "Z" ? "Y" : "Z") + code.slice(i + 1);
+    expect(() => decodeChallenge(swapped)).toThrow(ChallengeCodeError);
+    expect(() => decodeChallenge(code.slice(0, -4))).toThrow(ChallengeCodeError);
+    expect(() => decodeChallenge("not a code!")).toThrow(ChallengeCodeError);
+  });
+
+  it("rejects puzzles larger than StartScreen makes", () => {
+    const huge = (c: Partial<PuzzleChallenge>, picsum: Partial<PuzzleChallenge["picsum"]> = {}) =>
+      encodeChallenge({ ...challenge, ...c, picsum: { ...challenge.picsum, ...picsum } });
+    expect(() => decodeChallenge(huge({ cols: 100_000, rows: 100_000 }))).toThrow(ChallengeCodeError);
+    expect(() => decodeChallenge(huge({ cols: 60, rows: 60 }))).toThrow(ChallengeCodeError);
+    expect(() => decodeChallenge(huge({}, { width: 100_000 }))).toThrow(ChallengeCodeError);
+    expect(() => decodeChallenge(huge({}, { height: 5001 }))).toThrow(ChallengeCodeError);
+    expect(decodeChallenge(huge({ cols: 50, rows: 30 }, { width: 5000 })).cols).toBe(50);
+  });
+
+  it("parses and rebuilds picsum URLs", () => {
+    for (const url of ["https://picsum.photos/seed/puzzle/1200/800", "https://picsum.photos/id/237/600/400"]) {
+      expect(picsumUrl(parsePicsumUrl(url)!)).toBe(url);
+    }
+    expect(parsePicsumUrl("https://example.com/cat.jpg")).toBeNull();
+  });
+
+  it("only builds challenges for picsum images without image masks", () => {
+    const url = "https://picsum.photos/seed/puzzle/1200/800";
+    expect(challengeFor(url, 4, 3, 1, DEFAULT_PUZZLE_OPTIONS)?.picsum.key).toEqual({ seed: "puzzle" });
+    expect(challengeFor(null, 4, 3, 1, DEFAULT_PUZZLE_OPTIONS)).toBeNull();
+    expect(challengeFor(url, 4, 3, 1, { ...DEFAULT_PUZZLE_OPTIONS, mask: "image" })).toBeNull();
+  });
+});
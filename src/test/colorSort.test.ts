@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { clusterColors, colorSortKey, describePixels, kMeans } from "@/puzzle/colorSort";
+
+/** RGBA data: `n` pixels of each colour; transparent pixels as [r, g, b, 0] */
+function rgba(...runs: [number[], number][]): number[] {
+  const out: number[] = [];
+  for (const [c, n] of runs) {
+    for (let i = 0; i < n; i++) out.push(c[0], c[1], c[2], c[3] ?? 255);
+  }
+  return out;
+}
+
+const RED = [220, 30, 30];
+const BLUE = [30, 60, 220];
+const GREY = [128, 128, 128];
+
+describe("colour descriptors", () => {
+  it("keeps both colours of a two-coloured piece", () => {
+    const d = describePixels(rgba([RED, 60], [BLUE, 40]));
+    expect(d.palette.slice(0, 2).map(c => Math.round(c.weight * 100))).toEqual([60, 40]);
+    expect(d.palette[0]).toMatchObject({ r: 220, g: 30, b: 30 });
+    expect(d.palette[1]).toMatchObject({ r: 30, g: 60, b: 220 });
+  });
+
+  it("ignores transparent pixels outside the piece outline", () => {
+    const d = describePixels(rgba([RED, 10], [[0, 255, 0, 0], 90]));
+    expect(d.palette).toHaveLength(1);
+    expect(d.palette[0].weight).toBe(1);
+  });
+
+  it("bins lightness and saturation", () => {
+    const d = describePixels(rgba([[0, 0, 0], 1], [[255, 255, 255], 1], [RED, 2]));
+    expect(d.lightness).toEqual([0.25, 0.5, 0, 0.25]);
+    expect(d.saturation).toEqual([0.5, 0, 0, 0.5]);
+  });
+
+  it("sorts greys after every colour instead of at hue 0", () => {
+    const red = colorSortKey(describePixels(rgba([RED, 5])));
+    const blue = colorSortKey(describePixels(rgba([BLUE, 5])));
+    const grey = colorSortKey(describePixels(rgba([GREY, 5])));
+    expect(red).toBeLessThan(blue);
+    expect(grey).toBeGreaterThan(360);
+  });
+});
+
+describe("kMeans", () => {
+  it("finds separated clusters deterministically", () => {
+    const points = [[0], [1], [2], [100], [101], [102]];
+    const a = kMeans(points, points.map(() => 1), 2);
+    const b = kMeans(points, points.map(() => 1), 2);
+    expect(a).toEqual(b);
+    expect(a.centroids.map(c => c[0]).sort((x, y) => x - y)).toEqual([1, 101]);
+  });
+
+  it("copes with fewer distinct points than clusters", () => {
+    const { centroids, assignment } = kMeans([[5], [5]], [1, 1], 3);
+    expect(centroids).toEqual([[5]]);
+    expect(assignment).toEqual([0, 0]);
+  });
+});
+
+describe("clusterColors", () => {
+  it("puts a two-coloured piece in the bin of each colour", () => {
+    const descriptors = new Map([
+      ["red", describePixels(rgba([RED, 10]))],
+      ["blue", describePixels(rgba([BLUE, 10]))],
+      ["grey", describePixels(rgba([GREY, 10]))],
+      ["both", describePixels(rgba([RED, 5], [BLUE, 5]))],
+    ]);
+    const bins = clusterColors(descriptors, 3);
+    expect(bins.map(b => b.pieceIds.sort())).toEqual([
+      ["both", "red"],
+      ["blue", "both"],
+      ["grey"],
+    ]);
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { PieceDef } from "@/puzzle/generator";
+import { EMPTY_HISTORY, PieceSnapshot, changesSince } from "@/puzzle/history";
+import { EMPTY_STATS } from "@/puzzle/stats";
+import type { SaveBackend, SaveDocument, SavePatch } from "@/lib/saveBackend";
+import { FIRESTORE_DOC_LIMIT, SAVE_SIZE_WARN } from "@/lib/saveSize";
+
+// IndexedDB (localSaveStore) and the configured backend, in memory
+const fakes = vi.hoisted(() => ({ idb: new Map<string, unknown>(), backend: null as SaveBackend | null }));
+
+vi.mock("idb-keyval", () => ({
+  createStore: () => ({}),
+  get: async (key: string) => structuredClone(fakes.idb.get(key)),
+  set: async (key: string, value: unknown) => { fakes.idb.set(key, structuredClone(value)); },
+  del: async (key: string) => { fakes.idb.delete(key); },
+  entries: async () => [...fakes.idb].map(([k, v]) => [k, structuredClone(v)]),
+}));
+
+vi.mock("@/lib/saveBackend", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/saveBackend")>()),
+  getSaveBackend: () => fakes.backend,
+}));
+
+import { createLocalSaveBackend } from "@/lib/backends/localSaveBackend";
+import { getLocalSave } from "@/lib/localSaveStore";
+import { parseSaveDocument } from "@/lib/saveSchema";
+import { PuzzleSaveInput, SaveTooLargeError, savePuzzle } from "@/lib/puzzleSave";
+import { requestSync } from "@/lib/saveSync";
+
+const USER = "u1";
+
+/** The local backend, plus update and a record of what was sent */
+function fakeBackend() {
+  const store = createLocalSaveBackend();
+  const sent = { saves: 0, patches: [] as SavePatch[], failUpdate: false };
+  const backend: SaveBackend = {
+    ...store,
+    async save(userId, saveId, doc) {
+      sent.saves++;
+      await store.save(userId, saveId, doc);
+    },
+    async update(userId, saveId, patch) {
+      if (sent.failUpdate) throw new Error("offline");
+      sent.patches.push(patch);
+      const current = await store.load(userId, saveId);
+      if (!current) throw new Error("no such save");
+      const pieceUpdates = { ...(current.doc.pieceUpdates as SaveDocument), ...patch.pieces };
+      await store.save(userId, saveId, { ...current.doc, ...patch.fields, pieceUpdates });
+    },
+  };
+  return { store, backend, sent };
+}
+
+function makePieces(count: number): PieceDef[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${i}-0`, x: i, y: 0, isPlaced: false, zIndex: i, rotation: 0,
+  })) as PieceDef[];
+}
+
+function save(pieces: PieceDef[], existingSaveId?: string, changedIds?: string[] | null, extra: Partial<PuzzleSaveInput> = {}) {
+  return savePuzzle({
+    userId: USER,
+    imageIsPicsum: true,
+    picsumUrl: "https://picsum.photos/id/1/800/600",
+    imageHash: null,
+    cols: pieces.length,
+    rows: 1,
+    seed: 7,
+    options: { rotationMode: "none", cutStyle: "classic", tiling: "square", layout: "grid", mask: "none" },
+    pieces,
+    trayIds: [],
+    history: EMPTY_HISTORY,
+    groups: new Map(),
+    stats: EMPTY_STATS,
+    boardX: 0,
+    boardY: 0,
+    boardW: 1000,
+    boardH: 1000,
+    placedCount: pieces.filter(p => p.isPlaced).length,
+    total: pieces.length,
+    isCompleted: pieces.every(p => p.isPlaced),
+    existingSaveId,
+    thumbnailDataUrl: null,
+    changedIds,
+    ...extra,
+  });
+}
+
+/** Move some pieces and save them as changed */
+async function moveAndSave(pieces: PieceDef[], saveId: string, ids: string[]) {
+  for (const p of pieces) if (ids.includes(p.id)) p.x += 100;
+  await save(pieces, saveId, ids);
+  await requestSync(USER);
+}
+
+async function remoteRecord(saveId: string) {
+  const stored = await fakes.backend!.load(USER, saveId);
+  return parseSaveDocument(saveId, stored!.doc);
+}
+
+describe("delta saves", () => {
+  let fake: ReturnType<typeof fakeBackend>;
+  let pieces: PieceDef[];
+  let saveId: string;
+
+  beforeEach(async () => {
+    fakes.idb.clear();
+    fake = fakeBackend();
+    fakes.backend = fake.backend;
+    pieces = makePieces(400);
+    saveId = await save(pieces);
+    await requestSync(USER);
+    expect(fake.sent.saves).toBe(1);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sends only the moved pieces and the counters", async () => {
+    await moveAndSave(pieces, saveId, ["3-0", "4-0"]);
+    expect(fake.sent.saves).toBe(1);
+    expect(fake.sent.patches).toHaveLength(1);
+    expect(Object.keys(fake.sent.patches[0].pieces)).toEqual(["3-0", "4-0"]);
+    expect(fake.sent.patches[0].fields).toMatchObject({ placedCount: 0, history: null });
+
+    const record = await remoteRecord(saveId);
+    expect(record.piecesState[3].fx).toBeCloseTo(0.103, 4);
+    expect(record.piecesState[5].fx).toBeCloseTo(0.005, 4);
+    expect((await getLocalSave(USER, saveId))!.remotePieceUpdates).toBe(2);
+  });
+
+  it("writes the whole document once the backend copy has too many piece updates", async () => {
+    const first = pieces.slice(0, 200).map(p => p.id);
+    await moveAndSave(pieces, saveId, first);
+    expect(fake.sent.patches).toHaveLength(1);
+
+    await moveAndSave(pieces, saveId, pieces.slice(200).map(p => p.id));
+    expect(fake.sent.patches).toHaveLength(1);
+    expect(fake.sent.saves).toBe(2);
+    expect((await fake.backend.load(USER, saveId))!.doc.pieceUpdates).toBeUndefined();
+    expect((await getLocalSave(USER, saveId))!.remotePieceUpdates).toBe(0);
+    expect((await remoteRecord(saveId)).piecesState[399].fx).toBeCloseTo(0.499, 4);
+  });
+
+  it("retries a failed patch as the whole document", async () => {
+    fake.sent.failUpdate = true;
+    // savePuzzle's own pass fails the update; the pass queued after it retries
+    await moveAndSave(pieces, saveId, ["1-0"]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/push .* failed/), expect.any(Error));
+    expect(fake.sent.patches).toHaveLength(0);
+    expect(fake.sent.saves).toBe(2);
+    expect((await remoteRecord(saveId)).piecesState[1].fx).toBeCloseTo(0.101, 4);
+
+    fake.sent.failUpdate = false;
+    await moveAndSave(pieces, saveId, ["2-0"]);
+    expect(fake.sent.patches).toHaveLength(1);
+    expect((await remoteRecord(saveId)).piecesState[2].fx).toBeCloseTo(0.102, 4);
+  });
+
+  it("writes the whole document over a copy another device wrote in between", async () => {
+    const mine = (await getLocalSave(USER, saveId))!;
+    const theirs = { ...mine.doc, updatedAt: mine.updatedAt - 1000, placedCount: 9 };
+    await fake.store.save(USER, saveId, theirs);
+
+    await moveAndSave(pieces, saveId, ["5-0"]);
+    expect(fake.sent.patches).toHaveLength(0);
+    expect(fake.sent.saves).toBe(2);
+    expect((await remoteRecord(saveId)).placedCount).toBe(0);
+  });
+});
+
+describe("completion date", () => {
+  beforeEach(() => {
+    fakes.idb.clear();
+    fakes.backend = fakeBackend().backend;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("is set by the save that finds the puzzle complete and kept by later ones", async () => {
+    const pieces = makePieces(2);
+    const clock = vi.spyOn(Date, "now").mockReturnValue(1_000);
+    const saveId = await save(pieces);
+    await requestSync(USER);
+    expect((await getLocalSave(USER, saveId))!.doc.completedAt).toBeNull();
+
+    for (const p of pieces) p.isPlaced = true;
+    clock.mockReturnValue(2_000);
+    await save(pieces, saveId, pieces.map(p => p.id));
+    await requestSync(USER);
+    clock.mockReturnValue(3_000);
+    await save(pieces, saveId, []);
+    await requestSync(USER);
+
+    const local = (await getLocalSave(USER, saveId))!;
+    expect(local.doc).toMatchObject({ updatedAt: 3_000, completedAt: 2_000 });
+    expect((await remoteRecord(saveId)).completedAt).toEqual(new Date(2_000));
+  });
+});
+
+describe("save size", () => {
+  const pieces = makePieces(2);
+  const history = {
+    undo: [{ kind: "move" as const, before: [] as PieceSnapshot[], after: [] as PieceSnapshot[] }],
+    redo: [],
+  };
+  /** A thumbnail that makes the document about `bytes` long */
+  const thumbnail = (bytes: number) => ({ thumbnailDataUrl: "x".repeat(bytes) });
+
+  beforeEach(() => {
+    fakes.idb.clear();
+    fakes.backend = fakeBackend().backend;
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("drops the undo history from a save close to the limit", async () => {
+    const small = await save(pieces, undefined, null, { history });
+    expect((await getLocalSave(USER, small))!.doc.history).toEqual(history);
+
+    const large = await save(pieces, undefined, null, { history, ...thumbnail(SAVE_SIZE_WARN) });
+    expect((await getLocalSave(USER, large))!.doc.history).toBeNull();
+  });
+
+  it("refuses a save still over the limit without its history, keeping the last one", async () => {
+    const saveId = await save(pieces);
+    for (const p of pieces) p.isPlaced = true;
+    const failed = save(pieces, saveId, null, { history, ...thumbnail(FIRESTORE_DOC_LIMIT) });
+    await expect(failed).rejects.toBeInstanceOf(SaveTooLargeError);
+    await expect(failed).rejects.toMatchObject({ saveId });
+    expect((await getLocalSave(USER, saveId))!.doc.placedCount).toBe(0);
+  });
+});
+
+describe("changesSince", () => {
+  const snapshot = (fx: number): PieceSnapshot => ({
+    id: "0-0", fx, fy: 0, rotation: 0, isPlaced: false, zIndex: 1, inTray: false, group: "0-0",
+  });
+  const board = (fx: number) => new Map([["0-0", snapshot(fx)]]);
+
+  it("skips the write when nothing changed", () => {
+    expect(changesSince({ pieces: board(0.5), stats: EMPTY_STATS }, board(0.5), EMPTY_STATS)).toBe("unchanged");
+  });
+
+  it("lists moved pieces, and saves counters on their own", () => {
+    const saved = { pieces: board(0.5), stats: EMPTY_STATS };
+    expect(changesSince(saved, board(0.6), EMPTY_STATS)).toEqual(["0-0"]);
+    expect(changesSince(saved, board(0.5), { ...EMPTY_STATS, hints: 1 })).toEqual([]);
+  });
+
+  it("saves everything without an earlier save", () => {
+    expect(changesSince(null, board(0.5), EMPTY_STATS)).toBeNull();
+  });
+});
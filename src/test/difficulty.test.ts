@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { CUSTOM_TARGET_MAX, DIFFICULTIES, computeGrid, computeMaskedGrid } from "@/puzzle/difficulty";
+import { fitBoard, fittedPieceSize } from "@/puzzle/boardLayout";
+import { FINGER_PX, MAX_ZOOM, maxZoomFor } from "@/puzzle/camera";
+
+describe("difficulty grids", () => {
+  it("lands close to every level's target", () => {
+    for (const d of DIFFICULTIES) {
+      const { cols, rows } = computeGrid(d.target, 1200, 800);
+      expect(Math.abs(cols * rows - d.target) / d.target).toBeLessThan(0.06);
+    }
+  });
+
+  it("keeps square pieces roughly square on portrait images", () => {
+    const { cols, rows } = computeGrid(1000, 800, 1200);
+    expect((800 / cols) / (1200 / rows)).toBeCloseTo(1, 1);
+  });
+
+  it("grows the lattice under a mask so the outline still holds the target", () => {
+    const plain = computeGrid(750, 1000, 1000);
+    const masked = computeMaskedGrid(750, 1000, 1000, "square", "circle", null);
+    // A circle covers π/4 of its square
+    expect(masked.cols * masked.rows * (Math.PI / 4)).toBeCloseTo(plain.cols * plain.rows, -2);
+  });
+});
+
+describe("piece size on screen", () => {
+  it("fits the board between the HUD and the tray handle", () => {
+    const board = fitBoard(1024, 768, 4 / 3);
+    expect(board.h).toBeLessThan(768);
+    expect(board.w / board.h).toBeCloseTo(4 / 3);
+    expect(board.x).toBeGreaterThan(0);
+  });
+
+  it("makes 1000 pieces on a tablet smaller than a finger", () => {
+    const { cols, rows } = computeGrid(1000, 1200, 900);
+    const size = fittedPieceSize(1024, 768, 1200, 900, cols, rows);
+    expect(size).toBeLessThan(FINGER_PX);
+    expect(fittedPieceSize(1024, 768, 1200, 900, 8, 6)).toBeGreaterThan(FINGER_PX);
+  });
+
+  it("lets the camera zoom tiny pieces up to finger size", () => {
+    expect(maxZoomFor(100)).toBe(MAX_ZOOM);
+    const { cols, rows } = computeGrid(CUSTOM_TARGET_MAX, 1200, 900);
+    const size = fittedPieceSize(390, 844, 1200, 900, cols, rows);
+    expect(maxZoomFor(size)).toBeGreaterThan(MAX_ZOOM);
+    expect(size * maxZoomFor(size)).toBeGreaterThanOrEqual(FINGER_PX);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * A 2D canvas that only counts what is drawn — enough to drive the renderer
+ * in jsdom, which has neither a canvas implementation nor Path2D, and to
+ * measure its JavaScript-side frame cost without a GPU.
+ */
+
+export type DrawCounts = Map<string, number>;
+
+function counting(counts: DrawCounts, returns: Record<string, unknown> = {}): object {
+  const state: Record<string | symbol, unknown> = {};
+  return new Proxy(state, {
+    get(target, prop) {
+      if (prop in target) return target[prop];
+      if (typeof prop !== "string") return undefined;
+      return (..._args: unknown[]) => {
+        counts.set(prop, (counts.get(prop) ?? 0) + 1);
+        return prop in returns ? returns[prop] : undefined;
+      };
+    },
+    set(target, prop, value) {
+      target[prop] = value;
+      return true;
+    },
+  });
+}
+
+/** Canvas factory for createSpriteCache / createTableRenderer. */
+export function fakeCanvasFactory(counts: DrawCounts) {
+  return (width: number, height: number): HTMLCanvasElement => {
+    const ctx = counting(counts, { createLinearGradient: { addColorStop: () => {} } });
+    return { width, height, getContext: () => ctx } as unknown as HTMLCanvasElement;
+  };
+}
+
+export function fakeContext(counts: DrawCounts): CanvasRenderingContext2D {
+  return fakeCanvasFactory(counts)(1, 1).getContext("2d")!;
+}
+
+/** A global Path2D whose calls go nowhere. */
+export function installFakePath2D(): void {
+  const ignored = new Map<string, number>();
+  globalThis.Path2D = function Path2D() {
+    return counting(ignored);
+  } as unknown as typeof Path2D;
+}
+
+/**
+ * A WebGL context that compiles and links everything and only counts the
+ * rest, for driving createWebGLTableRenderer without a GPU.
+ */
+export function fakeWebGLContext(counts: DrawCounts): WebGLRenderingContext {
+  return counting(counts, {
+    getParameter: 4096,
+    createShader: {},
+    createProgram: {},
+    getShaderParameter: true,
+    getProgramParameter: true,
+    getAttribLocation: 0,
+  }) as WebGLRenderingContext;
+}
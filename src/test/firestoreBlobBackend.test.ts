@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from "vitest";
+// jsdom's Blob has no arrayBuffer(); browsers and Node's do
+import { Blob as NodeBlob } from "node:buffer";
+
+vi.stubGlobal("Blob", NodeBlob);
+
+// Firestore documents in memory, keyed by path
+const docs = vi.hoisted(() => new Map<string, Record<string, unknown>>());
+
+vi.mock("@/lib/firebase", () => ({ db: {} }));
+
+vi.mock("firebase/firestore", async importOriginal => {
+  const actual = await importOriginal<typeof import("firebase/firestore")>();
+  const join = (parent: unknown, segments: string[]) =>
+    [typeof parent === "string" ? parent : "", ...segments].filter(Boolean).join("/");
+  return {
+    Bytes: actual.Bytes,
+    doc: (parent: unknown, ...segments: string[]) => join(parent, segments),
+    collection: (parent: unknown, ...segments: string[]) => join(parent, segments),
+    setDoc: async (path: string, data: Record<string, unknown>) => { docs.set(path, data); },
+    getDoc: async (path: string) => ({ exists: () => docs.has(path), data: () => docs.get(path) }),
+  };
+});
+
+import { IMAGE_CHUNK_BYTES, createFirestoreBlobBackend } from "@/lib/backends/firestoreBlobBackend";
+
+describe("firestore image backend", () => {
+  it("stores an image larger than a document in chunks and reads it back", async () => {
+    const bytes = new Uint8Array(IMAGE_CHUNK_BYTES * 2 + 1234).map((_, i) => (i * 7) & 0xff);
+    const backend = createFirestoreBlobBackend();
+    await backend.put("u1", "abc", new Blob([bytes], { type: "image/jpeg" }));
+
+    expect(docs.get("users/u1/puzzle_images/abc")).toEqual({ type: "image/jpeg", size: bytes.length, chunks: 3 });
+    const blob = await backend.get("u1", "abc");
+    expect(blob!.type).toBe("image/jpeg");
+    // Byte for byte (toEqual walks megabytes element by element)
+    expect(Buffer.from(await blob!.arrayBuffer()).equals(Buffer.from(bytes))).toBe(true);
+  });
+
+  it("returns null for an image that was never uploaded", async () => {
+    expect(await createFirestoreBlobBackend().get("u1", "missing")).toBeNull();
+  });
+});
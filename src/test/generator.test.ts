@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import {
+  CutStyle,
+  DEFAULT_PUZZLE_OPTIONS,
+  PieceDef,
+  PuzzleOptions,
+  buildPiecePath,
+  generatePuzzle,
+} from "@/puzzle/generator";
+import type { Tiling } from "@/puzzle/tiling";
+
+type Point = { x: number; y: number };
+
+/** Steps per curve when flattening */
+const STEPS = 16;
+
+/** A Path2D that flattens what is drawn into points, noting where each command ends */
+class FlatPath {
+  points: Point[] = [];
+  ends: number[] = [];
+
+  private get last(): Point {
+    return this.points[this.points.length - 1];
+  }
+
+  private curve(at: (t: number) => Point) {
+    for (let k = 1; k <= STEPS; k++) this.points.push(at(k / STEPS));
+    this.ends.push(this.points.length - 1);
+  }
+
+  moveTo(x: number, y: number) {
+    this.points.push({ x, y });
+    this.ends.push(0);
+  }
+
+  lineTo(x: number, y: number) {
+    const a = this.last;
+    this.curve(t => ({ x: a.x + (x - a.x) * t, y: a.y + (y - a.y) * t }));
+  }
+
+  quadraticCurveTo(cx: number, cy: number, x: number, y: number) {
+    const a = this.last;
+    const q = (p0: number, p1: number, p2: number, t: number) => (1 - t) ** 2 * p0 + 2 * (1 - t) * t * p1 + t * t * p2;
+    this.curve(t => ({ x: q(a.x, cx, x, t), y: q(a.y, cy, y, t) }));
+  }
+
+  bezierCurveTo(c1x: number, c1y: number, c2x: number, c2y: number, x: number, y: number) {
+    const a = this.last;
+    const c = (p0: number, p1: number, p2: number, p3: number, t: number) =>
+      (1 - t) ** 3 * p0 + 3 * (1 - t) ** 2 * t * p1 + 3 * (1 - t) * t * t * p2 + t ** 3 * p3;
+    this.curve(t => ({ x: c(a.x, c1x, c2x, x, t), y: c(a.y, c1y, c2y, y, t) }));
+  }
+
+  closePath() {}
+}
+
+/** The outline of each side of a piece, in board coordinates */
+function sideOutlines(piece: PieceDef): Point[][] {
+  const path = buildPiecePath(piece) as unknown as FlatPath;
+  const board = path.points.map(p => ({ x: p.x + piece.solvedX, y: p.y + piece.solvedY }));
+  const n = piece.corners.length;
+  const sides: Point[][] = [];
+  let from = 0;
+  for (let i = 0; i < n; i++) {
+    const corner = piece.corners[(i + 1) % n];
+    // The side ends with the first command that reaches its far corner
+    const end = path.ends.find(e => e > from && Math.hypot(path.points[e].x - corner.x, path.points[e].y - corner.y) < 1e-9);
+    if (end === undefined) throw new Error(`Side ${i} of ${piece.id} never reaches its corner`);
+    sides.push(board.slice(from, end + 1));
+    from = end;
+  }
+  return sides;
+}
+
+function distanceToPolyline(p: Point, line: Point[]): number {
+  let best = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    const a = line[i - 1];
+    const b = line[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2));
+    best = Math.min(best, Math.hypot(p.x - a.x - dx * t, p.y - a.y - dy * t));
+  }
+  return best;
+}
+
+/** Largest distance between two outlines, either way round */
+function outlineGap(a: Point[], b: Point[]): number {
+  return Math.max(...a.map(p => distanceToPolyline(p, b)), ...b.map(p => distanceToPolyline(p, a)));
+}
+
+const puzzles: [Tiling, CutStyle][] = [
+  ["square", "classic"],
+  ["square", "whimsy"],
+  ["square", "wavy"],
+  ["square", "straight"],
+  ["hex", "classic"],
+  ["triangle", "whimsy"],
+];
+
+describe("shared edges", () => {
+  beforeAll(() => {
+    globalThis.Path2D = FlatPath as unknown as typeof Path2D;
+  });
+
+  it.each(puzzles)("interlock on both sides (%s, %s)", (tiling, cutStyle) => {
+    const options: PuzzleOptions = { ...DEFAULT_PUZZLE_OPTIONS, tiling, cutStyle };
+    const { pieces } = generatePuzzle(800, 600, 4, 3, 11, options);
+    const byId = new Map(pieces.map(p => [p.id, p]));
+    const sides = new Map(pieces.map(p => [p.id, sideOutlines(p)]));
+    let compared = 0;
+
+    for (const piece of pieces) {
+      piece.neighbours.forEach((otherId, i) => {
+        if (!otherId) return;
+        const other = byId.get(otherId)!;
+        const j = other.neighbours.indexOf(piece.id);
+        expect(j).toBeGreaterThanOrEqual(0);
+
+        // The same edge, walked the other way
+        const edge = piece.edges[i];
+        const mirror = other.edges[j];
+        expect(mirror.type).toBe(edge.type === "tab" ? "blank" : "tab");
+        expect(mirror.size).toBe(edge.size);
+        expect(mirror.offset).toBeCloseTo(1 - edge.offset, 12);
+        expect(mirror.tilt).toBeCloseTo(-edge.tilt, 12);
+
+        const mine = sides.get(piece.id)![i];
+        const theirs = sides.get(otherId)![j];
+        expect(outlineGap(mine, theirs)).toBeLessThan(piece.knobUnit * 1e-3);
+        compared++;
+      });
+    }
+    expect(compared).toBeGreaterThan(pieces.length);
+  });
+
+  it("would notice a knob on only one side", () => {
+    const { pieces } = generatePuzzle(900, 600, 3, 2, 11, { ...DEFAULT_PUZZLE_OPTIONS, cutStyle: "classic" });
+    const [left, right] = pieces;
+    const mine = sideOutlines(left)[1];
+    const flat = sideOutlines({ ...right, edges: right.edges.map(e => ({ ...e, type: "flat" as const })) })[3];
+    expect(outlineGap(mine, flat)).toBeGreaterThan(left.knobUnit * 0.1);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_PUZZLE_OPTIONS, PieceDef, generatePuzzle, normaliseRotation, rotateVec } from "@/puzzle/generator";
+import { expectedNextTo, groupsFromPositions } from "@/puzzle/grouping";
+
+// 3×2 board of 100 px pieces: ids are `${col}-${row}`
+function board(): PieceDef[] {
+  const { pieces } = generatePuzzle(300, 200, 3, 2, 7, DEFAULT_PUZZLE_OPTIONS);
+  // Scattered, well apart and unplaced
+  pieces.forEach((p, i) => Object.assign(p, { x: 1000 + i * 400, y: 1000, rotation: 0, isPlaced: false }));
+  return pieces;
+}
+
+/** Lay `ids` down interlocked, shifted by (dx, dy) from where they belong and turned `deg` around it */
+function cluster(pieces: PieceDef[], ids: string[], dx: number, dy: number, deg = 0) {
+  for (const p of pieces.filter(p => ids.includes(p.id))) {
+    const c = rotateVec(p.solvedX + p.width / 2, p.solvedY + p.height / 2, deg);
+    p.x = dx + c.x - p.width / 2;
+    p.y = dy + c.y - p.height / 2;
+    p.rotation = normaliseRotation(deg);
+  }
+}
+
+function groupsOf(pieces: PieceDef[], tray: string[] = []) {
+  const groups = new Map(pieces.map(p => [p.id, p.id]));
+  groupsFromPositions(pieces, new Set(tray), groups);
+  return groups;
+}
+
+/** The pieces of each group, as sorted id lists */
+function partition(groups: Map<string, string>): string[][] {
+  const members = new Map<string, string[]>();
+  for (const [id, group] of groups) members.set(group, [...(members.get(group) ?? []), id]);
+  return [...members.values()].map(ids => ids.sort()).sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+describe("groupsFromPositions", () => {
+  it("joins neighbours that sit interlocked, also when turned", () => {
+    const pieces = board();
+    cluster(pieces, ["0-0", "1-0", "0-1"], 500, 400);
+    cluster(pieces, ["2-0", "2-1"], 2000, 300, 90);
+    const groups = groupsOf(pieces);
+    expect(partition(groups)).toEqual([["0-0", "0-1", "1-0"], ["1-1"], ["2-0", "2-1"]]);
+    // Every piece maps straight to its group, not through a chain
+    for (const group of groups.values()) expect(groups.get(group)).toBe(group);
+  });
+
+  it("keeps pieces apart that are only close, turned differently or in the tray", () => {
+    const pieces = board();
+    cluster(pieces, ["0-0", "1-0"], 500, 400);
+    const right = pieces.find(p => p.id === "1-0")!;
+    right.x += right.width * 0.05;
+    cluster(pieces, ["0-1", "1-1"], 2000, 400);
+    pieces.find(p => p.id === "1-1")!.rotation = 90;
+    cluster(pieces, ["2-0", "2-1"], 3000, 400);
+    expect(partition(groupsOf(pieces, ["2-1"]))).toEqual(pieces.map(p => [p.id]).sort());
+  });
+
+  it("joins placed pieces and whatever is snapped onto them", () => {
+    const pieces = board();
+    for (const id of ["0-0", "1-0"]) Object.assign(pieces.find(p => p.id === id)!, { isPlaced: true });
+    cluster(pieces, ["0-0", "1-0"], 0, 0);
+    // Off the board but interlocked with the placed 1-0
+    const below = pieces.find(p => p.id === "1-1")!;
+    Object.assign(below, expectedNextTo(below, pieces.find(p => p.id === "1-0")!));
+    expect(partition(groupsOf(pieces))).toEqual([["0-0", "1-0", "1-1"], ["0-1"], ["2-0"], ["2-1"]]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { HINT_MS, canHintSlot, createHint, findNeighbourHint, hintsAllowed } from "@/puzzle/hints";
+import { DEFAULT_PUZZLE_OPTIONS, generatePuzzle } from "@/puzzle/generator";
+
+// 3×2 board: ids are `${col}-${row}`
+const { pieces } = generatePuzzle(300, 200, 3, 2, 7, DEFAULT_PUZZLE_OPTIONS);
+const byId = (id: string) => pieces.find(p => p.id === id)!;
+
+describe("hints", () => {
+  it("prefers a neighbour on the board over one in the tray", () => {
+    const tray = new Set(pieces.map(p => p.id).filter(id => id !== "0-1"));
+    const hint = findNeighbourHint(pieces, new Map(), byId("0-0"), tray);
+    expect(hint?.id).toBe("0-1");
+  });
+
+  it("falls back to the tray and skips pieces already in the group", () => {
+    const groups = new Map([["0-0", "0-0"], ["1-0", "0-0"], ["0-1", "0-0"]]);
+    const tray = new Set(["2-0", "1-1", "2-1"]);
+    const hint = findNeighbourHint(pieces, groups, byId("0-0"), tray);
+    expect(["2-0", "1-1"]).toContain(hint?.id);
+  });
+
+  it("passes over neighbours placed in another group while others are left", () => {
+    const board = pieces.map(p => (p.id === "1-0" ? { ...p, isPlaced: true } : p));
+    const at = (id: string) => board.find(p => p.id === id)!;
+    const tray = new Set(["0-1"]);
+    expect(findNeighbourHint(board, new Map(), at("0-0"), tray)?.id).toBe("0-1");
+    // Nothing else joins on: the placed one is better than no hint
+    const groups = new Map(board.filter(p => p.id !== "1-0").map(p => [p.id, "0-0"]));
+    expect(findNeighbourHint(board, groups, at("0-0"), new Set())?.id).toBe("1-0");
+  });
+
+  it("returns null once the whole puzzle is one group", () => {
+    const groups = new Map(pieces.map(p => [p.id, "0-0"]));
+    expect(findNeighbourHint(pieces, groups, byId("1-1"), new Set())).toBeNull();
+  });
+
+  it("pulses the slot on the board for a piece lying in the tray", () => {
+    const tray = new Set(["2-1"]);
+    expect(canHintSlot(byId("2-1"))).toBe(true);
+    expect(createHint("slot", byId("2-1"), pieces, new Map(), tray, 1000)).toEqual({
+      kind: "slot", pieceId: "2-1", inTray: false, until: 1000 + HINT_MS,
+    });
+  });
+
+  it("highlights a neighbour waiting in the tray there", () => {
+    const tray = new Set(pieces.map(p => p.id).filter(id => id !== "0-0"));
+    const hint = createHint("neighbour", byId("0-0"), pieces, new Map(), tray, 0);
+    expect(hint).toMatchObject({ kind: "neighbour", inTray: true });
+  });
+
+  it("has no slot to show for a placed piece", () => {
+    const placed = { ...byId("1-0"), isPlaced: true };
+    expect(canHintSlot(placed)).toBe(false);
+    expect(createHint("slot", placed, pieces, new Map(), new Set(), 0)).toBeNull();
+  });
+
+  it("is switched off by no-hints mode", () => {
+    expect(hintsAllowed(DEFAULT_PUZZLE_OPTIONS)).toBe(true);
+    expect(hintsAllowed({ ...DEFAULT_PUZZLE_OPTIONS, noHints: true })).toBe(false);
+  });
+});
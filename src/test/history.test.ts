@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  EMPTY_HISTORY,
+  HistoryCommand,
+  MAX_HISTORY,
+  MAX_SAVED_COMMANDS,
+  MAX_SAVED_SNAPSHOTS,
+  PieceSnapshot,
+  diffSnapshots,
+  pushCommand,
+  trimHistory,
+} from "@/puzzle/history";
+
+const piece = (id: string, changes: Partial<PieceSnapshot> = {}): PieceSnapshot => ({
+  id, fx: 0.1, fy: 0.2, rotation: 0, isPlaced: false, zIndex: 1, inTray: false, group: id, ...changes,
+});
+
+const board = (...snapshots: PieceSnapshot[]) => new Map(snapshots.map(s => [s.id, s]));
+
+/** A command touching `size` pieces */
+function command(size: number, tag = 0): HistoryCommand {
+  const before = Array.from({ length: size }, (_, i) => piece(`${i}-${tag}`));
+  return { kind: "move", before, after: before.map(s => ({ ...s, fx: 0.5 })) };
+}
+
+describe("diffSnapshots", () => {
+  const before = board(piece("a"), piece("b"));
+
+  it("classifies what an action did", () => {
+    const kindOf = (...after: PieceSnapshot[]) => diffSnapshots(before, board(...after))!.kind;
+    expect(kindOf(piece("a", { fx: 0.4 }), piece("b"))).toBe("move");
+    expect(kindOf(piece("a", { rotation: 90 }), piece("b"))).toBe("move");
+    expect(kindOf(piece("a", { isPlaced: true }), piece("b"))).toBe("snap");
+    expect(kindOf(piece("a", { group: "b" }), piece("b"))).toBe("merge");
+    expect(kindOf(piece("a", { inTray: true }), piece("b"))).toBe("tray");
+  });
+
+  it("counts snapping or joining up straight out of the tray as such", () => {
+    const fromTray = board(piece("a", { inTray: true }), piece("b"));
+    expect(diffSnapshots(fromTray, board(piece("a", { isPlaced: true }), piece("b")))!.kind).toBe("snap");
+    expect(diffSnapshots(fromTray, board(piece("a", { group: "b" }), piece("b")))!.kind).toBe("merge");
+    expect(diffSnapshots(fromTray, board(piece("a", { fx: 0.7 }), piece("b")))!.kind).toBe("tray");
+  });
+
+  it("records only the pieces that changed, before and after", () => {
+    const command = diffSnapshots(before, board(piece("a"), piece("b", { fx: 0.9 })))!;
+    expect(command.before).toEqual([piece("b")]);
+    expect(command.after).toEqual([piece("b", { fx: 0.9 })]);
+  });
+
+  it("ignores a piece that was only raised", () => {
+    expect(diffSnapshots(before, board(piece("a", { zIndex: 40 }), piece("b")))).toBeNull();
+    expect(diffSnapshots(before, board(piece("a"), piece("b")))).toBeNull();
+  });
+
+  it("keeps the new zIndex when something else changed too", () => {
+    const command = diffSnapshots(before, board(piece("a", { zIndex: 40, fx: 0.3 }), piece("b", { zIndex: 41 })))!;
+    expect(command.after.map(s => [s.id, s.zIndex])).toEqual([["a", 40], ["b", 41]]);
+  });
+});
+
+describe("pushCommand", () => {
+  it("drops the redo stack", () => {
+    const history = { undo: [command(1, 1)], redo: [command(1, 2)] };
+    expect(pushCommand(history, command(1, 3))).toEqual({ undo: [command(1, 1), command(1, 3)], redo: [] });
+  });
+
+  it("keeps the last MAX_HISTORY commands", () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < MAX_HISTORY + 5; i++) history = pushCommand(history, command(1, i));
+    expect(history.undo).toHaveLength(MAX_HISTORY);
+    expect(history.undo[0]).toEqual(command(1, 5));
+    expect(history.undo[MAX_HISTORY - 1]).toEqual(command(1, MAX_HISTORY + 4));
+  });
+});
+
+describe("trimHistory", () => {
+  it("keeps the newest MAX_SAVED_COMMANDS of each stack", () => {
+    const undo = Array.from({ length: 40 }, (_, i) => command(1, i));
+    const redo = Array.from({ length: 35 }, (_, i) => command(1, 100 + i));
+    const trimmed = trimHistory({ undo, redo });
+    expect(trimmed.undo).toEqual(undo.slice(-MAX_SAVED_COMMANDS));
+    expect(trimmed.redo).toEqual(redo.slice(-MAX_SAVED_COMMANDS));
+  });
+
+  it("stops at MAX_SAVED_SNAPSHOTS without leaving a gap", () => {
+    // 600 pieces = 1200 snapshots each; the oldest of three can't fit
+    const undo = [command(600, 1), command(10, 2), command(600, 3)];
+    const trimmed = trimHistory({ undo, redo: [] });
+    expect(trimmed.undo).toEqual([command(10, 2), command(600, 3)]);
+
+    // Past a command that doesn't fit, nothing older is kept either
+    const gap = trimHistory({ undo: [command(1, 1), command(MAX_SAVED_SNAPSHOTS, 2), command(1, 3)], redo: [] });
+    expect(gap.undo).toEqual([command(1, 3)]);
+  });
+
+  it("shares the snapshot budget between undo and redo, undo first", () => {
+    const undo = [command(900, 1)];
+    const redo = [command(200, 2), command(50, 3)];
+    const trimmed = trimHistory({ undo, redo });
+    // 1800 used by undo; redo keeps what fits of its end, the steps right after the board as saved
+    expect(trimmed.undo).toEqual(undo);
+    expect(trimmed.redo).toEqual([command(50, 3)]);
+  });
+});
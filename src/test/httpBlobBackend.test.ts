@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+// jsdom's Blob has no arrayBuffer(); browsers and Node's do
+import { Blob as NodeBlob } from "node:buffer";
+import { createHttpBlobBackend } from "@/lib/backends/httpBlobBackend";
+import { hashBlob } from "@/lib/imageStore";
+
+// Local stand-in for the image server: PUT stores the body, GET returns it
+let server: Server;
+let baseUrl: string;
+const stored = new Map<string, Buffer>();
+const authHeaders: (string | undefined)[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    authHeaders.push(req.headers.authorization);
+    const key = req.url ?? "";
+    if (req.method === "PUT") {
+      const chunks: Buffer[] = [];
+      req.on("data", c => chunks.push(c));
+      req.on("end", () => {
+        stored.set(key, Buffer.concat(chunks));
+        res.writeHead(204).end();
+      });
+    } else if (req.method === "GET") {
+      const body = stored.get(key);
+      if (!body) res.writeHead(404).end();
+      else res.writeHead(200, { "Content-Type": "image/jpeg" }).end(body);
+    } else {
+      res.writeHead(405).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/images/`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe("http blob backend", () => {
+  it("uploads and downloads a blob by hash", async () => {
+    const backend = createHttpBlobBackend(baseUrl);
+    const blob = new NodeBlob([new Uint8Array([1, 2, 3, 255])], { type: "image/jpeg" }) as unknown as Blob;
+    const hash = await hashBlob(blob);
+
+    await backend.put("user 1", hash, blob);
+    expect(stored.has(`/images/user%201/${hash}`)).toBe(true);
+
+    const back = await backend.get("user 1", hash);
+    expect(back).not.toBeNull();
+    expect(await hashBlob(back!)).toBe(hash);
+  });
+
+  it("returns null for missing blobs", async () => {
+    const backend = createHttpBlobBackend(baseUrl);
+    expect(await backend.get("user 1", "0".repeat(64))).toBeNull();
+  });
+
+  it("sends the token as a bearer header", async () => {
+    authHeaders.length = 0;
+    const backend = createHttpBlobBackend(baseUrl, async () => "secret");
+    await backend.get("u", "0".repeat(64));
+    expect(authHeaders).toEqual(["Bearer secret"]);
+  });
+});
+
+describe("hashBlob", () => {
+  it("is the SHA-256 of the bytes", async () => {
+    expect(await hashBlob(new NodeBlob(["abc"]) as unknown as Blob)).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+  });
+});
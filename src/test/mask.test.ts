@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { maskPolygon, traceAlphaOutline } from "@/puzzle/mask";
+import { Point, polygonArea } from "@/puzzle/tiling";
+
+function bounds(poly: Point[]) {
+  const xs = poly.map(p => p.x);
+  const ys = poly.map(p => p.y);
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+}
+
+/**
+ * An image whose alpha, at the 160 px trace resolution, is opaque where
+ * `solid(x, y)` says so. getImageData hands the grid back; `throws` stands
+ * for a tainted canvas.
+ */
+function alphaImage(width: number, height: number, solid: (x: number, y: number) => boolean, throws = false) {
+  vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(function (this: HTMLCanvasElement) {
+    const { width: gw, height: gh } = this;
+    return {
+      drawImage: () => {},
+      getImageData: () => {
+        if (throws) throw new DOMException("tainted", "SecurityError");
+        const data = new Uint8ClampedArray(gw * gh * 4);
+        for (let y = 0; y < gh; y++) {
+          for (let x = 0; x < gw; x++) data[(y * gw + x) * 4 + 3] = solid(x, y) ? 255 : 0;
+        }
+        return { data };
+      },
+    } as unknown as CanvasRenderingContext2D;
+  } as unknown as typeof HTMLCanvasElement.prototype.getContext);
+  return { naturalWidth: width, naturalHeight: height } as HTMLImageElement;
+}
+
+describe("mask shapes", () => {
+  it("fits the largest circle in the middle of the board, wound like the pieces", () => {
+    const circle = maskPolygon("circle", 800, 600)!;
+    expect(polygonArea(circle)).toBeGreaterThan(0);
+    expect(polygonArea(circle)).toBeCloseTo(Math.PI * 300 * 300, -3);
+    const b = bounds(circle);
+    expect(b.minX).toBeCloseTo(100, 6);
+    expect(b.maxX).toBeCloseTo(700, 6);
+    expect(b.minY).toBeCloseTo(0, 0);
+    expect(b.maxY).toBeCloseTo(600, 0);
+    for (const p of circle) expect(Math.hypot(p.x - 400, p.y - 300)).toBeCloseTo(300, 6);
+  });
+
+  it("fits the heart to the board, upright and centred", () => {
+    for (const [w, h] of [[800, 600], [600, 900]]) {
+      const heart = maskPolygon("heart", w, h)!;
+      expect(polygonArea(heart)).toBeGreaterThan(0);
+      const b = bounds(heart);
+      expect(b.minX).toBeGreaterThanOrEqual(-1e-9);
+      expect(b.minY).toBeGreaterThanOrEqual(-1e-9);
+      expect(b.maxX).toBeLessThanOrEqual(w + 1e-9);
+      expect(b.maxY).toBeLessThanOrEqual(h + 1e-9);
+      // Fills one side of the board, centred on the other
+      expect(Math.max((b.maxX - b.minX) / w, (b.maxY - b.minY) / h)).toBeCloseTo(1, 9);
+      expect(b.minX).toBeCloseTo(w - b.maxX, 6);
+      expect(b.minY).toBeCloseTo(h - b.maxY, 6);
+      // The point is at the bottom
+      const lowest = heart.find(p => p.y === b.maxY)!;
+      expect(lowest.x).toBeCloseTo(w / 2, 6);
+    }
+  });
+
+  it("scales a traced outline to the board and fixes its winding", () => {
+    const outline = [{ x: 0.1, y: 0.1 }, { x: 0.1, y: 0.9 }, { x: 0.9, y: 0.9 }, { x: 0.9, y: 0.1 }];
+    const mask = maskPolygon("image", 200, 100, outline)!;
+    expect(polygonArea(mask)).toBeGreaterThan(0);
+    expect(bounds(mask)).toEqual({ minX: 20, maxX: 180, minY: 10, maxY: 90 });
+  });
+
+  it("uses the whole rectangle without a mask", () => {
+    expect(maskPolygon("none", 800, 600)).toBeNull();
+    expect(maskPolygon(undefined, 800, 600)).toBeNull();
+    expect(maskPolygon("image", 800, 600, null)).toBeNull();
+  });
+});
+
+describe("tracing a transparent PNG", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("outlines the largest opaque region only", () => {
+    // 160 × 120 grid: a 60 × 40 block and a smaller 10 × 10 one
+    const image = alphaImage(320, 240, (x, y) =>
+      (x >= 20 && x < 80 && y >= 30 && y < 70) || (x >= 120 && x < 130 && y >= 10 && y < 20));
+    const outline = traceAlphaOutline(image)!;
+    expect(polygonArea(outline)).toBeGreaterThan(0);
+    expect(outline).toHaveLength(4);
+    expect(bounds(outline)).toEqual({ minX: 20 / 160, maxX: 80 / 160, minY: 30 / 120, maxY: 70 / 120 });
+  });
+
+  it("simplifies a stair-stepped curve to a few points on it", () => {
+    const image = alphaImage(160, 160, (x, y) => Math.hypot(x + 0.5 - 80, y + 0.5 - 80) < 50);
+    const outline = traceAlphaOutline(image)!;
+    // The pixel staircase turns a few hundred times
+    expect(outline.length).toBeGreaterThan(8);
+    expect(outline.length).toBeLessThan(150);
+    for (const p of outline) expect(Math.abs(Math.hypot(p.x * 160 - 80, p.y * 160 - 80) - 50)).toBeLessThan(1.5);
+    expect(polygonArea(outline) * 160 * 160).toBeCloseTo(Math.PI * 50 * 50, -2);
+  });
+
+  it("gives up on images without useful transparency", () => {
+    expect(traceAlphaOutline(alphaImage(160, 160, () => true))).toBeNull();
+    // Under 2 % opaque
+    expect(traceAlphaOutline(alphaImage(160, 160, (x, y) => x < 10 && y < 10))).toBeNull();
+    expect(traceAlphaOutline(alphaImage(160, 160, (x, y) => x < 80, true))).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { analysePieces } from "@/puzzle/pieceAnalysis";
+import { DEFAULT_PUZZLE_OPTIONS, generatePuzzle } from "@/puzzle/generator";
+
+// jsdom has no Worker/OffscreenCanvas, so this runs the main-thread fallback
+const { pieces } = generatePuzzle(500, 400, 6, 5, 7, DEFAULT_PUZZLE_OPTIONS);
+const board = document.createElement("canvas");
+
+describe("piece analysis", () => {
+  let getContext: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    // No 2D context in jsdom: every piece reads as empty, which is enough to count reads
+    getContext = vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    getContext.mockRestore();
+  });
+
+  it("analyses every piece and reports progress", async () => {
+    const progress: number[] = [];
+    const colors = await analysePieces(101, pieces, board, 500, 400, p => progress.push(p.done));
+    expect(colors.size).toBe(pieces.length);
+    expect(progress[progress.length - 1]).toBe(pieces.length);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(getContext).toHaveBeenCalledTimes(pieces.length);
+  });
+
+  it("caches per seed and shares pieces still in progress", async () => {
+    const first = analysePieces(202, pieces.slice(0, 10), board, 500, 400);
+    const overlapping = analysePieces(202, pieces.slice(5, 15), board, 500, 400);
+    await Promise.all([first, overlapping]);
+    expect(getContext).toHaveBeenCalledTimes(15);
+
+    await analysePieces(202, pieces.slice(0, 15), board, 500, 400);
+    expect(getContext).toHaveBeenCalledTimes(15);
+
+    // Same piece ids, another puzzle
+    await analysePieces(303, pieces.slice(0, 15), board, 500, 400);
+    expect(getContext).toHaveBeenCalledTimes(30);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { packPieceState, unpackPieceState } from "@/lib/pieceStateCodec";
+import { FIRESTORE_DOC_LIMIT, estimateSaveSize, valueSize } from "@/lib/saveSize";
+import type { SavedPieceState } from "@/lib/saveSchema";
+
+/** A 40 × 25 puzzle part way through: every third piece placed, groups of four, a quarter in the tray */
+function bigPuzzle(): { piecesState: SavedPieceState[]; trayIds: string[] } {
+  const piecesState: SavedPieceState[] = [];
+  for (let i = 0; i < 1000; i++) {
+    const id = `${i % 40}-${Math.floor(i / 40)}`;
+    const head = i - (i % 4);
+    piecesState.push({
+      id,
+      fx: (i * 0.6180339) % 1.3 - 0.15,
+      fy: (i * 0.4142135) % 1.2 - 0.1,
+      isPlaced: i % 3 === 0,
+      zIndex: i % 3 === 0 ? -1 : i,
+      rotation: (i * 37) % 360,
+      group: `${head % 40}-${Math.floor(head / 40)}`,
+    });
+  }
+  return { piecesState, trayIds: piecesState.filter((_, i) => i % 4 === 1).map(s => s.id) };
+}
+
+describe("packed piece state", () => {
+  it("round-trips within quantisation", () => {
+    const { piecesState, trayIds } = bigPuzzle();
+    const unpacked = unpackPieceState(packPieceState(piecesState, trayIds));
+    expect(unpacked.trayIds).toEqual(trayIds);
+    unpacked.piecesState.forEach((s, i) => {
+      const original = piecesState[i];
+      expect(s.id).toBe(original.id);
+      expect(s.fx).toBeCloseTo(original.fx, 4);
+      expect(s.fy).toBeCloseTo(original.fy, 4);
+      expect(s.rotation).toBeCloseTo(original.rotation!, 2);
+      expect(s.isPlaced).toBe(original.isPlaced);
+      expect(s.zIndex).toBe(original.zIndex);
+      expect(s.group).toBe(original.group);
+    });
+  });
+
+  it("keeps quarter turns exact and wraps rotations into one turn", () => {
+    const piecesState = [0, 90, 180, 270, -90, 450].map((rotation, i) => ({
+      id: `${i}-0`, fx: 0, fy: 0, isPlaced: false, zIndex: 0, rotation,
+    }));
+    const { piecesState: out } = unpackPieceState(packPieceState(piecesState, []));
+    expect(out.map(s => s.rotation)).toEqual([0, 90, 180, 270, 270, 90]);
+  });
+
+  it("keeps tray and group ids that aren't among the pieces", () => {
+    const packed = packPieceState([{ id: "0-0", fx: 0.5, fy: 0.5, isPlaced: false, zIndex: 1 }], ["2-0"]);
+    const { piecesState, trayIds } = unpackPieceState(packed);
+    expect(piecesState).toHaveLength(1);
+    expect(piecesState[0].group).toBeUndefined();
+    expect(trayIds).toEqual(["2-0"]);
+  });
+
+  it("is a fraction of the unpacked size", () => {
+    const { piecesState, trayIds } = bigPuzzle();
+    const packed = valueSize(packPieceState(piecesState, trayIds));
+    expect(packed).toBeLessThan(valueSize({ piecesState, trayIds }) / 3);
+    expect(packed).toBeLessThan(30 * 1024);
+  });
+});
+
+describe("save size estimate", () => {
+  it("counts values the way Firestore does", () => {
+    expect(valueSize("abc")).toBe(4);
+    expect(valueSize("åäö")).toBe(7);
+    expect(valueSize({ a: 1, b: [true, null] })).toBe(2 + 8 + 2 + 2);
+  });
+
+  it("puts a 1000-piece save well under the document limit", () => {
+    const { piecesState, trayIds } = bigPuzzle();
+    const doc = { packedPieces: packPieceState(piecesState, trayIds), thumbnailDataUrl: "x".repeat(15_000) };
+    expect(estimateSaveSize("user", "save", doc)).toBeLessThan(FIRESTORE_DOC_LIMIT / 10);
+  });
+});
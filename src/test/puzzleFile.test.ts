@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+// jsdom's Blob and File have no arrayBuffer() / text(); browsers and Node's do
+import { Blob as NodeBlob, File as NodeFile } from "node:buffer";
+
+vi.stubGlobal("Blob", NodeBlob);
+vi.stubGlobal("File", NodeFile);
+
+// IndexedDB (imageStore, localSaveStore) in memory
+const idb = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock("idb-keyval", () => ({
+  createStore: () => ({}),
+  get: async (key: string) => idb.get(key),
+  set: async (key: string, value: unknown) => { idb.set(key, value); },
+  del: async (key: string) => { idb.delete(key); },
+  entries: async () => [...idb],
+}));
+
+// Saving an import syncs it: keep the saves and images off the network
+vi.mock("@/lib/saveBackend", async importOriginal => {
+  const { createLocalSaveBackend } = await import("@/lib/backends/localSaveBackend");
+  const backend = createLocalSaveBackend();
+  return {
+    ...(await importOriginal<typeof import("@/lib/saveBackend")>()),
+    getSaveBackend: () => backend,
+  };
+});
+
+vi.mock("@/lib/blobBackend", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/blobBackend")>()),
+  getBlobBackend: () => null,
+}));
+
+import { PuzzleFileError, exportPuzzleFile, importPuzzleFile } from "@/lib/puzzleFile";
+import { hashBlob, loadImageBlob, storeImageBlob } from "@/lib/imageStore";
+import { PuzzleSaveRecord, parseSaveDocument, toSaveDocument } from "@/lib/saveSchema";
+import { EMPTY_STATS } from "@/puzzle/stats";
+
+const jpeg = () => new NodeBlob([new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3, 250, 0xff, 0xd9])], { type: "image/jpeg" }) as unknown as Blob;
+
+async function uploadedSave(): Promise<PuzzleSaveRecord> {
+  await storeImageBlob("s1", jpeg());
+  return {
+    id: "s1",
+    schemaVersion: 8,
+    userId: "u1",
+    createdAt: new Date("2024-01-01T10:00:00Z"),
+    updatedAt: new Date("2024-01-02T10:00:00Z"),
+    imageSource: "local",
+    imageIsPicsum: false,
+    picsumUrl: null,
+    imageHash: await hashBlob(jpeg()),
+    cols: 3,
+    rows: 2,
+    puzzleSeed: 99,
+    options: { rotationMode: "quarter", cutStyle: "classic", tiling: "square", layout: "grid", mask: "none" },
+    piecesState: [
+      { id: "0-0", fx: 0, fy: 0, isPlaced: true, zIndex: -1, rotation: 0, group: "0-0" },
+      { id: "1-0", fx: 0.25, fy: 1.1, isPlaced: false, zIndex: 4, rotation: 90, group: "1-0" },
+    ],
+    trayIds: ["2-0", "0-1"],
+    history: { undo: [], redo: [] },
+    stats: { ...EMPTY_STATS, moves: 3 },
+    placedCount: 1,
+    total: 6,
+    isCompleted: false,
+    completedAt: null,
+    thumbnailDataUrl: null,
+  };
+}
+
+const jsonFile = (content: unknown, name = "pussel.json") =>
+  new NodeFile([typeof content === "string" ? content : JSON.stringify(content)], name) as unknown as File;
+
+describe("puzzle files", () => {
+  beforeEach(() => idb.clear());
+
+  it("imports an export as the same puzzle with the same image bytes", async () => {
+    const save = await uploadedSave();
+    const imported = await importPuzzleFile("u2", await exportPuzzleFile("u1", save));
+
+    // Saving packs piece state, so compare with what a save round trip gives
+    const expected = parseSaveDocument(save.id, toSaveDocument(save));
+    expect(imported.id).not.toBe(save.id);
+    expect(imported.userId).toBe("u2");
+    expect({ ...imported, id: save.id, userId: "u1", updatedAt: save.updatedAt }).toEqual(expected);
+
+    expect(imported.imageHash).toBe(save.imageHash);
+    const stored = await loadImageBlob(imported.id);
+    expect(await hashBlob(stored!)).toBe(save.imageHash);
+  });
+
+  it("rejects a file that isn't JSON", async () => {
+    await expect(importPuzzleFile("u1", jsonFile("not json {"))).rejects.toThrow(PuzzleFileError);
+  });
+
+  it("rejects JSON in another format", async () => {
+    const save = toSaveDocument(await uploadedSave());
+    const file = { format: "something-else", version: 1, exportedAt: "", save, image: null };
+    await expect(importPuzzleFile("u1", jsonFile(file))).rejects.toThrow(PuzzleFileError);
+    await expect(importPuzzleFile("u1", jsonFile({ ...file, format: "picture-puzzle", version: 2 })))
+      .rejects.toThrow(PuzzleFileError);
+  });
+
+  it("rejects an image that isn't base64", async () => {
+    const save = toSaveDocument(await uploadedSave());
+    const file = { format: "picture-puzzle", version: 1, exportedAt: "", save, image: "data:image/jpeg;base64,@@@" };
+    await expect(importPuzzleFile("u1", jsonFile(file))).rejects.toThrow(/unreadable/);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Frame cost of the table for N pieces, without a browser: the canvas only
+ * counts calls (fakeCanvas.ts), so this measures the JavaScript side — paths,
+ * gradients, sorting, dirty tracking — which is what stalls older iPads.
+ *
+ *   npm run bench
+ */
+
+import { bench, describe } from "vitest";
+import { createTableRenderer, TableState } from "@/puzzle/tableRenderer";
+import { drawPiece } from "@/puzzle/renderer";
+import { FIT_CAMERA } from "@/puzzle/camera";
+import { DEFAULT_PUZZLE_OPTIONS, generatePuzzle } from "@/puzzle/generator";
+import { DrawCounts, fakeCanvasFactory, fakeContext, installFakePath2D } from "./fakeCanvas";
+
+installFakePath2D();
+
+const view = { cam: FIT_CAMERA, cw: 1024, ch: 768, dpr: 2 };
+const still: TableState = { isHidden: () => false, showGuide: false, glowId: null, glowAlpha: 0 };
+
+function table(cols: number, rows: number) {
+  const { pieces, boardWidth, boardHeight } = generatePuzzle(900, 640, cols, rows, 7, DEFAULT_PUZZLE_OPTIONS);
+  for (const p of pieces) {
+    p.x = 60 + p.solvedX;
+    p.y = 60 + p.solvedY;
+  }
+  const counts: DrawCounts = new Map();
+  const boardImage = {} as HTMLCanvasElement;
+  const renderer = createTableRenderer(
+    { boardX: 60, boardY: 60, boardW: boardWidth, boardH: boardHeight, boardImage, outline: null, pieces },
+    fakeCanvasFactory(counts),
+  );
+  const ctx = fakeContext(counts);
+  // Sprites rendered, as after the first frame
+  renderer.render(ctx, view, still);
+  return { pieces, boardWidth, boardHeight, boardImage, renderer, ctx };
+}
+
+for (const [cols, rows] of [[10, 10], [20, 20], [40, 25]]) {
+  describe(`${cols * rows} pieces`, () => {
+    const t = table(cols, rows);
+    const dragged = t.pieces[Math.floor(t.pieces.length / 2)];
+    const neighbour = t.pieces[Math.floor(t.pieces.length / 2) + 1];
+    let step = 0;
+
+    bench("drawPiece for every piece (before)", () => {
+      const sorted = [...t.pieces].sort((a, b) => a.zIndex - b.zIndex);
+      for (const p of sorted) drawPiece(t.ctx, p, t.boardImage, t.boardWidth, t.boardHeight);
+    });
+
+    bench("table layer, dragging one piece", () => {
+      dragged.x += ++step % 2 ? 3 : -3;
+      t.renderer.render(t.ctx, view, { ...still, isHidden: p => p === dragged });
+      t.renderer.drawPiece(t.ctx, dragged);
+    });
+
+    bench("table layer, dragging a pair (group member moves in the layer)", () => {
+      const dx = ++step % 2 ? 3 : -3;
+      dragged.x += dx;
+      neighbour.x += dx;
+      t.renderer.render(t.ctx, view, { ...still, isHidden: p => p === dragged });
+      t.renderer.drawPiece(t.ctx, dragged);
+    });
+
+    bench("table layer, panning (full redraw from sprites)", () => {
+      const x = ++step % 2 ? -1 : 0;
+      t.renderer.render(t.ctx, { ...view, cam: { zoom: 1.2, x, y: 0 } }, still);
+    });
+  });
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { createLocalSaveBackend } from "@/lib/backends/localSaveBackend";
+import { rowToSave, saveToRow } from "@/lib/backends/supabaseSaveBackend";
+import { parseSaveDocument } from "@/lib/saveSchema";
+
+const doc = {
+  schemaVersion: 4,
+  userId: "u1",
+  imageSource: "local",
+  imageIsPicsum: false,
+  picsumUrl: null,
+  imageHash: null,
+  cols: 4,
+  rows: 3,
+  puzzleSeed: 99,
+  options: { rotationMode: "none", cutStyle: "classic", tiling: "square", layout: "grid", mask: "none", maskOutline: null },
+  piecesState: [{ id: "0-0", fx: 0.1, fy: 0.2, isPlaced: false, zIndex: 3, rotation: 0, group: "0-0" }],
+  trayIds: ["1-0"],
+  history: { undo: [], redo: [] },
+  placedCount: 0,
+  total: 12,
+  isCompleted: false,
+  thumbnailDataUrl: null,
+  createdAt: 1_700_000_000_000,
+  updatedAt: 1_700_000_500_000,
+};
+
+/** Minimal Storage for the write-through test */
+function memoryStorage(): Storage {
+  const data = new Map<string, string>();
+  return {
+    get length() { return data.size; },
+    clear: () => data.clear(),
+    getItem: key => data.get(key) ?? null,
+    key: i => [...data.keys()][i] ?? null,
+    removeItem: key => { data.delete(key); },
+    setItem: (key, value) => { data.set(key, value); },
+  };
+}
+
+describe("local save backend", () => {
+  it("saves, lists, loads and deletes per user", async () => {
+    const backend = createLocalSaveBackend();
+    await backend.save("u1", "a", doc);
+    await backend.save("u2", "b", { ...doc, userId: "u2" });
+
+    expect((await backend.list("u1")).map(s => s.id)).toEqual(["a"]);
+    const loaded = await backend.load("u1", "a");
+    expect(loaded).toEqual({ id: "a", doc, updatedAt: doc.updatedAt });
+    expect(await backend.load("u1", "b")).toBeNull();
+
+    await backend.delete("u1", "a");
+    await backend.delete("u1", "missing");
+    expect(await backend.list("u1")).toEqual([]);
+    expect(await backend.list("u2")).toHaveLength(1);
+  });
+
+  it("returns copies", async () => {
+    const backend = createLocalSaveBackend();
+    await backend.save("u1", "a", doc);
+    const loaded = await backend.load("u1", "a");
+    (loaded!.doc.piecesState as { fx: number }[])[0].fx = 42;
+    expect(((await backend.load("u1", "a"))!.doc.piecesState as { fx: number }[])[0].fx).toBe(0.1);
+  });
+
+  it("survives a reload through storage", async () => {
+    const storage = memoryStorage();
+    await createLocalSaveBackend(storage).save("u1", "a", doc);
+    const reloaded = createLocalSaveBackend(storage);
+    expect((await reloaded.load("u1", "a"))?.doc).toEqual(doc);
+  });
+});
+
+describe("supabase row mapping", () => {
+  it("maps onto the puzzle_games columns", () => {
+    const row = saveToRow("u1", "a", doc);
+    expect(row.id).toBe("a");
+    expect(row.user_id).toBe("u1");
+    expect(row.image_url).toBe("local");
+    expect(row.completed).toBe(false);
+    expect(row.board_pieces).toEqual(doc.piecesState);
+    expect(row.tray_pieces).toEqual(["1-0"]);
+    expect(row.tabs_config).toEqual({ puzzleSeed: 99, options: doc.options });
+  });
+
+  it("round-trips a document", () => {
+    // The update trigger stamps updated_at with server time; the client clock must win
+    const row = { ...saveToRow("u1", "a", doc), updated_at: new Date(1_800_000_000_000).toISOString() };
+    const stored = rowToSave(row);
+    expect(stored.updatedAt).toBe(doc.updatedAt);
+    expect(stored.doc).toEqual(doc);
+    expect(parseSaveDocument(stored.id, stored.doc).puzzleSeed).toBe(99);
+  });
+});
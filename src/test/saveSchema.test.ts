@@ -0,0 +1,232 @@
+import { describe, it, expect } from "vitest";
+import {
+  CURRENT_SCHEMA_VERSION,
+  SaveSchemaError,
+  migrateSaveDocument,
+  parseSaveDocument,
+  toSaveDocument,
+} from "@/lib/saveSchema";
+import { packPieceState } from "@/lib/pieceStateCodec";
+import { DEFAULT_PUZZLE_OPTIONS } from "@/puzzle/generator";
+
+/** Stand-in for a Firestore Timestamp */
+const timestamp = (iso: string) => ({ toDate: () => new Date(iso) });
+
+// Each document below is shaped exactly like what savePuzzle wrote at that version
+
+const v1Doc = {
+  userId: "u1",
+  createdAt: timestamp("2024-01-01T10:00:00Z"),
+  updatedAt: timestamp("2024-01-02T10:00:00Z"),
+  imageSource: "local",
+  imageIsPicsum: false,
+  picsumUrl: null,
+  cols: 4,
+  rows: 3,
+  puzzleSeed: 1234,
+  piecesState: [
+    { id: "0-0", fx: 0, fy: 0, isPlaced: true, zIndex: 1 },
+    { id: "1-0", fx: 0.4, fy: 1.2, isPlaced: false, zIndex: 2 },
+  ],
+  trayIds: ["2-0"],
+  placedCount: 1,
+  total: 12,
+  isCompleted: false,
+  thumbnailDataUrl: null,
+};
+
+const v2Doc = {
+  ...v1Doc,
+  schemaVersion: 2,
+  options: { rotationMode: "quarter", cutStyle: "wavy", tiling: "hex", layout: "realistic", mask: "circle" },
+  piecesState: [
+    { id: "0-0", fx: 0, fy: 0, isPlaced: true, zIndex: 1, rotation: 0 },
+    { id: "1-0", fx: 0.4, fy: 1.2, isPlaced: false, zIndex: 2, rotation: 90 },
+  ],
+};
+
+const snapshot = { id: "1-0", fx: 0.4, fy: 1.2, rotation: 90, isPlaced: false, zIndex: 2, inTray: false, group: "1-0" };
+
+const v3Doc = {
+  ...v2Doc,
+  schemaVersion: 3,
+  options: { ...v2Doc.options, mask: "image", maskOutline: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0.5, y: 1 }] },
+  piecesState: v2Doc.piecesState.map(s => ({ ...s, group: "0-0" })),
+  history: {
+    undo: [{ kind: "move", before: [{ ...snapshot, inTray: true }], after: [snapshot] }],
+    redo: [],
+  },
+};
+
+const v4Doc = {
+  ...v3Doc,
+  schemaVersion: 4,
+  imageHash: "ab".repeat(32),
+};
+
+const v5Doc = {
+  ...v4Doc,
+  schemaVersion: 5,
+  stats: { activeMs: 754_000, moves: 41, snaps: 17, streak: 2, longestStreak: 6 },
+};
+
+const { piecesState: _p, trayIds: _t, ...v5Rest } = v5Doc;
+const v6Doc = {
+  ...v5Rest,
+  schemaVersion: 6,
+  stats: { ...v5Doc.stats, hints: 3 },
+  packedPieces: packPieceState(v5Doc.piecesState, v5Doc.trayIds),
+};
+
+const v7Doc = {
+  ...v6Doc,
+  schemaVersion: 7,
+};
+
+const v8Doc = {
+  ...v7Doc,
+  schemaVersion: 8,
+  completedAt: null,
+};
+
+describe("save schema", () => {
+  it("upgrades an unversioned (v1) document", () => {
+    const record = parseSaveDocument("s1", v1Doc);
+    expect(record.id).toBe("s1");
+    expect(record.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(record.options).toEqual(DEFAULT_PUZZLE_OPTIONS);
+    expect(record.piecesState.map(s => s.rotation)).toEqual([0, 0]);
+    expect(record.piecesState[0].group).toBeUndefined();
+    expect(record.history).toBeNull();
+    expect(record.createdAt.toISOString()).toBe("2024-01-01T10:00:00.000Z");
+    expect(record.trayIds).toEqual(["2-0"]);
+  });
+
+  it("fills missing options in partially optioned v1 documents", () => {
+    const record = parseSaveDocument("s1", { ...v1Doc, options: { rotationMode: "free" } });
+    expect(record.options).toEqual({ ...DEFAULT_PUZZLE_OPTIONS, rotationMode: "free" });
+  });
+
+  it("upgrades a v2 document", () => {
+    const record = parseSaveDocument("s2", v2Doc);
+    expect(record.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(record.options).toEqual(v2Doc.options);
+    expect(record.piecesState[1].rotation).toBe(90);
+    expect(record.history).toBeNull();
+  });
+
+  it("upgrades a v3 document", () => {
+    const record = parseSaveDocument("s3", v3Doc);
+    expect(record.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(record.history).toEqual(v3Doc.history);
+    expect(record.piecesState[0].group).toBe("0-0");
+    expect(record.imageHash).toBeNull();
+  });
+
+  it("upgrades a v4 document", () => {
+    const record = parseSaveDocument("s4", v4Doc);
+    expect(record.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(record.imageHash).toBe(v4Doc.imageHash);
+    expect(record.stats).toBeNull();
+  });
+
+  it("upgrades a v5 document, reading its unpacked piece state", () => {
+    const record = parseSaveDocument("s5", v5Doc);
+    expect(record.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(record.piecesState).toEqual(v5Doc.piecesState);
+    expect(record.trayIds).toEqual(v5Doc.trayIds);
+    // Written before hints were counted
+    expect(record.stats.hints).toBe(0);
+    expect(record.stats).toEqual({ ...v5Doc.stats, hints: 0 });
+  });
+
+  it("upgrades a v6 document", () => {
+    const record = parseSaveDocument("s6", v6Doc);
+    expect(record.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(record.piecesState.map(s => s.id)).toEqual(["0-0", "1-0"]);
+  });
+
+  it("upgrades a v7 document, dating a completed puzzle by its last update", () => {
+    expect(parseSaveDocument("s7", v7Doc).completedAt).toBeNull();
+    const completed = parseSaveDocument("s7", { ...v7Doc, placedCount: 12, isCompleted: true });
+    expect(completed.completedAt!.toISOString()).toBe("2024-01-02T10:00:00.000Z");
+  });
+
+  it("unpacks a current document's piece state", () => {
+    const record = parseSaveDocument("s8", v8Doc);
+    expect(record.trayIds).toEqual(["2-0"]);
+    expect(record.piecesState.map(s => [s.id, s.rotation, s.isPlaced, s.group])).toEqual([
+      ["0-0", 0, true, "0-0"],
+      ["1-0", 90, false, "0-0"],
+    ]);
+    expect(record.piecesState[1].fy).toBeCloseTo(1.2, 4);
+    expect(record).not.toHaveProperty("packedPieces");
+  });
+
+  it("round-trips a current document unchanged", () => {
+    const record = parseSaveDocument("s8", v8Doc);
+    const { createdAt, updatedAt, ...rest } = toSaveDocument(record);
+    const { createdAt: _c, updatedAt: _u, ...expected } = v8Doc;
+    expect(record.id).toBe("s8");
+    expect(createdAt).toBe(Date.parse("2024-01-01T10:00:00Z"));
+    expect(updatedAt).toBe(Date.parse("2024-01-02T10:00:00Z"));
+    expect(rest).toEqual(expected);
+  });
+
+  it("lays piece updates over the packed state", () => {
+    const pieceUpdates = {
+      "1-0": { fx: 0.5, fy: 0.5, isPlaced: false, zIndex: 9, rotation: 180, group: "1-0", inTray: true },
+      "2-0": { fx: 0.25, fy: 0.75, isPlaced: false, zIndex: 10, rotation: 0, group: "2-0", inTray: false },
+    };
+    const record = parseSaveDocument("s8", { ...v8Doc, pieceUpdates });
+    expect(record.trayIds).toEqual(["1-0"]);
+    expect(record.piecesState.map(s => [s.id, s.rotation, s.zIndex, s.group])).toEqual([
+      ["0-0", 0, 1, "0-0"],
+      ["1-0", 180, 9, "1-0"],
+      ["2-0", 0, 10, "2-0"],
+    ]);
+    expect(record).not.toHaveProperty("pieceUpdates");
+  });
+
+  it("migration is idempotent on current documents", () => {
+    expect(migrateSaveDocument(v8Doc)).toEqual(v8Doc);
+  });
+
+  it("rejects packed piece state that doesn't add up", () => {
+    const packedPieces = { ...v8Doc.packedPieces, count: 5 };
+    expect(() => parseSaveDocument("bad", { ...v8Doc, packedPieces })).toThrow(/packedPieces/);
+  });
+
+  it("treats missing timestamps (pending server write) as now", () => {
+    const { createdAt: _c, ...doc } = v8Doc;
+    const record = parseSaveDocument("s8", doc);
+    expect(Math.abs(record.createdAt.getTime() - Date.now())).toBeLessThan(5000);
+  });
+
+  it("rejects a corrupt document with a clear error", () => {
+    const corrupt = { ...v5Doc, cols: "four", piecesState: [{ id: "0-0", fx: 0 }] };
+    let error: unknown;
+    try {
+      parseSaveDocument("bad", corrupt);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(SaveSchemaError);
+    const schemaError = error as SaveSchemaError;
+    expect(schemaError.saveId).toBe("bad");
+    expect(schemaError.message).toContain("cols");
+    expect(schemaError.issues.some(i => i.startsWith("piecesState.0.fy"))).toBe(true);
+  });
+
+  it("rejects negative statistics", () => {
+    expect(() =>
+      parseSaveDocument("bad", { ...v5Doc, stats: { ...v5Doc.stats, moves: -1 } }),
+    ).toThrow(SaveSchemaError);
+  });
+
+  it("rejects unknown option values", () => {
+    expect(() =>
+      parseSaveDocument("bad", { ...v5Doc, options: { ...v5Doc.options, tiling: "octagon" } }),
+    ).toThrow(SaveSchemaError);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { summariseSaves, SUMMARY_WEEKS } from "@/lib/saveStats";
+import { difficultyIndexFor } from "@/puzzle/difficulty";
+import type { PuzzleSaveRecord } from "@/lib/saveSchema";
+import { EMPTY_STATS, PuzzleStats } from "@/puzzle/stats";
+import { DEFAULT_PUZZLE_OPTIONS } from "@/puzzle/generator";
+
+// Wednesday
+const now = new Date(2024, 5, 12, 15, 0);
+
+function save(total: number, placed: number, completedAt: Date, stats: Partial<PuzzleStats> | null = null): PuzzleSaveRecord {
+  const isCompleted = placed === total;
+  return {
+    id: `s${Math.random()}`,
+    schemaVersion: 8,
+    userId: "u",
+    createdAt: completedAt,
+    updatedAt: completedAt,
+    imageSource: "local",
+    imageIsPicsum: false,
+    picsumUrl: null,
+    imageHash: null,
+    cols: 8,
+    rows: 6,
+    puzzleSeed: 1,
+    options: DEFAULT_PUZZLE_OPTIONS,
+    piecesState: [],
+    trayIds: [],
+    history: null,
+    stats: stats && { ...EMPTY_STATS, ...stats },
+    placedCount: placed,
+    total,
+    isCompleted,
+    completedAt: isCompleted ? completedAt : null,
+    thumbnailDataUrl: null,
+  };
+}
+
+describe("summariseSaves", () => {
+  it("maps piece counts to the closest difficulty", () => {
+    expect(difficultyIndexFor(48)).toBe(0);
+    expect(difficultyIndexFor(96)).toBe(1);
+    expect(difficultyIndexFor(260)).toBe(2);
+    expect(difficultyIndexFor(420)).toBe(3);
+    expect(difficultyIndexFor(900)).toBe(6);
+  });
+
+  it("counts completions per week, oldest first", () => {
+    const saves = [
+      save(48, 48, new Date(2024, 5, 10, 9)), // Monday this week
+      save(48, 48, new Date(2024, 5, 9, 22)), // Sunday last week
+      save(48, 48, new Date(2024, 5, 3, 9)),
+      save(48, 20, new Date(2024, 5, 11)),
+    ];
+    const { weeks, completed, inProgress, bests } = summariseSaves(saves, now);
+    expect(weeks).toHaveLength(SUMMARY_WEEKS);
+    expect(weeks[SUMMARY_WEEKS - 1].week).toBe(24);
+    expect(weeks.slice(-2).map(w => w.completed)).toEqual([2, 1]);
+    expect(completed).toBe(3);
+    expect(inProgress).toBe(1);
+    expect(bests.bestWeek).toBe(2);
+  });
+
+  it("counts a completion in its own week however recently the save was written", () => {
+    const done = save(48, 48, new Date(2024, 4, 20, 9));
+    const synced = { ...done, updatedAt: new Date(2024, 5, 11) };
+    const { weeks } = summariseSaves([synced], now);
+    expect(weeks.slice(-4).map(w => w.completed)).toEqual([1, 0, 0, 0]);
+  });
+
+  it("averages time per piece per difficulty and finds personal bests", () => {
+    const saves = [
+      save(48, 48, now, { activeMs: 480_000, longestStreak: 4 }),
+      save(50, 50, now, { activeMs: 250_000, longestStreak: 9 }),
+      save(110, 110, now, { activeMs: 2_200_000 }),
+      save(48, 48, now), // completed before stats were tracked
+      save(400, 100, now, { activeMs: 600_000, longestStreak: 12 }),
+    ];
+    const s = summariseSaves(saves, now);
+    expect(s.piecesPlaced).toBe(48 + 50 + 110 + 48 + 100);
+    expect(s.activeMs).toBe(480_000 + 250_000 + 2_200_000 + 600_000);
+    expect(s.difficulties[0]).toEqual({ label: "Medel", completed: 3, msPerPiece: 730_000 / 98, bestMs: 250_000 });
+    expect(s.difficulties[1].msPerPiece).toBe(20_000);
+    expect(s.difficulties[3]).toMatchObject({ completed: 0, msPerPiece: null, bestMs: null });
+    expect(s.bests).toEqual({
+      fastestMsPerPiece: 5_000,
+      longestStreak: 12,
+      largestCompleted: 110,
+      bestWeek: 4,
+    });
+  });
+});
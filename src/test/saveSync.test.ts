@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { SaveBackend, SaveDocument, StoredSave } from "@/lib/saveBackend";
+
+// IndexedDB (localSaveStore) and the backend, in memory
+const fakes = vi.hoisted(() => ({
+  idb: new Map<string, unknown>(),
+  remote: new Map<string, StoredSave>(),
+  /** Runs inside backend.save, before it stores or throws */
+  duringSave: null as null | (() => Promise<void>),
+  failSave: false,
+}));
+
+vi.mock("idb-keyval", () => ({
+  createStore: () => ({}),
+  get: async (key: string) => structuredClone(fakes.idb.get(key)),
+  set: async (key: string, value: unknown) => { fakes.idb.set(key, structuredClone(value)); },
+  del: async (key: string) => { fakes.idb.delete(key); },
+  entries: async () => [...fakes.idb].map(([k, v]) => [k, structuredClone(v)]),
+}));
+
+vi.mock("@/lib/saveBackend", () => {
+  const backend: SaveBackend = {
+    kind: "local",
+    async save(_userId, saveId, doc) {
+      await fakes.duringSave?.();
+      if (fakes.failSave) throw new Error("offline");
+      fakes.remote.set(saveId, { id: saveId, doc, updatedAt: doc.updatedAt as number });
+    },
+    async list() {
+      return [...fakes.remote.values()];
+    },
+    async load(_userId, saveId) {
+      return fakes.remote.get(saveId) ?? null;
+    },
+    async delete(_userId, saveId) {
+      fakes.remote.delete(saveId);
+    },
+  };
+  return { getSaveBackend: () => backend };
+});
+
+vi.mock("@/lib/imageSync", () => ({ ensureImageUploaded: vi.fn(async () => {}) }));
+
+import { getLocalSave, listLocalSaves, putLocalSave, LocalSaveEntry } from "@/lib/localSaveStore";
+import { requestSync, syncStatusOf } from "@/lib/saveSync";
+
+const USER = "u1";
+
+const doc = (updatedAt: number, placedCount = 0): SaveDocument => ({ updatedAt, placedCount, imageHash: null });
+
+function local(id: string, updatedAt: number, sync: LocalSaveEntry["sync"], extra: Partial<LocalSaveEntry> = {}) {
+  return putLocalSave({ id, userId: USER, updatedAt, sync, doc: doc(updatedAt), ...extra });
+}
+
+function remote(id: string, updatedAt: number, placedCount = 0) {
+  fakes.remote.set(id, { id, updatedAt, doc: doc(updatedAt, placedCount) });
+}
+
+describe("save sync", () => {
+  beforeEach(() => {
+    fakes.idb.clear();
+    fakes.remote.clear();
+    fakes.duringSave = null;
+    fakes.failSave = false;
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("pushes a pending save that is newer than the backend copy", async () => {
+    remote("a", 1_000);
+    await local("a", 2_000, "pending");
+    await requestSync(USER);
+    expect(fakes.remote.get("a")!.updatedAt).toBe(2_000);
+    expect((await getLocalSave(USER, "a"))!.sync).toBe("synced");
+  });
+
+  it("takes the backend copy over a pending save when the backend's is newer", async () => {
+    remote("a", 3_000, 7);
+    await local("a", 2_000, "pending");
+    await requestSync(USER);
+    const entry = (await getLocalSave(USER, "a"))!;
+    expect(entry).toMatchObject({ updatedAt: 3_000, sync: "synced" });
+    expect(entry.doc.placedCount).toBe(7);
+    expect(fakes.remote.get("a")!.updatedAt).toBe(3_000);
+  });
+
+  it("pulls saves made on other devices", async () => {
+    remote("new", 1_000);
+    remote("changed", 5_000, 4);
+    await local("changed", 4_000, "synced");
+    await requestSync(USER);
+    expect((await getLocalSave(USER, "new"))!.sync).toBe("synced");
+    expect((await getLocalSave(USER, "changed"))!.doc.placedCount).toBe(4);
+  });
+
+  it("sends deletes made here and drops the tombstone", async () => {
+    remote("a", 1_000);
+    await local("a", 2_000, "pending", { deleted: true });
+    await requestSync(USER);
+    expect(fakes.remote.has("a")).toBe(false);
+    expect(await listLocalSaves(USER)).toEqual([]);
+  });
+
+  it("removes synced saves that were deleted on another device", async () => {
+    await local("gone", 1_000, "synced");
+    await local("unsent", 1_000, "pending");
+    await requestSync(USER);
+    expect(await getLocalSave(USER, "gone")).toBeUndefined();
+    expect(fakes.remote.has("unsent")).toBe(true);
+  });
+
+  it("leaves a save made during its push pending", async () => {
+    await local("a", 1_000, "pending");
+    fakes.duringSave = async () => {
+      fakes.duringSave = null;
+      await local("a", 2_000, "pending");
+    };
+    await requestSync(USER);
+    expect(fakes.remote.get("a")!.updatedAt).toBe(1_000);
+    expect((await getLocalSave(USER, "a"))!).toMatchObject({ updatedAt: 2_000, sync: "pending" });
+
+    await requestSync(USER);
+    expect(fakes.remote.get("a")!.updatedAt).toBe(2_000);
+    expect((await getLocalSave(USER, "a"))!.sync).toBe("synced");
+  });
+
+  it("marks a failed push as an error, unless it was saved again meanwhile", async () => {
+    fakes.failSave = true;
+    await local("a", 1_000, "pending");
+    await requestSync(USER);
+    const failed = (await getLocalSave(USER, "a"))!;
+    expect(failed.sync).toBe("error");
+    expect(syncStatusOf(failed)).toBe("error");
+    expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/push of a failed/), expect.any(Error));
+
+    fakes.duringSave = async () => {
+      fakes.duringSave = null;
+      await local("a", 2_000, "pending");
+    };
+    await requestSync(USER);
+    expect((await getLocalSave(USER, "a"))!).toMatchObject({ updatedAt: 2_000, sync: "pending" });
+
+    fakes.failSave = false;
+    await requestSync(USER);
+    expect((await getLocalSave(USER, "a"))!.sync).toBe("synced");
+  });
+
+  it("does nothing while offline", async () => {
+    vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    await local("a", 1_000, "pending");
+    await requestSync(USER);
+    expect(fakes.remote.size).toBe(0);
+    expect((await getLocalSave(USER, "a"))!.sync).toBe("pending");
+  });
+});
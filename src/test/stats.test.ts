@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  EMPTY_STATS,
+  IDLE_MS,
+  clockElapsed,
+  formatPlayTime,
+  pauseClock,
+  pausedClock,
+  recordMove,
+  touchClock,
+} from "@/puzzle/stats";
+import { diffSnapshots } from "@/puzzle/history";
+
+describe("play stats", () => {
+  it("counts moves, snaps and the longest streak", () => {
+    let stats = EMPTY_STATS;
+    for (const kind of ["snap", "merge", "snap", "move", "tray", "snap"] as const) {
+      stats = recordMove(stats, kind);
+    }
+    expect(stats).toEqual({ activeMs: 0, moves: 6, snaps: 4, streak: 1, longestStreak: 3, hints: 0 });
+  });
+
+  it("counts a piece dragged out of the tray that snaps as a snap", () => {
+    const inTray = { id: "3-2", fx: 0, fy: 0, rotation: 0, isPlaced: false, zIndex: 0, inTray: true, group: "3-2" };
+    const before = new Map([[inTray.id, inTray]]);
+    const placed = new Map([[inTray.id, { ...inTray, fx: 0.3, fy: 0.4, isPlaced: true, inTray: false, zIndex: -1 }]]);
+    const joined = new Map([[inTray.id, { ...inTray, fx: 0.3, fy: 0.4, inTray: false, group: "2-2" }]]);
+    const loose = new Map([[inTray.id, { ...inTray, fx: 0.5, inTray: false }]]);
+
+    let stats = recordMove({ ...EMPTY_STATS, streak: 2, longestStreak: 2 }, diffSnapshots(before, placed)!.kind);
+    stats = recordMove(stats, diffSnapshots(before, joined)!.kind);
+    expect(stats).toMatchObject({ snaps: 2, streak: 4, longestStreak: 4 });
+    expect(diffSnapshots(before, loose)!.kind).toBe("tray");
+  });
+
+  it("only runs the clock between touch and pause", () => {
+    let clock = pausedClock(5_000);
+    expect(clockElapsed(clock, 100_000)).toBe(5_000);
+    clock = touchClock(clock, 100_000);
+    clock = touchClock(clock, 110_000);
+    expect(clockElapsed(clock, 112_000)).toBe(17_000);
+    clock = pauseClock(clock, 120_000);
+    expect(clockElapsed(clock, 500_000)).toBe(25_000);
+  });
+
+  it("stops counting after the idle cut-off", () => {
+    let clock = touchClock(pausedClock(0), 0);
+    expect(clockElapsed(clock, 10 * IDLE_MS)).toBe(IDLE_MS);
+    // Coming back after a break starts a new stretch
+    clock = touchClock(clock, 10 * IDLE_MS);
+    expect(clockElapsed(clock, 10 * IDLE_MS + 1_000)).toBe(IDLE_MS + 1_000);
+  });
+
+  it("formats play time", () => {
+    expect(formatPlayTime(65_400)).toBe("1:05");
+    expect(formatPlayTime(3_725_000)).toBe("1:02:05");
+  });
+});
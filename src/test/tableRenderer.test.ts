@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { createTableRenderer, mergeRects, TableState } from "@/puzzle/tableRenderer";
+import { FIT_CAMERA } from "@/puzzle/camera";
+import { DEFAULT_PUZZLE_OPTIONS, generatePuzzle } from "@/puzzle/generator";
+import { DrawCounts, fakeCanvasFactory, fakeContext, installFakePath2D } from "./fakeCanvas";
+
+const view = { cam: FIT_CAMERA, cw: 1000, ch: 800, dpr: 1 };
+const still: TableState = { isHidden: () => false, showGuide: false, glowId: null, glowAlpha: 0 };
+
+function setup() {
+  const { pieces, boardWidth, boardHeight } = generatePuzzle(800, 600, 20, 15, 5, DEFAULT_PUZZLE_OPTIONS);
+  // Lay the pieces out on the board
+  for (const p of pieces) {
+    p.x = 100 + p.solvedX;
+    p.y = 100 + p.solvedY;
+  }
+  const counts: DrawCounts = new Map();
+  const table = createTableRenderer(
+    { boardX: 100, boardY: 100, boardW: boardWidth, boardH: boardHeight, boardImage: {} as HTMLCanvasElement, outline: null, pieces },
+    fakeCanvasFactory(counts),
+  );
+  return { pieces, counts, table, ctx: fakeContext(counts) };
+}
+
+describe("table renderer", () => {
+  beforeAll(installFakePath2D);
+
+  it("draws everything once, then nothing while the table is still", () => {
+    const { pieces, table, ctx } = setup();
+    expect(table.render(ctx, view, still)).toEqual({ fullRedraw: true, regions: 1, piecesDrawn: pieces.length });
+    expect(table.render(ctx, view, still)).toEqual({ fullRedraw: false, regions: 0, piecesDrawn: 0 });
+  });
+
+  it("redraws only around a moved piece, from its sprite", () => {
+    const { pieces, counts, table, ctx } = setup();
+    table.render(ctx, view, still);
+    counts.clear();
+
+    const piece = pieces[140];
+    piece.x += 30;
+    const stats = table.render(ctx, view, still);
+    expect(stats.fullRedraw).toBe(false);
+    expect(stats.regions).toBe(1);
+    expect(stats.piecesDrawn).toBeGreaterThan(1);
+    expect(stats.piecesDrawn).toBeLessThan(pieces.length / 10);
+    // Same rotation and selection: no piece was rendered again
+    expect(counts.get("createLinearGradient")).toBeUndefined();
+  });
+
+  it("clears a piece that is lifted off the table", () => {
+    const { pieces, table, ctx } = setup();
+    table.render(ctx, view, still);
+    const lifted = pieces[0];
+    const stats = table.render(ctx, view, { ...still, isHidden: p => p === lifted });
+    expect(stats.regions).toBe(1);
+    expect(stats.piecesDrawn).toBeGreaterThan(0);
+    expect(table.render(ctx, view, { ...still, isHidden: p => p === lifted }).regions).toBe(0);
+  });
+
+  it("redraws everything when the camera moves", () => {
+    const { pieces, table, ctx } = setup();
+    table.render(ctx, view, still);
+    const zoomed = { ...view, cam: { zoom: 2, x: -200, y: -100 } };
+    const stats = table.render(ctx, zoomed, still);
+    expect(stats.fullRedraw).toBe(true);
+    // Off-screen pieces are skipped
+    expect(stats.piecesDrawn).toBeLessThan(pieces.length / 2);
+  });
+});
+
+describe("mergeRects", () => {
+  it("joins overlapping rects and keeps apart ones separate", () => {
+    const merged = mergeRects([
+      { x: 0, y: 0, w: 10, h: 10 },
+      { x: 50, y: 50, w: 10, h: 10 },
+      { x: 5, y: 5, w: 10, h: 10 },
+      { x: 14, y: 14, w: 40, h: 40 },
+    ]);
+    expect(merged).toEqual([{ x: 0, y: 0, w: 60, h: 60 }]);
+    expect(mergeRects([{ x: 0, y: 0, w: 5, h: 5 }, { x: 10, y: 0, w: 5, h: 5 }])).toHaveLength(2);
+  });
+});
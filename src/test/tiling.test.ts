@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  Tiling,
+  TilingCells,
+  countTilingPieces,
+  hexCells,
+  jitterCells,
+  pointKey,
+  squareCells,
+  triangleCells,
+} from "@/puzzle/tiling";
+import { DEFAULT_PUZZLE_OPTIONS, PieceDef, generatePuzzle } from "@/puzzle/generator";
+
+type Lattice = (width: number, height: number, cols: number, rows: number) => TilingCells;
+
+/** Jittered corners of a lattice as fractions of the board */
+function normalisedCorners(lattice: Lattice, width: number, height: number) {
+  const { cells, knobUnit } = lattice(width, height, 12, 9);
+  return jitterCells(cells, width, height, knobUnit * 0.18, 1234)
+    .flatMap(cell => cell.poly.map(p => [p.x / width, p.y / height]));
+}
+
+const lattices: [string, Lattice][] = [
+  ["square", squareCells],
+  ["hex", hexCells],
+  ["triangle", triangleCells],
+];
+
+describe("tilings", () => {
+  const sizes = [[4, 3], [5, 4], [6, 5], [9, 7], [12, 9]];
+
+  it.each(["square", "hex", "triangle"] as Tiling[])("makes as many %s pieces as StartScreen counts", tiling => {
+    for (const layout of ["grid", "realistic"] as const) {
+      for (const [cols, rows] of sizes) {
+        const { pieces } = generatePuzzle(1200, 900, cols, rows, 5, { ...DEFAULT_PUZZLE_OPTIONS, tiling, layout });
+        expect(pieces, `${cols}×${rows} ${layout}`).toHaveLength(countTilingPieces(tiling, cols, rows));
+      }
+    }
+  });
+
+  it.each(["square", "hex", "triangle"] as Tiling[])("lists %s neighbours from both sides", tiling => {
+    for (const layout of ["grid", "realistic"] as const) {
+      const { pieces } = generatePuzzle(1200, 900, 6, 5, 5, { ...DEFAULT_PUZZLE_OPTIONS, tiling, layout });
+      const byId = new Map(pieces.map(p => [p.id, p]));
+      const count = (p: PieceDef, other: string) => p.neighbours.filter(n => n === other).length;
+      expect(byId.size).toBe(pieces.length);
+      for (const piece of pieces) {
+        expect(piece.neighbours).toHaveLength(piece.corners.length);
+        for (const id of piece.neighbours) {
+          if (!id) continue;
+          expect(id).not.toBe(piece.id);
+          expect(count(byId.get(id)!, piece.id)).toBe(count(piece, id));
+        }
+      }
+      // Inner pieces have a neighbour on every side
+      const inner = pieces.filter(p => p.neighbours.every(Boolean));
+      expect(inner.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("realistic lattice", () => {
+  it.each(lattices)("keeps shared %s corners welded and border corners on the border", (_name, lattice) => {
+    const { cells, knobUnit } = lattice(1200, 900, 8, 6);
+    const jittered = jitterCells(cells, 1200, 900, knobUnit * 0.18, 77);
+    const movedTo = new Map<string, Set<string>>();
+    cells.forEach((cell, i) => cell.poly.forEach((p, k) => {
+      const q = jittered[i].poly[k];
+      const key = pointKey(p);
+      if (!movedTo.has(key)) movedTo.set(key, new Set());
+      movedTo.get(key)!.add(`${q.x}:${q.y}`);
+      if (p.x === 0 || p.x === 1200) expect(q.x).toBe(p.x);
+      if (p.y === 0 || p.y === 900) expect(q.y).toBe(p.y);
+    }));
+    for (const targets of movedTo.values()) expect(targets.size).toBe(1);
+    // And they did move
+    const inner = cells.findIndex(c => c.poly.every(p => p.x > 0 && p.x < 1200 && p.y > 0 && p.y < 900));
+    expect(jittered[inner].poly).not.toEqual(cells[inner].poly);
+  });
+
+  it.each(lattices)("cuts the same %s pieces at any board size", (_name, lattice) => {
+    const reference = normalisedCorners(lattice, 1000, 750);
+    for (const [w, h] of [[1024, 768], [800, 600]]) {
+      const corners = normalisedCorners(lattice, w, h);
+      expect(corners).toHaveLength(reference.length);
+      corners.forEach(([x, y], i) => {
+        expect(x).toBeCloseTo(reference[i][0], 9);
+        expect(y).toBeCloseTo(reference[i][1], 9);
+      });
+    }
+  });
+
+  it("moves corners differently for another seed", () => {
+    const { cells, knobUnit } = squareCells(1000, 750, 12, 9);
+    const a = jitterCells(cells, 1000, 750, knobUnit * 0.18, 1);
+    const b = jitterCells(cells, 1000, 750, knobUnit * 0.18, 2);
+    expect(a[20].poly[0]).not.toEqual(b[20].poly[0]);
+  });
+});
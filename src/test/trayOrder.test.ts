@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { arrangeTray, isEdgePiece, knobPattern } from "@/puzzle/trayOrder";
+import { DEFAULT_PUZZLE_OPTIONS, generatePuzzle } from "@/puzzle/generator";
+
+const { pieces } = generatePuzzle(500, 400, 5, 4, 3, DEFAULT_PUZZLE_OPTIONS);
+const noHue = () => {
+  throw new Error("hue not needed");
+};
+
+describe("tray ordering", () => {
+  it("filters to pieces with a flat edge", () => {
+    const [group] = arrangeTray(pieces, "shuffled", true, noHue);
+    // 5×4 grid: everything except the 3×2 interior
+    expect(group.pieces).toHaveLength(20 - 6);
+    expect(group.pieces.every(isEdgePiece)).toBe(true);
+  });
+
+  it("sorts by hue", () => {
+    const hue = (id: string) => (id.charCodeAt(0) * 37 + id.charCodeAt(2) * 11) % 360;
+    const [group] = arrangeTray(pieces, "hue", false, p => hue(p.id));
+    const hues = group.pieces.map(p => hue(p.id));
+    expect(hues).toEqual([...hues].sort((a, b) => a - b));
+    expect(group.pieces).toHaveLength(pieces.length);
+  });
+
+  it("groups by knob pattern, most tabs first", () => {
+    const groups = arrangeTray(pieces, "knobs", false, noHue);
+    expect(groups.reduce((n, g) => n + g.pieces.length, 0)).toBe(pieces.length);
+    for (const g of groups) {
+      const patterns = new Set(g.pieces.map(p => JSON.stringify(knobPattern(p))));
+      expect(patterns.size).toBe(1);
+      expect(g.label).toMatch(/knopp/);
+    }
+    const tabs = groups.map(g => knobPattern(g.pieces[0]).tabs);
+    expect(tabs).toEqual([...tabs].sort((a, b) => b - a));
+  });
+
+  it("counts tabs and blanks but not flat edges", () => {
+    const corner = pieces.find(p => p.id === "0-0")!;
+    const { tabs, blanks } = knobPattern(corner);
+    expect(tabs + blanks).toBe(2);
+  });
+});
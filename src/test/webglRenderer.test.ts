@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach, beforeAll } from "vitest";
+import { atlasLayout, createBestTableRenderer, WEBGL_MIN_PIECES } from "@/puzzle/webglRenderer";
+import { DEFAULT_PUZZLE_OPTIONS, generatePuzzle } from "@/puzzle/generator";
+import { FIT_CAMERA } from "@/puzzle/camera";
+import type { TableState } from "@/puzzle/tableRenderer";
+import { DrawCounts, fakeContext, fakeWebGLContext, installFakePath2D } from "./fakeCanvas";
+
+const view = { cam: FIT_CAMERA, cw: 1000, ch: 800, dpr: 1 };
+const still: TableState = { isHidden: () => false, showGuide: false, glowId: null, glowAlpha: 0 };
+
+function scene(cols: number, rows: number) {
+  const { pieces, boardWidth, boardHeight } = generatePuzzle(1000, 800, cols, rows, 3, DEFAULT_PUZZLE_OPTIONS);
+  return { boardX: 0, boardY: 0, boardW: boardWidth, boardH: boardHeight, boardImage: {} as HTMLCanvasElement, outline: null, pieces };
+}
+
+describe("mask atlas layout", () => {
+  it("keeps the aimed-for resolution when the pieces fit", () => {
+    const layout = atlasLayout(100, 40, 30, 4096, 2);
+    expect(layout).toMatchObject({ scale: 2, cellW: 80, cellH: 60, cols: 51, rows: 2 });
+  });
+
+  it("lowers the resolution until every cell fits", () => {
+    const layout = atlasLayout(1000, 60, 60, 2048, 2);
+    expect(layout.scale).toBeLessThan(2);
+    expect(layout.cols * layout.rows).toBeGreaterThanOrEqual(1000);
+    expect(layout.width).toBeLessThanOrEqual(2048);
+    expect(layout.height).toBeLessThanOrEqual(2048);
+  });
+});
+
+/**
+ * Canvases whose 2D contexts count into `counts`; WebGL gets `gl` (null for
+ * none). Returns the canvases WebGL was asked for.
+ */
+function fakeCanvases(counts: DrawCounts, gl: WebGLRenderingContext | null) {
+  const glCanvases: HTMLCanvasElement[] = [];
+  const getContext = vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(function (
+    this: HTMLCanvasElement,
+    type: string,
+  ) {
+    if (type !== "webgl") return fakeContext(counts);
+    glCanvases.push(this);
+    return gl;
+  } as typeof HTMLCanvasElement.prototype.getContext);
+  return { getContext, glCanvases };
+}
+
+describe("renderer choice", () => {
+  beforeAll(installFakePath2D);
+  afterEach(() => vi.restoreAllMocks());
+
+  it("falls back to Canvas 2D without WebGL", () => {
+    const counts: DrawCounts = new Map();
+    const { getContext } = fakeCanvases(counts, null);
+    const big = scene(25, 20);
+    expect(big.pieces.length).toBeGreaterThanOrEqual(WEBGL_MIN_PIECES);
+    const renderer = createBestTableRenderer(big);
+    expect(getContext).toHaveBeenCalledWith("webgl", expect.anything());
+
+    // The 2D table draws every piece's sprite itself
+    expect(renderer.render(fakeContext(counts), view, still)).toEqual({
+      fullRedraw: true, regions: 1, piecesDrawn: big.pieces.length,
+    });
+    expect(counts.get("drawImage")).toBeGreaterThan(big.pieces.length);
+  });
+
+  it("switches to Canvas 2D when the WebGL context is lost", () => {
+    const counts: DrawCounts = new Map();
+    const glCounts: DrawCounts = new Map();
+    const { glCanvases } = fakeCanvases(counts, fakeWebGLContext(glCounts));
+    const big = scene(25, 20);
+    const renderer = createBestTableRenderer(big);
+    const ctx = fakeContext(counts);
+
+    renderer.render(ctx, view, still);
+    expect(glCounts.get("drawElements")).toBe(1);
+    expect(counts.get("drawImage")).toBeLessThan(big.pieces.length);
+
+    const lost = new Event("webglcontextlost", { cancelable: true });
+    glCanvases[0].dispatchEvent(lost);
+    expect(lost.defaultPrevented).toBe(true);
+    counts.clear();
+    glCounts.clear();
+
+    expect(renderer.render(ctx, view, still).piecesDrawn).toBe(big.pieces.length);
+    expect(glCounts.size).toBe(0);
+    expect(counts.get("drawImage")).toBeGreaterThan(big.pieces.length);
+    renderer.dispose();
+    expect(glCounts.get("deleteTexture")).toBeUndefined();
+  });
+
+  it("keeps small puzzles on Canvas 2D", () => {
+    const getContext = vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+    createBestTableRenderer(scene(10, 8));
+    expect(getContext).not.toHaveBeenCalledWith("webgl", expect.anything());
+  });
+});